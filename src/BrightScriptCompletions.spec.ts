@@ -0,0 +1,18 @@
+import { expect } from 'chai';
+import { getCompletionTarget } from './BrightScriptCompletions';
+
+describe('BrightScriptCompletions', () => {
+    describe('getCompletionTarget', () => {
+        it('finds the partial top-level name', () => {
+            expect(getCompletionTarget('print pers')).to.eql({ parentExpression: undefined, partialName: 'pers' });
+            expect(getCompletionTarget('print ')).to.eql({ parentExpression: undefined, partialName: '' });
+            expect(getCompletionTarget('')).to.eql({ parentExpression: undefined, partialName: '' });
+        });
+
+        it('finds the expression before the dot', () => {
+            expect(getCompletionTarget('print m.top.na')).to.eql({ parentExpression: 'm.top', partialName: 'na' });
+            expect(getCompletionTarget('? m.')).to.eql({ parentExpression: 'm', partialName: '' });
+            expect(getCompletionTarget('x = person["address"].ci')).to.eql({ parentExpression: 'person["address"]', partialName: 'ci' });
+        });
+    });
+});
@@ -0,0 +1,43 @@
+/**
+ * The BrightScript global functions (utility, string and math functions) that can be called from anywhere
+ */
+export const globalFunctions = [
+    'Abs', 'Asc', 'Atn', 'Box', 'CDbl', 'Chr', 'CInt', 'CopyFile', 'Cos', 'CreateDirectory', 'CreateObject', 'CSng',
+    'DeleteDirectory', 'DeleteFile', 'Eval', 'Exp', 'FindMemberFunction', 'Fix', 'FormatDrive', 'FormatJson',
+    'GetGlobalAA', 'GetInterface', 'GetLastRunCompileError', 'GetLastRunRuntimeError', 'Instr', 'Int', 'LCase', 'Left',
+    'Len', 'ListDir', 'Log', 'MatchFiles', 'Mid', 'MoveFile', 'ParseJson', 'ReadAsciiFile', 'RebootSystem', 'Right',
+    'Rnd', 'Run', 'RunGarbageCollector', 'Sgn', 'Sin', 'Sleep', 'Sqr', 'Str', 'StrI', 'String', 'StringI', 'StrToI',
+    'Substitute', 'Tan', 'Tr', 'Type', 'UCase', 'UpTime', 'Val', 'Wait', 'WriteAsciiFile'
+];
+
+/**
+ * The methods available on every `roSGNode` (from ifSGNodeField, ifSGNodeChildren, ifSGNodeFocus, ifSGNodeDict and ifSGNodeBoundingRect)
+ */
+export const sceneGraphNodeMethods = [
+    'addField', 'addFields', 'appendChild', 'appendChildren', 'boundingRect', 'callFunc', 'clone', 'createChild',
+    'createChildren', 'findNode', 'getAll', 'getAllMeta', 'getChild', 'getChildCount', 'getChildren', 'getField',
+    'getFields', 'getParent', 'getRoots', 'getRootsMeta', 'getScene', 'hasField', 'hasFocus', 'insertChild',
+    'insertChildren', 'isInFocusChain', 'isSameNode', 'isSubtype', 'localBoundingRect', 'moveFromField', 'moveIntoField',
+    'observeField', 'observeFieldScoped', 'parentSubtype', 'queueFields', 'removeChild', 'removeChildIndex',
+    'removeChildren', 'removeChildrenIndex', 'removeField', 'reparent', 'replaceChild', 'replaceChildren',
+    'sceneBoundingRect', 'setField', 'setFields', 'setFocus', 'signalBeacon', 'subtype', 'threadInfo', 'unobserveField',
+    'unobserveFieldScoped', 'update'
+];
+
+/**
+ * Find what the user is completing at the end of the given text.
+ * @param text the text before the cursor (i.e. `print m.top.na`)
+ * @returns the expression before the last dot (i.e. `m.top`, or undefined when completing a top-level name) and the partially typed name after it (i.e. `na`)
+ */
+export function getCompletionTarget(text: string): CompletionTarget {
+    const match = /(?:([a-z_][\w$%!#&.[\]"]*)\.)?([a-z_][\w$%!#&]*)?$/i.exec(text ?? '');
+    return {
+        parentExpression: match?.[1],
+        partialName: match?.[2] ?? ''
+    };
+}
+
+export interface CompletionTarget {
+    parentExpression: string | undefined;
+    partialName: string;
+}
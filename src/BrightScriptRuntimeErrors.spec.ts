@@ -0,0 +1,19 @@
+import { expect } from 'chai';
+import { getRuntimeErrorInfo } from './BrightScriptRuntimeErrors';
+
+describe('BrightScriptRuntimeErrors', () => {
+    describe('getRuntimeErrorInfo', () => {
+        it('finds errors by code', () => {
+            expect(getRuntimeErrorInfo('&H18')?.name).to.equal('ERR_TM');
+        });
+
+        it('finds errors by message when the code is not a hex code', () => {
+            expect(getRuntimeErrorInfo('RUNTIME_ERROR', 'Divide by Zero.')?.errorCode).to.equal('&h14');
+        });
+
+        it('returns undefined for unknown errors', () => {
+            expect(getRuntimeErrorInfo('&h01', 'Something strange happened')).to.be.undefined;
+            expect(getRuntimeErrorInfo(undefined)).to.be.undefined;
+        });
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * The well-known BrightScript runtime error codes, as printed by the device (i.e. `Type Mismatch. (runtime error &h18)`)
+ */
+export const runtimeErrors: RuntimeErrorInfo[] = [
+    { errorCode: '&h00', name: 'ERR_NF', description: 'Next Without For' },
+    { errorCode: '&h02', name: 'ERR_SN', description: 'Syntax Error' },
+    { errorCode: '&h04', name: 'ERR_RG', description: 'Return Without Gosub' },
+    { errorCode: '&h06', name: 'ERR_OD', description: 'Out of Data' },
+    { errorCode: '&h08', name: 'ERR_FC', description: 'Invalid Parameter' },
+    { errorCode: '&h14', name: 'ERR_DIV_ZERO', description: 'Divide by Zero' },
+    { errorCode: '&h18', name: 'ERR_TM', description: 'Type Mismatch' },
+    { errorCode: '&hdf', name: 'ERR_STACK_OVERFLOW', description: 'Stack overflow' },
+    { errorCode: '&he0', name: 'ERR_NOTFUNOPABLE', description: 'Function Call Operator ( ) attempted on non-function' },
+    { errorCode: '&he4', name: 'ERR_INVALID_LVALUE', description: 'Invalid value for left-side of expression' },
+    { errorCode: '&he7', name: 'ERR_ARRAYNOTDIMMED', description: 'Array operation attempted on variable not DIM\'d' },
+    { errorCode: '&he8', name: 'ERR_TM2', description: 'Non-numeric index to array' },
+    { errorCode: '&he9', name: 'ERR_USE_OF_UNINIT_VAR', description: 'Use of uninitialized variable' },
+    { errorCode: '&hec', name: 'ERR_RO4', description: '\'Dot\' Operator attempted with invalid BrightScript Component or interface reference' },
+    { errorCode: '&hef', name: 'ERR_NOTPRINTABLE', description: 'Non-printable value' },
+    { errorCode: '&hf1', name: 'ERR_WRONG_NUM_PARAM', description: 'Wrong number of function parameters' },
+    { errorCode: '&hf2', name: 'ERR_TOO_MANY_PARAM', description: 'Too many function parameters to handle' },
+    { errorCode: '&hf3', name: 'ERR_RO3', description: 'Interface not a member of BrightScript Component' },
+    { errorCode: '&hf4', name: 'ERR_RO2', description: 'Member function not found in BrightScript Component or interface' },
+    { errorCode: '&hf5', name: 'ERR_RO1', description: 'BrightScript Component function call does not have the right number of parameters' },
+    { errorCode: '&hf6', name: 'ERR_RO0', description: 'BrightScript Component could not be created because the object class was not found' },
+    { errorCode: '&hf7', name: 'ERR_STOP', description: 'STOP Statement' },
+    { errorCode: '&hf8', name: 'ERR_BREAK', description: 'scriptBreak() Called' },
+    { errorCode: '&hf9', name: 'ERR_STACK_UNDER', description: 'Stack Underflow' },
+    { errorCode: '&hfa', name: 'ERR_MISSING_PARN', description: 'Missing Parenthesis' },
+    { errorCode: '&hfb', name: 'ERR_UNDEFINED_OP', description: 'Undefined Operator' },
+    { errorCode: '&hfc', name: 'ERR_NORMAL_END', description: 'Normal End' },
+    { errorCode: '&hfd', name: 'ERR_UNDEFINED_OPCD', description: 'Undefined Op Code' },
+    { errorCode: '&hfe', name: 'ERR_INTERNAL', description: 'Internal Error' }
+];
+
+/**
+ * Find the info for a runtime error.
+ * The telnet debugger provides the error code, but the debug protocol only provides the message, so look up by either one.
+ * @param errorCode the error code (i.e. `&h18`). Values that aren't hex error codes are ignored
+ * @param message the error message from the device (i.e. `Type Mismatch.`)
+ * @returns the error info, or undefined if the error is not a known runtime error
+ */
+export function getRuntimeErrorInfo(errorCode: string, message?: string) {
+    const lowerErrorCode = errorCode?.trim().toLowerCase();
+    const result = runtimeErrors.find(x => x.errorCode === lowerErrorCode);
+    if (result) {
+        return result;
+    }
+    //the device includes a trailing period (and sometimes more details), so only compare the start of the message
+    const lowerMessage = message?.trim().toLowerCase();
+    if (lowerMessage) {
+        return runtimeErrors.find(x => lowerMessage.startsWith(x.description.toLowerCase()));
+    }
+}
+
+export interface RuntimeErrorInfo {
+    /**
+     * The lower case hex error code (i.e. `&h18`)
+     */
+    errorCode: string;
+    /**
+     * The name of the error constant from the BrightScript documentation (i.e. `ERR_TM`)
+     */
+    name: string;
+    /**
+     * A human-readable description of the error
+     */
+    description: string;
+}
@@ -9,10 +9,12 @@ describe('ChanperfTracker ', () => {
     let expectedHistory: Array<ChanperfData>;
     let expectedNoDataHistory: Array<ChanperfData>;
     let emitStub: sinon.SinonStub;
+    let nowStub: sinon.SinonStub;
 
     beforeEach(() => {
         chanperfTracker = new ChanperfTracker();
         emitStub = sinon.stub(chanperfTracker as any, 'emit');
+        nowStub = sinon.stub(Date, 'now').returns(1000);
 
         // regex and examples also available at: https://regex101.com/r/AuQOxY/1
         logString = `channel: Start
@@ -59,43 +61,43 @@ describe('ChanperfTracker ', () => {
 
 
         expectedHistory = [
-            { error: null, memory: { total: 61560, anonymous: 36428, file: 24884, shared: 248, swap: 0 }, cpu: { total: 13, user: 10, system: 3 } },
-            { error: null, memory: { total: 65992, anonymous: 40852, file: 24892, shared: 248, swap: 0 }, cpu: { total: 21, user: 19, system: 2 } },
-            { error: null, memory: { total: 71836, anonymous: 46696, file: 24892, shared: 248, swap: 0 }, cpu: { total: 30, user: 25, system: 4 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 2, user: 2, system: 0 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71060, anonymous: 45916, file: 24896, shared: 248, swap: 0 }, cpu: { total: 10, user: 8, system: 2 } },
-            { error: null, memory: { total: 71056, anonymous: 45916, file: 24896, shared: 244, swap: 0 }, cpu: { total: 4, user: 2, system: 2 } },
-            { error: null, memory: { total: 71064, anonymous: 45920, file: 24896, shared: 244, swap: 4 }, cpu: { total: 12, user: 11, system: 1 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 20, user: 17, system: 3 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71749, anonymous: 46068, file: 24904, shared: 248, swap: 529 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71232, anonymous: 46068, file: 24916, shared: 248, swap: 0 }, cpu: { total: 1, user: 1, system: 0 } },
-            { error: null, memory: { total: 71228, anonymous: 46068, file: 24916, shared: 244, swap: 0 }, cpu: { total: 3, user: 3, system: 0 } },
-            { error: null, memory: { total: 71676, anonymous: 46324, file: 25104, shared: 248, swap: 0 }, cpu: { total: 3, user: 2, system: 1 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
-            { error: null, memory: { total: 71232, anonymous: 46068, file: 24916, shared: 248, swap: 0 }, cpu: { total: 1, user: 1, system: 0 } },
-            { error: null, memory: { total: 71228, anonymous: 46068, file: 24916, shared: 244, swap: 0 }, cpu: { total: 3, user: 3, system: 0 } },
-            { error: null, memory: { total: 71676, anonymous: 46324, file: 25104, shared: 248, swap: 0 }, cpu: { total: 3, user: 2, system: 1 } }
+            { timestamp: 1000, error: null, memory: { total: 61560, anonymous: 36428, file: 24884, shared: 248, swap: 0 }, cpu: { total: 13, user: 10, system: 3 } },
+            { timestamp: 1000, error: null, memory: { total: 65992, anonymous: 40852, file: 24892, shared: 248, swap: 0 }, cpu: { total: 21, user: 19, system: 2 } },
+            { timestamp: 1000, error: null, memory: { total: 71836, anonymous: 46696, file: 24892, shared: 248, swap: 0 }, cpu: { total: 30, user: 25, system: 4 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 2, user: 2, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24892, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71060, anonymous: 45916, file: 24896, shared: 248, swap: 0 }, cpu: { total: 10, user: 8, system: 2 } },
+            { timestamp: 1000, error: null, memory: { total: 71056, anonymous: 45916, file: 24896, shared: 244, swap: 0 }, cpu: { total: 4, user: 2, system: 2 } },
+            { timestamp: 1000, error: null, memory: { total: 71064, anonymous: 45920, file: 24896, shared: 244, swap: 4 }, cpu: { total: 12, user: 11, system: 1 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 20, user: 17, system: 3 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71749, anonymous: 46068, file: 24904, shared: 248, swap: 529 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71232, anonymous: 46068, file: 24916, shared: 248, swap: 0 }, cpu: { total: 1, user: 1, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71228, anonymous: 46068, file: 24916, shared: 244, swap: 0 }, cpu: { total: 3, user: 3, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71676, anonymous: 46324, file: 25104, shared: 248, swap: 0 }, cpu: { total: 3, user: 2, system: 1 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71220, anonymous: 46068, file: 24904, shared: 248, swap: 0 }, cpu: { total: 0, user: 0, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71232, anonymous: 46068, file: 24916, shared: 248, swap: 0 }, cpu: { total: 1, user: 1, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71228, anonymous: 46068, file: 24916, shared: 244, swap: 0 }, cpu: { total: 3, user: 3, system: 0 } },
+            { timestamp: 1000, error: null, memory: { total: 71676, anonymous: 46324, file: 25104, shared: 248, swap: 0 }, cpu: { total: 3, user: 2, system: 1 } }
         ];
 
         // Convert everything to bytes
@@ -108,6 +110,7 @@ describe('ChanperfTracker ', () => {
         }
 
         expectedNoDataHistory = [{
+            timestamp: 1000,
             error: { message: 'mem and cpu data not available' },
             memory: {
                 total: 0,
@@ -126,6 +129,7 @@ describe('ChanperfTracker ', () => {
 
     afterEach(() => {
         emitStub.restore();
+        nowStub.restore();
     });
 
     describe('processLog ', () => {
@@ -185,4 +189,75 @@ describe('ChanperfTracker ', () => {
             assert.deepEqual(chanperfTracker.getHistory, []);
         });
     });
+
+    describe('setThresholds', () => {
+        it('emits an alert only when a threshold is first exceeded', () => {
+            chanperfTracker.setThresholds({ memoryMiB: 70, cpuPercent: 20 });
+            chanperfTracker.processLog(logString);
+            const alerts = emitStub.withArgs('chanperf-alert').getCalls().map(x => x.args[1]);
+            expect(alerts.map(x => [x.type, x.value, x.threshold])).to.eql([
+                ['cpu', 21, 20],
+                ['memory', 71836 * 1024, 70 * 1024 * 1024],
+                ['memory', 71749 * 1024, 70 * 1024 * 1024]
+            ]);
+        });
+
+        it('does not emit alerts when no thresholds are set', () => {
+            chanperfTracker.processLog(logString);
+            expect(emitStub.withArgs('chanperf-alert').callCount).to.equal(0);
+        });
+    });
+
+    describe('getSummary', () => {
+        function processSamples(samples: Array<[number, number, number]>) {
+            for (const [timestamp, memoryKiB, cpu] of samples) {
+                nowStub.returns(timestamp);
+                chanperfTracker.processLog(`channel: mem=${memoryKiB}KiB{anon=0,file=0,shared=0},%cpu=${cpu}{user=${cpu},sys=0}\n`);
+            }
+        }
+
+        it('summarizes the memory and cpu usage', () => {
+            processSamples([
+                [0, 1000, 10],
+                [30000, 2000, 20],
+                [60000, 3000, 60]
+            ]);
+            chanperfTracker.processLog('channel: mem and cpu data not available\n');
+            expect(chanperfTracker.getSummary()).to.eql({
+                sampleCount: 3,
+                startTime: 0,
+                endTime: 60000,
+                memory: {
+                    min: 1000 * 1024,
+                    max: 3000 * 1024,
+                    average: 2000 * 1024,
+                    bytesPerMinute: 2000 * 1024
+                },
+                cpu: {
+                    min: 10,
+                    max: 60,
+                    average: 30
+                }
+            });
+        });
+
+        it('only includes the samples within the window', () => {
+            processSamples([
+                [0, 5000, 90],
+                [60000, 1000, 10],
+                [70000, 1000, 30]
+            ]);
+            const summary = chanperfTracker.getSummary(10000);
+            expect(summary.sampleCount).to.equal(2);
+            expect(summary.memory.max).to.equal(1000 * 1024);
+            expect(summary.memory.bytesPerMinute).to.equal(0);
+            expect(summary.cpu.average).to.equal(20);
+        });
+
+        it('handles an empty history', () => {
+            const summary = chanperfTracker.getSummary();
+            expect(summary.sampleCount).to.equal(0);
+            expect(summary.memory).to.eql({ min: 0, max: 0, average: 0, bytesPerMinute: 0 });
+        });
+    });
 });
@@ -10,8 +10,15 @@ export class ChanperfTracker {
     private emitter: EventEmitter;
     private filterOutLogs: boolean;
     private history: Array<ChanperfData>;
+    private thresholds: ChanperfThresholds = {};
+
+    /**
+     * The thresholds that are currently exceeded. An alert is only emitted when a threshold is first crossed, and not again until the value drops back below it
+     */
+    private exceededThresholds = new Set<ChanperfAlert['type']>();
 
     public on(eventname: 'chanperf', handler: (output: ChanperfData) => void);
+    public on(eventname: 'chanperf-alert', handler: (alert: ChanperfAlert) => void);
     public on(eventName: string, handler: (payload: any) => void) {
         this.emitter.on(eventName, handler);
         return () => {
@@ -21,7 +28,9 @@ export class ChanperfTracker {
         };
     }
 
-    private emit(eventName: 'chanperf', data: ChanperfData) {
+    private emit(eventName: 'chanperf', data: ChanperfData);
+    private emit(eventName: 'chanperf-alert', data: ChanperfAlert);
+    private emit(eventName: string, data: any) {
         this.emitter.emit(eventName, data);
     }
 
@@ -37,14 +46,91 @@ export class ChanperfTracker {
         this.filterOutLogs = (outputLevel !== 'full');
     }
 
+    /**
+     * Set the memory and cpu limits that trigger a `chanperf-alert` event when a sample exceeds them
+     */
+    public setThresholds(thresholds: ChanperfThresholds) {
+        this.thresholds = thresholds ?? {};
+        this.exceededThresholds.clear();
+    }
+
     /**
      * Clears the current chanperf history
      */
     public clearHistory() {
         this.history = [];
+        this.exceededThresholds.clear();
         this.emit('chanperf', this.history[0]);
     }
 
+    /**
+     * Summarize the samples in the history (ignoring the ones with no data)
+     * @param windowMilliseconds only include the samples from this many milliseconds before the most recent sample. Includes the whole history if omitted
+     */
+    public getSummary(windowMilliseconds?: number): ChanperfSummary {
+        let samples = this.history.filter(x => !x.error);
+        if (windowMilliseconds > 0 && samples.length > 0) {
+            const startTime = samples[samples.length - 1].timestamp - windowMilliseconds;
+            samples = samples.filter(x => x.timestamp >= startTime);
+        }
+        const memory = samples.map(x => x.memory.total);
+        const cpu = samples.map(x => x.cpu.total);
+        return {
+            sampleCount: samples.length,
+            startTime: samples[0]?.timestamp,
+            endTime: samples[samples.length - 1]?.timestamp,
+            memory: {
+                ...this.getStatistics(memory),
+                bytesPerMinute: this.getSlope(samples.map(x => x.timestamp), memory) * 60000
+            },
+            cpu: this.getStatistics(cpu)
+        };
+    }
+
+    private getStatistics(values: number[]) {
+        return {
+            min: values.length > 0 ? Math.min(...values) : 0,
+            max: values.length > 0 ? Math.max(...values) : 0,
+            average: values.length > 0 ? values.reduce((sum, x) => sum + x, 0) / values.length : 0
+        };
+    }
+
+    /**
+     * Get the slope of the least-squares line through the given points. A steady positive memory slope over a long session usually means a leak
+     */
+    private getSlope(xValues: number[], yValues: number[]) {
+        if (xValues.length < 2) {
+            return 0;
+        }
+        const xAverage = this.getStatistics(xValues).average;
+        const yAverage = this.getStatistics(yValues).average;
+        let numerator = 0;
+        let denominator = 0;
+        for (let i = 0; i < xValues.length; i++) {
+            numerator += (xValues[i] - xAverage) * (yValues[i] - yAverage);
+            denominator += (xValues[i] - xAverage) ** 2;
+        }
+        return denominator === 0 ? 0 : numerator / denominator;
+    }
+
+    /**
+     * Emit an alert for every threshold this sample has newly exceeded
+     */
+    private checkThresholds(data: ChanperfData) {
+        const checks = [
+            { type: 'memory', value: data.memory.total, threshold: this.thresholds.memoryMiB * 1024 * 1024 },
+            { type: 'cpu', value: data.cpu.total, threshold: this.thresholds.cpuPercent }
+        ] as ChanperfAlert[];
+        for (const check of checks) {
+            if (!(check.threshold > 0) || check.value <= check.threshold) {
+                this.exceededThresholds.delete(check.type);
+            } else if (!this.exceededThresholds.has(check.type)) {
+                this.exceededThresholds.add(check.type);
+                this.emit('chanperf-alert', { ...check, data: data });
+            }
+        }
+    }
+
     /**
      * Takes the debug output from the device and parses it for any chanperf information.
      * Also if consoleOutput was not set to 'full' then any chanperf output will be filtered from the output.
@@ -83,6 +169,7 @@ export class ChanperfTracker {
                 }
                 this.emit('chanperf', chanperfEventData);
                 this.history.push(chanperfEventData);
+                this.checkThresholds(chanperfEventData);
             } else {
                 // see the following for an explanation for this regex: https://regex101.com/r/Nwqd5e/1/
                 let noInfoAvailableMatch = /channel:\s(mem\sand\scpu\sdata\snot\savailable)/gim.exec(line);
@@ -113,6 +200,7 @@ export class ChanperfTracker {
      */
     private createNewChanperfEventData(): ChanperfData {
         return {
+            timestamp: Date.now(),
             memory: {
                 total: 0,
                 anonymous: 0,
@@ -130,6 +218,10 @@ export class ChanperfTracker {
 }
 
 export interface ChanperfData {
+    /**
+     * When the sample was received, in milliseconds since the epoch
+     */
+    timestamp: number;
     error?: {
         message: string;
     };
@@ -147,3 +239,49 @@ export interface ChanperfData {
     };
 }
 
+export interface ChanperfThresholds {
+    /**
+     * Alert when the channel's total memory usage exceeds this many MiB
+     */
+    memoryMiB?: number;
+    /**
+     * Alert when the channel's total cpu usage exceeds this percentage
+     */
+    cpuPercent?: number;
+}
+
+export interface ChanperfAlert {
+    type: 'memory' | 'cpu';
+    /**
+     * The value that exceeded the threshold (bytes for memory, percent for cpu)
+     */
+    value: number;
+    /**
+     * The threshold that was exceeded (bytes for memory, percent for cpu)
+     */
+    threshold: number;
+    /**
+     * The sample that exceeded the threshold
+     */
+    data: ChanperfData;
+}
+
+export interface ChanperfSummary {
+    sampleCount: number;
+    startTime: number;
+    endTime: number;
+    memory: {
+        min: number;
+        max: number;
+        average: number;
+        /**
+         * How fast the total memory grew over the summarized samples (the slope of the least-squares line)
+         */
+        bytesPerMinute: number;
+    };
+    cpu: {
+        min: number;
+        max: number;
+        average: number;
+    };
+}
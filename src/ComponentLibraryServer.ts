@@ -1,3 +1,4 @@
+import { EventEmitter } from 'eventemitter3';
 import * as fs from 'fs';
 import * as http from 'http';
 import * as os from 'os';
@@ -12,6 +13,24 @@ export class ComponentLibraryServer {
 
     private server: http.Server;
 
+    private emitter = new EventEmitter();
+
+    private emit(eventName: 'download', data: { filePath: string });
+    private emit(eventName: string, data: any) {
+        this.emitter.emit(eventName, data);
+    }
+
+    /**
+     * Subscribe to an event
+     */
+    public on(eventName: 'download', handler: (data: { filePath: string }) => any);
+    public on(eventName: string, handler: (data: any) => any) {
+        this.emitter.on(eventName, handler);
+        return () => {
+            this.emitter.off(eventName, handler);
+        };
+    }
+
     public async startStaticFileHosting(componentLibrariesOutDir: string, port: number, sendDebugLogLine) {
 
         // Make sure the requested port is not already being used by another service
@@ -78,6 +97,8 @@ export class ComponentLibraryServer {
                         // if the file is found, set Content-type and send data
                         res.setHeader('Content-type', mimeType[ext] || 'text/plain');
                         res.end(data);
+                        //let listeners know whenever the device (re)downloads a component library
+                        this.emit('download', { filePath: pathname });
                     }
                 });
             });
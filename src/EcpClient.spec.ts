@@ -0,0 +1,135 @@
+import * as sinon from 'sinon';
+import { expect } from 'chai';
+import { EcpClient } from './EcpClient';
+
+describe('EcpClient', () => {
+    let client: EcpClient;
+    let doRequestStub: sinon.SinonStub;
+
+    beforeEach(() => {
+        client = new EcpClient('192.168.1.1');
+        doRequestStub = sinon.stub(client as any, 'doRequest').returns(Promise.resolve(''));
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    function respondWith(xml: string) {
+        doRequestStub.returns(Promise.resolve(xml));
+    }
+
+    describe('sends commands', () => {
+        it('keypress, keydown and keyup', async () => {
+            await client.keypress('Home');
+            await client.keydown('Lit_?');
+            await client.keyup('Right');
+            expect(doRequestStub.getCalls().map(x => x.args)).to.eql([
+                ['POST', '/keypress/Home'],
+                ['POST', '/keydown/Lit_%3F'],
+                ['POST', '/keyup/Right']
+            ]);
+        });
+
+        it('launch with deep link params', async () => {
+            await client.launch(undefined, { contentId: 'abc 123', mediaType: 'movie' });
+            expect(doRequestStub.getCall(0).args).to.eql(['POST', '/launch/dev?contentId=abc%20123&mediaType=movie']);
+        });
+
+        it('input', async () => {
+            await client.input({ contentId: '12' });
+            expect(doRequestStub.getCall(0).args).to.eql(['POST', '/input?contentId=12']);
+        });
+    });
+
+    describe('parses queries', () => {
+        it('device-info', async () => {
+            respondWith(`<?xml version="1.0" encoding="UTF-8" ?>
+                <device-info>
+                    <udn>28001240-0000-1000-8000-d8313413b8c2</udn>
+                    <serial-number>X00400ABCDEF</serial-number>
+                    <model-name>Roku Ultra</model-name>
+                    <friendly-device-name>Living Room &amp; Den</friendly-device-name>
+                    <software-version>11.5.0</software-version>
+                    <is-tv>false</is-tv>
+                    <developer-enabled>true</developer-enabled>
+                </device-info>
+            `);
+            expect(await client.getDeviceInfo()).to.eql({
+                udn: '28001240-0000-1000-8000-d8313413b8c2',
+                serialNumber: 'X00400ABCDEF',
+                modelName: 'Roku Ultra',
+                friendlyDeviceName: 'Living Room & Den',
+                softwareVersion: '11.5.0',
+                isTv: false,
+                developerEnabled: true
+            });
+            expect(doRequestStub.getCall(0).args).to.eql(['GET', '/query/device-info']);
+        });
+
+        it('active-app with a screensaver', async () => {
+            respondWith(`<?xml version="1.0" encoding="UTF-8" ?>
+                <active-app>
+                    <app id="dev" type="appl" version="1.0.1">My Channel</app>
+                    <screensaver id="55545" type="ssvr" version="2.0.1">Default screensaver</screensaver>
+                </active-app>
+            `);
+            expect(await client.getActiveApp()).to.eql({
+                app: { id: 'dev', name: 'My Channel', type: 'appl', version: '1.0.1' },
+                screensaver: { id: '55545', name: 'Default screensaver', type: 'ssvr', version: '2.0.1' }
+            });
+        });
+
+        it('active-app on the home screen', async () => {
+            respondWith(`<active-app><app>Roku</app></active-app>`);
+            expect(await client.getActiveApp()).to.eql({
+                app: { name: 'Roku' }
+            });
+        });
+
+        it('media-player', async () => {
+            respondWith(`<?xml version="1.0" encoding="UTF-8" ?>
+                <player error="false" state="play">
+                    <plugin bandwidth="5000000 bps" id="dev" name="My Channel"/>
+                    <format audio="aac_adts" captions="none" container="hls" drm="none" video="mpeg4_10b"/>
+                    <buffering current="1000" max="1000" target="0"/>
+                    <position>12345 ms</position>
+                    <duration>600000 ms</duration>
+                    <is_live>false</is_live>
+                </player>
+            `);
+            expect(await client.getMediaPlayer()).to.eql({
+                state: 'play',
+                error: false,
+                plugin: { id: 'dev', name: 'My Channel', bandwidth: '5000000 bps' },
+                format: { audio: 'aac_adts', captions: 'none', container: 'hls', drm: 'none', video: 'mpeg4_10b' },
+                position: 12345,
+                duration: 600000,
+                isLive: false
+            });
+        });
+
+        it('media-player with nothing playing', async () => {
+            respondWith(`<player error="false" state="close"/>`);
+            const player = await client.getMediaPlayer();
+            expect(player).to.include({ state: 'close', error: false });
+            expect(player.plugin).to.be.undefined;
+            expect(player.position).to.be.undefined;
+        });
+
+        it('apps', async () => {
+            respondWith(`<?xml version="1.0" encoding="UTF-8" ?>
+                <apps>
+                    <app id="tvinput.hdmi1" type="tvin" version="1.0.0">HDMI 1</app>
+                    <app id="12" type="appl" version="5.1.120">Netflix</app>
+                    <app id="dev" type="appl" version="1.0.1">My &quot;Dev&quot; Channel</app>
+                </apps>
+            `);
+            expect(await client.getInstalledApps()).to.eql([
+                { id: 'tvinput.hdmi1', name: 'HDMI 1', type: 'tvin', version: '1.0.0' },
+                { id: '12', name: 'Netflix', type: 'appl', version: '5.1.120' },
+                { id: 'dev', name: 'My "Dev" Channel', type: 'appl', version: '1.0.1' }
+            ]);
+        });
+    });
+});
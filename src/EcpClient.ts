@@ -0,0 +1,287 @@
+import * as request from 'request';
+import { logger } from './logging';
+
+/**
+ * A client for the External Control Protocol (ECP) that every Roku device serves on port 8060.
+ * It can press remote keys, launch (and deep link into) channels, and query the state of the device
+ */
+export class EcpClient {
+    constructor(
+        public host: string,
+        public port = 8060
+    ) {
+    }
+
+    /**
+     * The number of milliseconds to wait for the device to respond
+     */
+    public timeout = 5000;
+
+    private logger = logger.createLogger(`[${EcpClient.name}]`);
+
+    /**
+     * Press and release a key (i.e. `Home`, `Select`, `Down`, or `Lit_a` to type the letter `a`)
+     */
+    public async keypress(key: string) {
+        await this.post(`/keypress/${encodeURIComponent(key)}`);
+    }
+
+    /**
+     * Press a key and hold it down until `keyup` is sent
+     */
+    public async keydown(key: string) {
+        await this.post(`/keydown/${encodeURIComponent(key)}`);
+    }
+
+    /**
+     * Release a key that was pressed with `keydown`
+     */
+    public async keyup(key: string) {
+        await this.post(`/keyup/${encodeURIComponent(key)}`);
+    }
+
+    /**
+     * Launch a channel, passing the params to its `Main` as deep link arguments (i.e. `{ contentId: '1234', mediaType: 'movie' }`)
+     * @param appId the id of the channel. Defaults to `dev` (the sideloaded channel)
+     */
+    public async launch(appId = 'dev', params?: Record<string, string>) {
+        await this.post(`/launch/${encodeURIComponent(appId)}${this.getQueryString(params)}`);
+    }
+
+    /**
+     * Send the params to the channel that is already running (received through `roInput`)
+     */
+    public async input(params: Record<string, string>) {
+        await this.post(`/input${this.getQueryString(params)}`);
+    }
+
+    /**
+     * Get the model, firmware version, network and display information of the device
+     */
+    public async getDeviceInfo(): Promise<EcpDeviceInfo> {
+        const body = /<device-info>([\s\S]*)<\/device-info>/i.exec(await this.get('/query/device-info'))?.[1] ?? '';
+        const deviceInfo = {} as EcpDeviceInfo;
+        for (const match of this.getMatches(body, /<([\w-]+)>([^<]*)<\/\1>/g)) {
+            //convert kebab-case to camelCase (i.e. `software-version` to `softwareVersion`)
+            const key = match[1].replace(/-(\w)/g, (x, letter: string) => letter.toUpperCase());
+            const value = this.decode(match[2].trim());
+            deviceInfo[key] = value === 'true' || value === 'false' ? value === 'true' : value;
+        }
+        return deviceInfo;
+    }
+
+    /**
+     * Get the channel that is currently in the foreground (and the screensaver, if one is running)
+     */
+    public async getActiveApp(): Promise<EcpActiveApp> {
+        const xml = await this.get('/query/active-app');
+        const result: EcpActiveApp = {
+            app: this.getApps(xml, 'app')[0]
+        };
+        const screensaver = this.getApps(xml, 'screensaver')[0];
+        if (screensaver) {
+            result.screensaver = screensaver;
+        }
+        return result;
+    }
+
+    /**
+     * Get the state of the media player (i.e. whether a video is playing, and where it is)
+     */
+    public async getMediaPlayer(): Promise<EcpMediaPlayer> {
+        const xml = await this.get('/query/media-player');
+        const player = this.getElements(xml, 'player')[0];
+        const result: EcpMediaPlayer = {
+            state: player?.attributes.state,
+            error: player?.attributes.error === 'true'
+        };
+        const plugin = this.getElements(xml, 'plugin')[0];
+        if (plugin) {
+            result.plugin = {
+                id: plugin.attributes.id,
+                name: plugin.attributes.name,
+                bandwidth: plugin.attributes.bandwidth
+            };
+        }
+        const format = this.getElements(xml, 'format')[0];
+        if (format) {
+            result.format = format.attributes;
+        }
+        result.position = this.parseMilliseconds(this.getElements(xml, 'position')[0]?.text);
+        result.duration = this.parseMilliseconds(this.getElements(xml, 'duration')[0]?.text);
+        const isLive = this.getElements(xml, 'is_live')[0]?.text;
+        if (isLive) {
+            result.isLive = isLive === 'true';
+        }
+        return result;
+    }
+
+    /**
+     * Get every channel installed on the device
+     */
+    public async getInstalledApps(): Promise<EcpApp[]> {
+        return this.getApps(await this.get('/query/apps'), 'app');
+    }
+
+    private getApps(xml: string, tagName: string): EcpApp[] {
+        return this.getElements(xml, tagName).map(element => {
+            const app: EcpApp = {
+                id: element.attributes.id,
+                name: element.text,
+                type: element.attributes.type,
+                version: element.attributes.version
+            };
+            //the home screen (and some screensavers) have no id
+            for (const key of Object.keys(app)) {
+                if (app[key] === undefined) {
+                    delete app[key];
+                }
+            }
+            return app;
+        });
+    }
+
+    /**
+     * Find every element with the given tag name. ECP responses are small and flat, so they don't need a full xml parser
+     */
+    private getElements(xml: string, tagName: string) {
+        const results = [] as Array<{ attributes: Record<string, string>; text: string }>;
+        for (const match of this.getMatches(xml, new RegExp(`<${tagName}(\\s[^>]*?)?\\s*(?:\\/>|>([\\s\\S]*?)<\\/${tagName}>)`, 'g'))) {
+            const attributes = {} as Record<string, string>;
+            for (const attribute of this.getMatches(match[1] ?? '', /([\w-]+)\s*=\s*"([^"]*)"/g)) {
+                attributes[attribute[1]] = this.decode(attribute[2]);
+            }
+            results.push({
+                attributes: attributes,
+                text: this.decode(match[2]?.trim() ?? '')
+            });
+        }
+        return results;
+    }
+
+    /**
+     * Get every match of a global regex
+     */
+    private getMatches(text: string, regex: RegExp) {
+        const matches = [] as RegExpExecArray[];
+        let match: RegExpExecArray;
+        while ((match = regex.exec(text))) {
+            matches.push(match);
+        }
+        return matches;
+    }
+
+    private decode(text: string) {
+        return text
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, '\'')
+            .replace(/&amp;/g, '&');
+    }
+
+    /**
+     * Parse a duration like `12345 ms`
+     */
+    private parseMilliseconds(text: string) {
+        const match = /^(\d+)/.exec(text ?? '');
+        return match ? parseInt(match[1]) : undefined;
+    }
+
+    private getQueryString(params: Record<string, string>) {
+        const entries = Object.entries(params ?? {});
+        return entries.length > 0 ? '?' + entries.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&') : '';
+    }
+
+    private get(path: string) {
+        return this.doRequest('GET', path);
+    }
+
+    private post(path: string) {
+        return this.doRequest('POST', path);
+    }
+
+    private doRequest(method: 'GET' | 'POST', path: string) {
+        const url = `http://${this.host}:${this.port}${path}`;
+        this.logger.log(`Sending ECP request`, { method, url });
+        return new Promise<string>((resolve, reject) => {
+            request({ method: method, url: url, timeout: this.timeout }, (err, response) => {
+                if (err) {
+                    return reject(err);
+                } else if (response.statusCode < 200 || response.statusCode >= 300) {
+                    return reject(new Error(`ECP request '${method} ${path}' failed with status ${response.statusCode}`));
+                }
+                return resolve(response.body as string);
+            });
+        });
+    }
+}
+
+export interface EcpApp {
+    /**
+     * The id of the channel (`dev` for the sideloaded channel). The home screen has no id
+     */
+    id?: string;
+    name: string;
+    /**
+     * `appl` for channels, `ssvr` for screensavers, `menu` for the home screen, and `tvin` for tv inputs
+     */
+    type?: string;
+    version?: string;
+}
+
+export interface EcpActiveApp {
+    app: EcpApp;
+    /**
+     * The screensaver that is running on top of the app (if any)
+     */
+    screensaver?: EcpApp;
+}
+
+export interface EcpMediaPlayer {
+    /**
+     * `none`, `startup`, `buffer`, `play`, `pause`, `stop`, `close`, or `error`
+     */
+    state: string;
+    error: boolean;
+    /**
+     * The channel that owns the player
+     */
+    plugin?: {
+        id: string;
+        name: string;
+        bandwidth: string;
+    };
+    /**
+     * The format of the stream (`audio`, `video`, `captions`, `container`, `drm`, ...)
+     */
+    format?: Record<string, string>;
+    /**
+     * The playback position, in milliseconds
+     */
+    position?: number;
+    /**
+     * The length of the stream, in milliseconds
+     */
+    duration?: number;
+    isLive?: boolean;
+}
+
+/**
+ * The device info, with the keys converted to camelCase (i.e. `software-version` becomes `softwareVersion`).
+ * `true`/`false` values are converted to booleans, and everything else is left as a string
+ */
+export interface EcpDeviceInfo {
+    [key: string]: string | boolean;
+    udn?: string;
+    serialNumber?: string;
+    deviceId?: string;
+    vendorName?: string;
+    modelName?: string;
+    modelNumber?: string;
+    friendlyDeviceName?: string;
+    softwareVersion?: string;
+    softwareBuild?: string;
+    isTv?: boolean;
+    developerEnabled?: boolean;
+}
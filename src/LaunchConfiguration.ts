@@ -1,6 +1,7 @@
 import type { FileEntry } from 'roku-deploy';
 import type { DebugProtocol } from 'vscode-debugprotocol';
 import type { LogLevel } from './logging';
+import type { ChanperfThresholds } from './ChanperfTracker';
 
 /**
  * This interface should always match the schema found in the mock-debug extension manifest.
@@ -99,6 +100,26 @@ export interface LaunchConfiguration extends DebugProtocol.LaunchRequestArgument
      */
     enableDebugProtocol: boolean;
 
+    /**
+     * If specified (and `enableDebugProtocol` is enabled), all debug protocol traffic to and from the device is recorded to this file.
+     * The recording can be replayed with `DebugProtocolReplayer` to reproduce debug protocol issues without a device.
+     */
+    debugProtocolRecordingPath?: string;
+
+    /**
+     * The port of the device's debug protocol controller. Defaults to 8081.
+     * This is mostly useful for connecting to a `DebugProtocolSimulator` instead of a real device.
+     */
+    controllerPort?: number;
+
+    /**
+     * Memory and cpu limits for the chanperf data. A `ChanperfAlertEvent` is sent whenever a sample first exceeds one of them.
+     * Set `pauseDebugger` to also pause the channel when that happens, so the offending state can be inspected.
+     */
+    chanperfThresholds?: ChanperfThresholds & {
+        pauseDebugger?: boolean;
+    };
+
     /**
      * If true, will terminate the debug session if app exit is detected. This currently relies on 9.1+ launch beacon notifications, so will not work on a pre 9.1 device.
      */
@@ -141,6 +162,29 @@ export interface LaunchConfiguration extends DebugProtocol.LaunchRequestArgument
      */
     retainDeploymentArchive?: boolean;
 
+    /**
+     * If true, watch the main project's `.brs` and `.xml` files while debugging. Whenever one is saved, only the changed files are copied
+     * into the staging folder, the channel is republished and the breakpoints are re-applied (and `deepLinkUrl` is launched again if specified).
+     * Roku always replaces the whole channel when sideloading, so the package itself is still complete, but nothing else is re-staged.
+     * Component libraries are not watched.
+     * @default false
+     */
+    hotReload?: boolean;
+
+    /**
+     * How long (in milliseconds) to wait after a file change before hot reloading, so that several saves in a row only republish once
+     * @default 300
+     */
+    hotReloadDelay?: number;
+
+    /**
+     * If true, every breakpoint (including its condition, hit condition, log message and verified state) is saved to `breakpoints.json` in `outDir`
+     * whenever it changes, and the saved breakpoints are restored at the start of the next session. This lets a session that was started
+     * from the command line (or one whose editor crashed) pick up the same breakpoints. Breakpoints sent by the client take precedence over the saved ones.
+     * @default false
+     */
+    persistBreakpoints?: boolean;
+
     /**
      * If true, then any source maps found will be used to convert a debug location back to a source location
      */
@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { LeakDetector } from './LeakDetector';
+import type { LoadedTexturesData, SgNode, SgnodesData } from './SceneGraphDebugCommandController';
+
+describe('LeakDetector', () => {
+    let detector: LeakDetector;
+
+    beforeEach(() => {
+        detector = new LeakDetector();
+    });
+
+    function node(type: string, id = '', children: SgNode[] = []): SgNode {
+        return { key: 0, type: type, id: id, children: children };
+    }
+
+    function nodes(...roots: SgNode[]) {
+        return { nodes: roots } as SgnodesData;
+    }
+
+    function textures(...items: Array<[string, number]>) {
+        return {
+            textures: items.map(([name, bytes]) => ({ name: name, width: 10, height: 10, bytes: bytes }))
+        } as LoadedTexturesData;
+    }
+
+    it('counts the nodes and textures in a snapshot', () => {
+        const snapshot = detector.addSnapshot(undefined,
+            nodes(node('HomeScene', 'home', [node('ContentNode'), node('ContentNode', 'item')])),
+            textures(['pkg:/images/a.png', 100], ['pkg:/images/a.png', 100], ['pkg:/images/b.png', 50])
+        );
+        expect(snapshot).to.deep.include({
+            name: 'snapshot1',
+            nodeCount: 3,
+            nodeCountsByType: { HomeScene: 1, ContentNode: 2 },
+            nodeCountsById: { home: 1, item: 1 },
+            textureCount: 3,
+            textureBytes: 250,
+            textures: {
+                'pkg:/images/a.png': { count: 2, bytes: 200 },
+                'pkg:/images/b.png': { count: 1, bytes: 50 }
+            }
+        });
+    });
+
+    it('reports the nodes and textures that grew', () => {
+        detector.addSnapshot('before',
+            nodes(node('HomeScene', 'home', [node('ContentNode')])),
+            textures(['pkg:/images/a.png', 100])
+        );
+        detector.addSnapshot('after',
+            nodes(node('HomeScene', 'home', [node('ContentNode'), node('ContentNode'), node('Poster', 'poster'), node('Poster', 'poster')])),
+            textures(['pkg:/images/a.png', 100], ['http://example.com/poster.jpg', 500])
+        );
+
+        const report = detector.compare();
+        expect(report.baseline).to.equal('before');
+        expect(report.current).to.equal('after');
+        expect(report.nodes.total).to.eql({ key: 'total', baseline: 2, current: 5, difference: 3 });
+        expect(report.nodes.byType).to.eql([
+            { key: 'Poster', baseline: 0, current: 2, difference: 2 },
+            { key: 'ContentNode', baseline: 1, current: 2, difference: 1 }
+        ]);
+        expect(report.nodes.byId).to.eql([
+            { key: 'poster', baseline: 0, current: 2, difference: 2 }
+        ]);
+        expect(report.textures.totalBytes.difference).to.equal(500);
+        expect(report.textures.byName).to.eql([{
+            key: 'http://example.com/poster.jpg',
+            baseline: 0,
+            current: 1,
+            difference: 1,
+            bytes: { key: 'http://example.com/poster.jpg', baseline: 0, current: 500, difference: 500 }
+        }]);
+    });
+
+    it('compares the named snapshots', () => {
+        detector.addSnapshot('a', nodes(), textures());
+        detector.addSnapshot('b', nodes(node('Group')), textures());
+        detector.addSnapshot('c', nodes(node('Group'), node('Group')), textures());
+        expect(detector.compare('b', 'c').nodes.total.difference).to.equal(1);
+        expect(detector.compare('b').nodes.total.difference).to.equal(1);
+        expect(detector.compare(undefined, 'b').nodes.total.difference).to.equal(1);
+    });
+
+    it('replaces a snapshot with the same name', () => {
+        detector.addSnapshot('a', nodes(), textures());
+        detector.addSnapshot('a', nodes(node('Group')), textures());
+        expect(detector.getSnapshots().map(x => x.nodeCount)).to.eql([1]);
+    });
+
+    it('requires two snapshots', () => {
+        expect(() => detector.compare()).to.throw('Take at least two snapshots');
+        detector.addSnapshot('a', nodes(), textures());
+        expect(() => detector.compare()).to.throw('Take at least two snapshots');
+        detector.addSnapshot('b', nodes(), textures());
+        detector.clearSnapshots();
+        expect(() => detector.compare()).to.throw('Take at least two snapshots');
+    });
+});
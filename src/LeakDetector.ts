@@ -0,0 +1,167 @@
+import type { LoadedTexturesData, SgNode, SgnodesData } from './SceneGraphDebugCommandController';
+
+/**
+ * Finds SceneGraph nodes and textures that leak between two points in time.
+ * Take a snapshot, navigate into and back out of a screen, take another snapshot, and then compare them.
+ * Anything that grew (and stayed around) is a leak candidate.
+ */
+export class LeakDetector {
+    private snapshots = [] as LeakSnapshot[];
+
+    /**
+     * Get every snapshot, in the order they were taken
+     */
+    public getSnapshots() {
+        return this.snapshots;
+    }
+
+    /**
+     * Forget every snapshot
+     */
+    public clearSnapshots() {
+        this.snapshots = [];
+    }
+
+    /**
+     * Store a new snapshot of the node tree (from `sgnodes all`) and the loaded textures (from `loaded_textures`)
+     * @param name the name of the snapshot. Defaults to `snapshot<N>`. A snapshot with the same name is replaced
+     */
+    public addSnapshot(name: string, nodes: SgnodesData, textures: LoadedTexturesData): LeakSnapshot {
+        const snapshot: LeakSnapshot = {
+            name: name || `snapshot${this.snapshots.length + 1}`,
+            timestamp: Date.now(),
+            nodeCount: 0,
+            nodeCountsByType: {},
+            nodeCountsById: {},
+            textureCount: 0,
+            textureBytes: 0,
+            textures: {}
+        };
+        const addNodes = (children: SgNode[]) => {
+            for (const node of children) {
+                snapshot.nodeCount++;
+                snapshot.nodeCountsByType[node.type] = (snapshot.nodeCountsByType[node.type] ?? 0) + 1;
+                //nodes without an id can only be told apart by their type
+                if (node.id) {
+                    snapshot.nodeCountsById[node.id] = (snapshot.nodeCountsById[node.id] ?? 0) + 1;
+                }
+                addNodes(node.children);
+            }
+        };
+        addNodes(nodes?.nodes ?? []);
+
+        for (const texture of textures?.textures ?? []) {
+            //textures without a name (older firmware) can only be told apart by their size
+            const key = texture.name ?? `${texture.width}x${texture.height}`;
+            const entry = snapshot.textures[key] ?? (snapshot.textures[key] = { count: 0, bytes: 0 });
+            entry.count++;
+            entry.bytes += texture.bytes;
+            snapshot.textureCount++;
+            snapshot.textureBytes += texture.bytes;
+        }
+
+        this.snapshots = this.snapshots.filter(x => x.name !== snapshot.name);
+        this.snapshots.push(snapshot);
+        return snapshot;
+    }
+
+    /**
+     * Find everything that grew between two snapshots
+     * @param baselineName the name of the earlier snapshot. Defaults to the first snapshot
+     * @param currentName the name of the later snapshot. Defaults to the most recent snapshot
+     */
+    public compare(baselineName?: string, currentName?: string): LeakReport {
+        const baseline = this.getSnapshot(baselineName) ?? this.snapshots[0];
+        const current = this.getSnapshot(currentName) ?? this.snapshots[this.snapshots.length - 1];
+        if (!baseline || !current || baseline === current) {
+            throw new Error('Take at least two snapshots before comparing them');
+        }
+        const textureKeys = [...new Set([...Object.keys(baseline.textures), ...Object.keys(current.textures)])];
+        return {
+            baseline: baseline.name,
+            current: current.name,
+            nodes: {
+                total: this.getGrowth('total', baseline.nodeCount, current.nodeCount),
+                byType: this.getGrowthByKey(baseline.nodeCountsByType, current.nodeCountsByType),
+                byId: this.getGrowthByKey(baseline.nodeCountsById, current.nodeCountsById)
+            },
+            textures: {
+                total: this.getGrowth('total', baseline.textureCount, current.textureCount),
+                totalBytes: this.getGrowth('totalBytes', baseline.textureBytes, current.textureBytes),
+                byName: textureKeys.map(key => ({
+                    ...this.getGrowth(key, baseline.textures[key]?.count ?? 0, current.textures[key]?.count ?? 0),
+                    bytes: this.getGrowth(key, baseline.textures[key]?.bytes ?? 0, current.textures[key]?.bytes ?? 0)
+                })).filter(x => x.difference > 0 || x.bytes.difference > 0).sort((a, b) => b.bytes.difference - a.bytes.difference)
+            }
+        };
+    }
+
+    private getSnapshot(name: string) {
+        return this.snapshots.find(x => x.name === name);
+    }
+
+    private getGrowth(key: string, baseline: number, current: number): LeakGrowth {
+        return {
+            key: key,
+            baseline: baseline,
+            current: current,
+            difference: current - baseline
+        };
+    }
+
+    /**
+     * Get the entries that grew, largest growth first
+     */
+    private getGrowthByKey(baseline: Record<string, number>, current: Record<string, number>) {
+        return Object.keys(current)
+            .map(key => this.getGrowth(key, baseline[key] ?? 0, current[key]))
+            .filter(x => x.difference > 0)
+            .sort((a, b) => b.difference - a.difference);
+    }
+}
+
+export interface LeakSnapshot {
+    name: string;
+    timestamp: number;
+    nodeCount: number;
+    nodeCountsByType: Record<string, number>;
+    /**
+     * The number of nodes with each id (nodes without an id are not included)
+     */
+    nodeCountsById: Record<string, number>;
+    textureCount: number;
+    textureBytes: number;
+    /**
+     * The number of copies of each texture and the bytes they use, indexed by texture name
+     */
+    textures: Record<string, { count: number; bytes: number }>;
+}
+
+export interface LeakGrowth {
+    key: string;
+    baseline: number;
+    current: number;
+    difference: number;
+}
+
+export interface LeakReport {
+    baseline: string;
+    current: string;
+    nodes: {
+        total: LeakGrowth;
+        byType: LeakGrowth[];
+        byId: LeakGrowth[];
+    };
+    textures: {
+        total: LeakGrowth;
+        totalBytes: LeakGrowth;
+        /**
+         * The textures that grew, with the growth in copies and in bytes (largest growth in bytes first)
+         */
+        byName: Array<LeakGrowth & { bytes: LeakGrowth }>;
+    };
+    /**
+     * The file the report was written to (if requested)
+     */
+    filePath?: string;
+}
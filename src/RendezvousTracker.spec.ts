@@ -319,4 +319,64 @@ describe('BrightScriptFileUtils ', () => {
             rendezvousTrackerMock.verify();
         });
     });
+
+    describe('exportHistory', () => {
+        it('exports json that can be imported again', async () => {
+            await rendezvousTracker.processLog(logString);
+            const content = rendezvousTracker.exportHistory('json');
+            expect(JSON.parse(content)).to.eql(expectedHistory);
+            expect(rendezvousTracker.importHistory(content)).to.eql(expectedHistory);
+        });
+
+        it('exports csv with a row for every file and line', async () => {
+            await rendezvousTracker.processLog(
+                '[sg.node.BLOCK] Rendezvous[1] at pkg:/components/Tasks/UriFetcher/UriFetcher.brs(57)\n' +
+                '[sg.node.UNBLOCK] Rendezvous[1] completed in 0.008 s\n' +
+                '[sg.node.BLOCK] Rendezvous[2] at pkg:/components/Tasks/UriFetcher/UriFetcher.brs(57)\n' +
+                '[sg.node.UNBLOCK] Rendezvous[2] completed in 0.002 s\n'
+            );
+            expect(rendezvousTracker.exportHistory('csv')).to.eql([
+                'type,path,lineNumber,hitCount,totalTime',
+                'historyInfo,,,2,0.01',
+                'fileInfo,pkg:/components/Tasks/UriFetcher/UriFetcher.brs,,2,0.01',
+                'lineInfo,/components/Tasks/UriFetcher/UriFetcher.brs,57,2,0.01',
+                ''
+            ].join('\n'));
+        });
+    });
+
+    describe('importHistory', () => {
+        it('rejects content that is not an exported history', () => {
+            expect(() => rendezvousTracker.importHistory('not json')).to.throw(/Unable to parse rendezvous history/);
+            expect(() => rendezvousTracker.importHistory('{"hitCount": 1}')).to.throw(/not an exported rendezvous history/);
+        });
+    });
+
+    describe('compareHistory', () => {
+        it('requires an imported history', () => {
+            expect(() => rendezvousTracker.compareHistory()).to.throw(/Import a history first/);
+        });
+
+        it('compares the current history against the imported history', async () => {
+            const block = (id: number, line: number) => {
+                return `[sg.node.BLOCK] Rendezvous[${id}] at pkg:/components/Tasks/UriFetcher/UriFetcher.brs(${line})\n[sg.node.UNBLOCK] Rendezvous[${id}] completed in 0.5 s\n`;
+            };
+            await rendezvousTracker.processLog(block(1, 57) + block(2, 168));
+            rendezvousTracker.importHistory(rendezvousTracker.exportHistory());
+            rendezvousTracker.clearHistory();
+
+            await rendezvousTracker.processLog(block(3, 57) + block(4, 57) + block(5, 200));
+            const comparison = rendezvousTracker.compareHistory();
+            expect(comparison.hitCount).to.eql({ baseline: 2, current: 3, difference: 1 });
+            expect(comparison.totalTime).to.eql({ baseline: 1, current: 1.5, difference: 0.5 });
+            expect(comparison.files.map(x => [x.fileName, x.hitCount.difference])).to.eql([
+                ['pkg:/components/Tasks/UriFetcher/UriFetcher.brs', 1]
+            ]);
+            expect(comparison.files[0].lines.map(x => [x.clientLineNumber, x.hitCount.baseline, x.hitCount.current])).to.eql([
+                [57, 1, 2],
+                [168, 1, 0],
+                [200, 0, 1]
+            ]);
+        });
+    });
 });
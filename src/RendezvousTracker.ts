@@ -64,6 +64,113 @@ export class RendezvousTracker {
         this.emit('rendezvous', this.rendezvousHistory);
     }
 
+    /**
+     * A previously exported history that the current history is compared against
+     */
+    private baselineHistory: RendezvousHistory;
+
+    /**
+     * Serialize the current rendezvous history so it can be saved and compared against later runs.
+     * `json` exports the full history (which can be loaded again by `importHistory`), while `csv` exports one row per file and one row per line
+     */
+    public exportHistory(format: RendezvousExportFormat = 'json'): string {
+        if (format === 'csv') {
+            const rows = [
+                ['type', 'path', 'lineNumber', 'hitCount', 'totalTime'],
+                ['historyInfo', '', '', this.rendezvousHistory.hitCount, this.rendezvousHistory.totalTime]
+            ] as Array<Array<string | number>>;
+            for (const fileName in this.rendezvousHistory.occurrences) {
+                const fileInfo = this.rendezvousHistory.occurrences[fileName];
+                rows.push(['fileInfo', fileName, '', fileInfo.hitCount, fileInfo.totalTime]);
+                for (const lineInfo of Object.values(fileInfo.occurrences)) {
+                    rows.push(['lineInfo', lineInfo.clientPath, lineInfo.clientLineNumber, lineInfo.hitCount, lineInfo.totalTime]);
+                }
+            }
+            return rows.map(row => {
+                return row.map(value => {
+                    //quote any values that would break the csv format
+                    return /[",\r\n]/.test(`${value}`) ? `"${`${value}`.replace(/"/g, '""')}"` : `${value}`;
+                }).join(',');
+            }).join('\n') + '\n';
+        } else {
+            return JSON.stringify(this.rendezvousHistory, null, 4);
+        }
+    }
+
+    /**
+     * Load a history that was exported as json by `exportHistory`. It becomes the baseline that `compareHistory` compares the current history against
+     * @returns the imported history
+     */
+    public importHistory(content: string): RendezvousHistory {
+        let history: RendezvousHistory;
+        try {
+            history = JSON.parse(content);
+        } catch (e) {
+            throw new Error(`Unable to parse rendezvous history: ${(e as Error).message}`);
+        }
+        if (history?.type !== 'historyInfo' || typeof history.occurrences !== 'object') {
+            throw new Error('Unable to import rendezvous history: the content is not an exported rendezvous history');
+        }
+        this.baselineHistory = history;
+        return history;
+    }
+
+    /**
+     * Compare the current history against the imported baseline history, showing the change in hit count and total time for the whole history,
+     * and for every file and line found in either history
+     */
+    public compareHistory(): RendezvousComparison {
+        if (!this.baselineHistory) {
+            throw new Error('There is no rendezvous history to compare against. Import a history first');
+        }
+        const baseline = this.baselineHistory;
+        const current = this.rendezvousHistory;
+        const files = [] as RendezvousFileComparison[];
+        for (const fileName of this.getUniqueKeys(baseline.occurrences, current.occurrences)) {
+            const baselineFile = baseline.occurrences[fileName];
+            const currentFile = current.occurrences[fileName];
+            const lines = this.getUniqueKeys(baselineFile?.occurrences, currentFile?.occurrences).map(lineNumber => {
+                const baselineLine = baselineFile?.occurrences[lineNumber];
+                const currentLine = currentFile?.occurrences[lineNumber];
+                return {
+                    clientPath: currentLine?.clientPath ?? baselineLine?.clientPath,
+                    clientLineNumber: currentLine?.clientLineNumber ?? baselineLine?.clientLineNumber,
+                    hitCount: this.createDifference(baselineLine?.hitCount, currentLine?.hitCount),
+                    totalTime: this.createDifference(baselineLine?.totalTime, currentLine?.totalTime)
+                };
+            });
+            files.push({
+                fileName: fileName,
+                hitCount: this.createDifference(baselineFile?.hitCount, currentFile?.hitCount),
+                totalTime: this.createDifference(baselineFile?.totalTime, currentFile?.totalTime),
+                lines: lines
+            });
+        }
+        return {
+            hitCount: this.createDifference(baseline.hitCount, current.hitCount),
+            totalTime: this.createDifference(baseline.totalTime, current.totalTime),
+            files: files
+        };
+    }
+
+    private getUniqueKeys(...objects: Array<Record<string, any>>) {
+        const keys = new Set<string>();
+        for (const object of objects) {
+            for (const key of Object.keys(object ?? {})) {
+                keys.add(key);
+            }
+        }
+        return [...keys];
+    }
+
+    private createDifference(baseline = 0, current = 0): RendezvousDifference {
+        return {
+            baseline: baseline,
+            current: current,
+            difference: current - baseline
+        };
+    }
+
     /**
      * Takes the debug output from the device and parses it for any rendezvous information.
      * Also if consoleOutput was not set to 'full' then any rendezvous output will be filtered from the output.
@@ -268,6 +375,39 @@ interface RendezvousLineInfo {
     type: ElementType;
 }
 
+export type RendezvousExportFormat = 'json' | 'csv';
+
+export interface RendezvousComparison {
+    hitCount: RendezvousDifference;
+    totalTime: RendezvousDifference;
+    files: RendezvousFileComparison[];
+}
+
+export interface RendezvousFileComparison {
+    /**
+     * The file name reported by the device, which is how files are keyed in `RendezvousHistory.occurrences`
+     */
+    fileName: string;
+    hitCount: RendezvousDifference;
+    totalTime: RendezvousDifference;
+    lines: Array<{
+        clientPath: string;
+        clientLineNumber: number;
+        hitCount: RendezvousDifference;
+        totalTime: RendezvousDifference;
+    }>;
+}
+
+/**
+ * A value from the baseline history, the same value from the current history, and how much it changed.
+ * Files and lines that are missing from one of the histories count as zero
+ */
+export interface RendezvousDifference {
+    baseline: number;
+    current: number;
+    difference: number;
+}
+
 type RendezvousBlocks = Record<string, {
     fileName: string;
     lineNumber: string;
@@ -2,6 +2,9 @@ import * as sinon from 'sinon';
 import { expect } from 'chai';
 import { SceneGraphDebugCommandController } from './SceneGraphDebugCommandController';
 
+// eslint-disable-next-line
+const Telnet = require('telnet-client');
+
 describe('SceneGraphDebugCommandController ', () => {
     let commandController: SceneGraphDebugCommandController;
     let execStub: sinon.SinonStub;
@@ -231,4 +234,219 @@ describe('SceneGraphDebugCommandController ', () => {
             expect(execStub.withArgs('super secrete command').calledOnce).to.be.true;
         });
     });
+
+    describe('parses command output', () => {
+        function respondWith(lines: string[]) {
+            execStub.callsFake((command: string) => Promise.resolve({
+                command: command,
+                result: {
+                    rawResponse: lines.join('\r\n')
+                }
+            }));
+        }
+
+        it('sgnodes', async () => {
+            respondWith([
+                '<All_Nodes>',
+                '  <Node: roSGNode:HomeScene osref=2 bscref=1 id="homeScene">',
+                '    <Node: roSGNode:Rectangle osref=1 bscref=0 id="background" />',
+                '    <Node: roSGNode:Group osref=1 bscref=1 id="">',
+                '      <Node: roSGNode:Rectangle osref=1 bscref=0 id="" />',
+                '    </Node>',
+                '  </Node>',
+                '  <Node: roSGNode:Timer osref=1 bscref=1 id="timer" />',
+                '</All_Nodes>'
+            ]);
+            const { data } = (await commandController.sgnodes('all')).result;
+            expect(data).to.include({
+                nodeCount: 5,
+                osrefCount: 6,
+                bscrefCount: 3
+            });
+            expect(data.nodeCountsByType).to.eql({
+                HomeScene: 1,
+                Rectangle: 2,
+                Group: 1,
+                Timer: 1
+            });
+            expect(data.nodes.map(x => x.id)).to.eql(['homeScene', 'timer']);
+            expect(data.nodes[0].children.map(x => x.type)).to.eql(['Rectangle', 'Group']);
+            expect(data.nodes[0].children[1].children[0]).to.eql({
+                key: 3,
+                parentKey: 2,
+                type: 'Rectangle',
+                id: '',
+                osref: 1,
+                bscref: 0,
+                children: []
+            });
+        });
+
+        it('loaded_textures', async () => {
+            respondWith([
+                '* Loaded textures:',
+                '0x7f12a0: 1280 x 720 x 32bpp  3686400 bytes  pkg:/images/background.png',
+                'w=100 h=50 bpp=32 size=20000 name=pkg:/images/logo.png'
+            ]);
+            const { data } = (await commandController.loadedTextures()).result;
+            expect(data).to.eql({
+                textures: [
+                    { name: 'pkg:/images/background.png', width: 1280, height: 720, bpp: 32, bytes: 3686400 },
+                    { name: 'pkg:/images/logo.png', width: 100, height: 50, bpp: 32, bytes: 20000 }
+                ],
+                totalBytes: 3706400
+            });
+        });
+
+        it('r2d2_bitmaps', async () => {
+            respondWith([
+                'RoGraphics instance 0x7f12a0',
+                'Available memory 156065536 used 3706400 max 159771936',
+                '0x7f12a8: 1280 x 720 x 32bpp  3686400 bytes  pkg:/images/background.png',
+                '0x7f12b0: 100 x 50 x 32bpp  20000 bytes'
+            ]);
+            const { data } = (await commandController.r2d2Bitmaps()).result;
+            expect(data).to.include({
+                bitmapCount: 2,
+                totalBytes: 3706400,
+                availableMemory: 156065536,
+                usedMemory: 3706400,
+                maxMemory: 159771936
+            });
+            expect(data.bitmaps[1].name).to.be.undefined;
+        });
+
+        it('sgperf report', async () => {
+            respondWith([
+                'thread node calls: create     0 + op    24  @  0.0% rendezvous',
+                'thread 0x2b4f node calls: create    35 + op  3213  @ 10.5% rendezvous'
+            ]);
+            const { data } = (await commandController.sgperf('report')).result;
+            expect(data.threads).to.eql([
+                { thread: '0', createCount: 0, opCount: 24, rendezvousPercent: 0 },
+                { thread: '0x2b4f', createCount: 35, opCount: 3213, rendezvousPercent: 10.5 }
+            ]);
+        });
+
+        it('does not parse the other sgperf actions', async () => {
+            respondWith(['thread node calls: create     0 + op    24  @  0.0% rendezvous']);
+            expect((await commandController.sgperf('start')).result.data).to.be.undefined;
+        });
+
+        it('plugins', async () => {
+            respondWith([
+                `dev 'My Channel' 1.0.5`,
+                `12 "Netflix" 4.1.218`
+            ]);
+            const { data } = (await commandController.plugins()).result;
+            expect(data.plugins).to.eql([
+                { id: 'dev', name: 'My Channel', version: '1.0.5' },
+                { id: '12', name: 'Netflix', version: '4.1.218' }
+            ]);
+        });
+
+        it('free', async () => {
+            respondWith([
+                '             total       used       free     shared    buffers',
+                'Mem:        500000     300000     200000          0      10000',
+                '-/+ buffers:            290000     210000',
+                'Swap:            0          0          0'
+            ]);
+            const { data } = (await commandController.free()).result;
+            expect(data).to.eql({
+                'mem': { total: 500000, used: 300000, free: 200000, shared: 0, buffers: 10000 },
+                '-/+ buffers': { used: 290000, free: 210000 },
+                'swap': { total: 0, used: 0, free: 0 }
+            });
+        });
+    });
+
+    describe('command queue', () => {
+        let connections: Array<{ exec: sinon.SinonStub; destroy: sinon.SinonStub }>;
+        let connectStub: sinon.SinonStub;
+
+        beforeEach(() => {
+            execStub.restore();
+            commandController['connection'] = undefined;
+            connections = [];
+            connectStub = sinon.stub(commandController as any, 'connectNow').callsFake(() => {
+                const connection = {
+                    exec: sinon.stub().callsFake((command: string) => Promise.resolve(`${command} done`)),
+                    destroy: sinon.stub().returns(Promise.resolve())
+                };
+                connections.push(connection);
+                commandController['connection'] = connection as any;
+                return Promise.resolve();
+            });
+        });
+
+        afterEach(() => {
+            connectStub.restore();
+        });
+
+        it('does not start a command until the previous one has finished', async () => {
+            commandController.keepAlive = true;
+            let finishFirst: (value: string) => void;
+            const started = [] as string[];
+            sinon.stub(commandController as any, 'execNow').callsFake((command: string) => {
+                started.push(command);
+                return command === 'first' ? new Promise(resolve => {
+                    finishFirst = resolve;
+                }) : Promise.resolve(command);
+            });
+            const first = commandController.exec('first');
+            const second = commandController.exec('second');
+            await new Promise((resolve) => {
+                setTimeout(resolve, 1);
+            });
+            expect(started).to.eql(['first']);
+            finishFirst('first');
+            expect(await first).to.equal('first');
+            expect(await second).to.equal('second');
+            expect(started).to.eql(['first', 'second']);
+        });
+
+        it('keeps the connection open between commands when keepAlive is enabled', async () => {
+            commandController.keepAlive = true;
+            await commandController.exec('free');
+            await commandController.exec('sgnodes roots');
+            expect(connections).to.have.lengthOf(1);
+            expect(connections[0].exec.getCalls().map(x => x.args[0])).to.eql(['free', 'sgnodes roots']);
+        });
+
+        it('reconnects and retries once when a kept-alive connection has dropped', async () => {
+            commandController.keepAlive = true;
+            await commandController.exec('free');
+            connections[0].exec.returns(Promise.reject(new Error('socket closed')));
+            const response = await commandController.exec('free');
+            expect(connections).to.have.lengthOf(2);
+            expect(connections[0].destroy.called).to.be.true;
+            expect(response.error).to.be.undefined;
+            expect(response.result.rawResponse).to.equal('free done');
+        });
+
+        it('closes short lived connections after each command', async () => {
+            const endStub = sinon.stub(commandController as any, 'endNow').callsFake(() => {
+                commandController['removeConnection']();
+                return Promise.resolve();
+            });
+            await commandController.exec('free');
+            await commandController.exec('free');
+            expect(connections).to.have.lengthOf(2);
+            expect(endStub.callCount).to.equal(2);
+        });
+
+        it('emits output sent by the device between commands', async () => {
+            connectStub.restore();
+            const telnetConnectStub = sinon.stub(Telnet.prototype, 'connect').returns(Promise.resolve());
+            const outputs = [] as string[];
+            commandController.on('output', (output) => {
+                outputs.push(output);
+            });
+            await commandController.connect();
+            commandController['connection'].emit('data', Buffer.from('mem=1234'));
+            telnetConnectStub.restore();
+            expect(outputs).to.eql(['mem=1234']);
+        });
+    });
 });
@@ -1,3 +1,4 @@
+import { EventEmitter } from 'eventemitter3';
 import { logger } from './logging';
 
 // eslint-disable-next-line
@@ -18,7 +19,49 @@ export class SceneGraphDebugCommandController {
 
     private logger = logger.createLogger(`[${SceneGraphDebugCommandController.name}]`);
 
+    /**
+     * If true, the connection stays open between commands (and is re-opened whenever it drops), rather than being opened and closed for every command
+     */
+    public keepAlive = false;
+
+    /**
+     * The device only handles one command at a time on port 8080, so every command (and every connect/disconnect) waits for the ones before it
+     */
+    private queue = Promise.resolve() as Promise<any>;
+
+    private emitter = new EventEmitter();
+
+    /**
+     * Subscribe to an event. `output` is emitted for anything the device sends between commands (i.e. the output of a repeating command)
+     */
+    public on(eventName: 'output', handler: (output: string) => any);
+    public on(eventName: string, handler: (data: any) => any) {
+        this.emitter.on(eventName, handler);
+        return () => {
+            this.emitter.off(eventName, handler);
+        };
+    }
+
+    private emit(eventName: 'output', data: string);
+    private emit(eventName: string, data: any) {
+        this.emitter.emit(eventName, data);
+    }
+
+    /**
+     * Run an action once every action queued before it has finished
+     */
+    private enqueue<T>(action: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(action);
+        //keep the queue moving even if this action fails
+        this.queue = result.catch(() => { });
+        return result;
+    }
+
     public async connect(options: { execTimeout?: number; timeout?: number } = {}) {
+        return this.enqueue(() => this.connectNow(options));
+    }
+
+    private async connectNow(options: { execTimeout?: number; timeout?: number } = {}) {
         this.removeConnection();
 
         try {
@@ -26,7 +69,14 @@ export class SceneGraphDebugCommandController {
             let connection = new Telnet();
 
             connection.on('close', () => {
-                this.removeConnection();
+                //an old connection closing must not remove a newer one
+                if (this.connection === connection) {
+                    this.removeConnection();
+                }
+            });
+            //the device only sends data between commands for things like repeating commands
+            connection.on('data', (data: Buffer) => {
+                this.emit('output', data.toString());
             });
             const config = {
                 host: this.host,
@@ -105,8 +155,12 @@ export class SceneGraphDebugCommandController {
     /**
      * Provides a snapshot of the amount of in-use and free memory on the device.
      */
-    public async free(): Promise<SceneGraphCommandResponse> {
-        return this.exec('free');
+    public async free(): Promise<SceneGraphCommandResponse<undefined, FreeData>> {
+        let response = await this.exec('free');
+        if (!response.error) {
+            response.result.data = this.parseFree(response.result.rawResponse);
+        }
+        return response;
     }
 
     /**
@@ -120,8 +174,16 @@ export class SceneGraphDebugCommandController {
     /**
      * Displays the current set of images loaded into texture memory.
      */
-    public async loadedTextures(): Promise<SceneGraphCommandResponse> {
-        return this.exec('loaded_textures');
+    public async loadedTextures(): Promise<SceneGraphCommandResponse<undefined, LoadedTexturesData>> {
+        let response = await this.exec('loaded_textures');
+        if (!response.error) {
+            const textures = this.parseTextures(response.result.rawResponse);
+            response.result.data = {
+                textures: textures,
+                totalBytes: this.sumBytes(textures)
+            };
+        }
+        return response;
     }
 
     /**
@@ -141,8 +203,12 @@ export class SceneGraphDebugCommandController {
     /**
      * Show list of all installed plugins.
      */
-    public async plugins(): Promise<SceneGraphCommandResponse> {
-        return this.exec('plugins');
+    public async plugins(): Promise<SceneGraphCommandResponse<undefined, PluginsData>> {
+        let response = await this.exec('plugins');
+        if (!response.error) {
+            response.result.data = this.parsePlugins(response.result.rawResponse);
+        }
+        return response;
     }
 
     /**
@@ -159,8 +225,12 @@ export class SceneGraphDebugCommandController {
      * Prints a list of assets loaded into texture memory and the amount of free, used, and maximum available memory on your device, respectively.
      * Starting with Roku OS 9.3, the name of each bitmap is included.
      */
-    public async r2d2Bitmaps(): Promise<SceneGraphCommandResponse> {
-        return this.exec('r2d2_bitmaps');
+    public async r2d2Bitmaps(): Promise<SceneGraphCommandResponse<undefined, R2d2BitmapsData>> {
+        let response = await this.exec('r2d2_bitmaps');
+        if (!response.error) {
+            response.result.data = this.parseR2d2Bitmaps(response.result.rawResponse);
+        }
+        return response;
     }
 
 
@@ -195,8 +265,12 @@ export class SceneGraphDebugCommandController {
      *
      * @param {string} id This can be 'all', 'roots', or the id of node(s) in your channel.
      */
-    public async sgnodes(id: string): Promise<SceneGraphCommandResponse> {
-        return this.exec(`sgnodes ${id}`);
+    public async sgnodes(id: string): Promise<SceneGraphCommandResponse<undefined, SgnodesData>> {
+        let response = await this.exec(`sgnodes ${id}`);
+        if (!response.error) {
+            response.result.data = this.parseSgnodes(response.result.rawResponse);
+        }
+        return response;
     }
 
 
@@ -204,8 +278,12 @@ export class SceneGraphDebugCommandController {
      * Provides basic node operation performance metrics. This command tracks all node operations by a thread, whether it's being created or an operation on an existing node, and whether it involves a rendezvous.
      * @param {('start'|'clear'|'report'|'stop')} action start - enables counting, clear - resets counters to zero, report - prints current counts with rendezvous as a percentage, stop - disables counting.
      */
-    public async sgperf(action: 'start' | 'clear' | 'report' | 'stop'): Promise<SceneGraphCommandResponse> {
-        return this.exec(`sgperf ${action}`);
+    public async sgperf(action: 'start' | 'clear' | 'report' | 'stop'): Promise<SceneGraphCommandResponse<undefined, SgperfData>> {
+        let response = await this.exec(`sgperf ${action}`);
+        if (!response.error && action === 'report') {
+            response.result.data = this.parseSgperf(response.result.rawResponse);
+        }
+        return response;
     }
 
     /**
@@ -242,15 +320,21 @@ export class SceneGraphDebugCommandController {
      * @param {string} command command to be run.
      */
     public async exec(command: string, options: { execTimeout?: number; timeout?: number } = {}): Promise<SceneGraphCommandResponse> {
+        return this.enqueue(() => this.execNow(command, options));
+    }
+
+    private async execNow(command: string, options: { execTimeout?: number; timeout?: number }): Promise<SceneGraphCommandResponse> {
         let response = this.getBlankResponseObject(command);
         this.logger.log(`Running SceneGraphDebugger command`, { command });
 
         // Set up a short lived connection if a long lived one has not beed started
-        let closeConnectionAfterCommand = !this.connection;
-        if (closeConnectionAfterCommand) {
+        let closeConnectionAfterCommand = !this.connection && !this.keepAlive;
+        //a kept-alive connection may have dropped since the last command, so it gets one retry on a fresh connection
+        let canRetry = this.keepAlive && !!this.connection;
+        if (!this.connection) {
             this.logger.trace('Opening new connection');
             try {
-                await this.connect(options);
+                await this.connectNow(options);
             } catch (error) {
                 response.error = error;
             }
@@ -262,6 +346,11 @@ export class SceneGraphDebugCommandController {
                 response.result.rawResponse = await this.connection.exec(command, options);
                 this.logger.debug('Command complete', { command });
             } catch (error) {
+                if (canRetry) {
+                    this.logger.debug('Command failed, reconnecting', { command, error });
+                    await this.destroyConnection();
+                    return this.execNow(command, options);
+                }
                 response.error = error;
             }
         }
@@ -269,18 +358,33 @@ export class SceneGraphDebugCommandController {
         // Close the connection if we opened a short lived one
         if (closeConnectionAfterCommand) {
             this.logger.trace('Closing connection');
-            await this.end();
+            await this.endNow();
         }
 
         // Tada! Results.
         return response;
     }
 
+    private async destroyConnection() {
+        const connection = this.connection;
+        this.removeConnection();
+        try {
+            await connection?.destroy();
+        } catch (error) {
+            this.logger.debug('Error destroying the connection', error);
+        }
+    }
+
 
     /**
-     * Closes the socket connection to the device
+     * Closes the socket connection to the device (once every queued command has finished)
      */
     public async end() {
+        this.keepAlive = false;
+        return this.enqueue(() => this.endNow());
+    }
+
+    private async endNow() {
         if (this.connection) {
             this.connection.removeListener('close', this.removeConnection);
             try {
@@ -299,6 +403,169 @@ export class SceneGraphDebugCommandController {
     }
 
 
+    /**
+     * Parse the output of `sgnodes` into a node tree. Each node is printed as a tag (i.e. `<Rectangle: roSGNode:Rectangle osref=1 bscref=0 id="bg">`),
+     * and child nodes are printed between their parent's opening and closing tags
+     */
+    private parseSgnodes(text: string): SgnodesData {
+        const result: SgnodesData = {
+            nodes: [],
+            nodeCount: 0,
+            nodeCountsByType: {},
+            osrefCount: 0,
+            bscrefCount: 0
+        };
+        const parents = [] as SgNode[];
+        for (const line of (text ?? '').split(/\r?\n/)) {
+            const trimmed = line.trim();
+            if (trimmed.startsWith('</')) {
+                parents.pop();
+                continue;
+            }
+            const match = /^<([\w.]+)(.*?)(\/?)>$/.exec(trimmed);
+            //skip the wrapper tags (i.e. `<All_Nodes>`), which are not nodes
+            if (!match || (!match[2].includes('roSGNode') && /_Nodes$/i.test(match[1]))) {
+                continue;
+            }
+            const attributes = match[2];
+            const parent = parents[parents.length - 1];
+            const node: SgNode = {
+                key: result.nodeCount,
+                parentKey: parent?.key,
+                type: /roSGNode:([\w.]+)/i.exec(attributes)?.[1] ?? match[1],
+                id: /\b(?:id|name)="([^"]*)"/i.exec(attributes)?.[1] ?? '',
+                osref: this.parseCount(/\bosref\s*[=:]\s*(\d+)/i.exec(attributes)?.[1]),
+                bscref: this.parseCount(/\bbscref\s*[=:]\s*(\d+)/i.exec(attributes)?.[1]),
+                children: []
+            };
+            (parent?.children ?? result.nodes).push(node);
+
+            result.nodeCount++;
+            result.nodeCountsByType[node.type] = (result.nodeCountsByType[node.type] ?? 0) + 1;
+            result.osrefCount += node.osref ?? 0;
+            result.bscrefCount += node.bscref ?? 0;
+
+            //nodes that are not self-closing contain their children
+            if (!match[3]) {
+                parents.push(node);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Parse every line of `loaded_textures` or `r2d2_bitmaps` output that describes an image.
+     * Lines look like `1280 x 720 x 32bpp  3686400 bytes  pkg:/images/bg.png` or `w=1280 h=720 bpp=32 size=3686400 name=pkg:/images/bg.png`
+     */
+    private parseTextures(text: string): TextureInfo[] {
+        const result = [] as TextureInfo[];
+        for (const line of (text ?? '').split(/\r?\n/)) {
+            //hex addresses (i.e. `0x7f12`) start with a zero, so they are never mistaken for the dimensions
+            const dimensions = /\b([1-9]\d*)\s*x\s*(\d+)\b/i.exec(line) ?? /\bw=(\d+)\s+h=(\d+)/i.exec(line);
+            const bytes = /(\d+)\s*bytes/i.exec(line) ?? /\bsize=(\d+)/i.exec(line);
+            if (!dimensions || !bytes) {
+                continue;
+            }
+            const name = /\bname[=:]\s*(\S+)/i.exec(line) ?? /((?:pkg|tmp|cachefs|common|https?):\/\S+)/i.exec(line);
+            result.push({
+                name: name?.[1],
+                width: parseInt(dimensions[1]),
+                height: parseInt(dimensions[2]),
+                bpp: this.parseCount(/\bbpp=(\d+)/i.exec(line)?.[1] ?? /(\d+)\s*bpp/i.exec(line)?.[1]),
+                bytes: parseInt(bytes[1])
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Parse the output of `r2d2_bitmaps`, which lists every bitmap followed by the texture memory totals (i.e. `Available memory 1000 used 500 max 1500`)
+     */
+    private parseR2d2Bitmaps(text: string): R2d2BitmapsData {
+        const bitmaps = this.parseTextures(text);
+        const memory = /available memory\s+(\d+)\s+used\s+(\d+)\s+max\s+(\d+)/i.exec(text ?? '');
+        return {
+            bitmaps: bitmaps,
+            bitmapCount: bitmaps.length,
+            totalBytes: this.sumBytes(bitmaps),
+            availableMemory: this.parseCount(memory?.[1]),
+            usedMemory: this.parseCount(memory?.[2]),
+            maxMemory: this.parseCount(memory?.[3])
+        };
+    }
+
+    /**
+     * Parse the output of `sgperf report`, which has one line per thread (i.e. `thread 0x1234 node calls: create     1 + op    45  @ 10.5% rendezvous`)
+     */
+    private parseSgperf(text: string): SgperfData {
+        const threads = [] as SgperfThread[];
+        for (const line of (text ?? '').split(/\r?\n/)) {
+            const match = /thread\s*(.*?)\s*node calls:\s*create\s+(\d+)\s*\+\s*op\s+(\d+)\s*@\s*([\d.]+)%\s*rendezvous/i.exec(line);
+            if (match) {
+                threads.push({
+                    //older firmware doesn't print the thread name, so fall back to the order the threads were printed in
+                    thread: match[1] || threads.length.toString(),
+                    createCount: parseInt(match[2]),
+                    opCount: parseInt(match[3]),
+                    rendezvousPercent: parseFloat(match[4])
+                });
+            }
+        }
+        return { threads: threads };
+    }
+
+    /**
+     * Parse the output of `plugins`, where each line is a channel id followed by its quoted name and version (i.e. `dev 'My Channel' 1.0.5`)
+     */
+    private parsePlugins(text: string): PluginsData {
+        const plugins = [] as PluginInfo[];
+        for (const line of (text ?? '').split(/\r?\n/)) {
+            const match = /^\s*(\S+)\s+(?:"([^"]*)"|'([^']*)')\s*(\S+)?/.exec(line);
+            if (match) {
+                plugins.push({
+                    id: match[1],
+                    name: match[2] ?? match[3],
+                    version: match[4]
+                });
+            }
+        }
+        return { plugins: plugins };
+    }
+
+    /**
+     * Parse the output of `free`, which is a table with a header row of column names (`total`, `used`, `free`, ...) and one row per memory type (i.e. `Mem:`, `Swap:`)
+     */
+    private parseFree(text: string): FreeData {
+        const result: FreeData = {};
+        let columns = [] as string[];
+        for (const line of (text ?? '').split(/\r?\n/)) {
+            const match = /^\s*([^:]+):\s+([\d\s]+)$/.exec(line);
+            if (!match) {
+                if (/\btotal\b/i.test(line)) {
+                    columns = line.trim().toLowerCase().split(/\s+/);
+                }
+                continue;
+            }
+            const values = match[2].trim().split(/\s+/).map(x => parseInt(x));
+            //the `-/+ buffers/cache` row only has the `used` and `free` columns
+            const startIndex = match[1].startsWith('-/+') ? Math.max(columns.indexOf('used'), 0) : 0;
+            const row = {} as Record<string, number>;
+            for (let i = 0; i < values.length; i++) {
+                row[columns[startIndex + i] ?? `column${startIndex + i}`] = values[i];
+            }
+            result[match[1].trim().toLowerCase()] = row;
+        }
+        return result;
+    }
+
+    private parseCount(value: string) {
+        return value === undefined ? undefined : parseInt(value);
+    }
+
+    private sumBytes(textures: TextureInfo[]) {
+        return textures.reduce((total, texture) => total + texture.bytes, 0);
+    }
+
     /**
      * Returns a simple starting object used for responses
      * @private
@@ -313,15 +580,116 @@ export class SceneGraphDebugCommandController {
     }
 }
 
-export interface SceneGraphCommandResponse<T = undefined> {
+export interface SceneGraphCommandResponse<T = undefined, TData = any> {
     command: string;
     error?: SceneGraphCommandError<T>;
     result: {
         rawResponse: string;
-        data?: any;
+        data?: TData;
     };
 }
 
+export interface SgnodesData {
+    /**
+     * The top-level nodes, with their children nested inside them
+     */
+    nodes: SgNode[];
+    /**
+     * The total number of nodes (including the nested ones)
+     */
+    nodeCount: number;
+    nodeCountsByType: Record<string, number>;
+    osrefCount: number;
+    bscrefCount: number;
+}
+
+/**
+ * A snapshot of the live SceneGraph node hierarchy (see `sgnodes`)
+ */
+export interface SceneGraphNodeTree extends SgnodesData {
+    /**
+     * The argument passed to `sgnodes` (`all`, `roots`, or a node id)
+     */
+    filter: string;
+    /**
+     * When the snapshot was taken (in milliseconds since the epoch)
+     */
+    timestamp: number;
+}
+
+export interface SgNode {
+    /**
+     * A number that uniquely identifies this node within the output (nodes are numbered in the order they were printed)
+     */
+    key: number;
+    /**
+     * The key of the parent node, or undefined for top-level nodes
+     */
+    parentKey?: number;
+    type: string;
+    id: string;
+    /**
+     * The number of references held by the Roku platform (only printed by Roku OS 10.0 and later)
+     */
+    osref?: number;
+    /**
+     * The number of references held by the channel (only printed by Roku OS 10.0 and later)
+     */
+    bscref?: number;
+    children: SgNode[];
+}
+
+export interface TextureInfo {
+    /**
+     * The uri of the image (only printed by Roku OS 9.3 and later)
+     */
+    name?: string;
+    width: number;
+    height: number;
+    bpp?: number;
+    bytes: number;
+}
+
+export interface LoadedTexturesData {
+    textures: TextureInfo[];
+    totalBytes: number;
+}
+
+export interface R2d2BitmapsData {
+    bitmaps: TextureInfo[];
+    bitmapCount: number;
+    totalBytes: number;
+    availableMemory?: number;
+    usedMemory?: number;
+    maxMemory?: number;
+}
+
+export interface SgperfData {
+    threads: SgperfThread[];
+}
+
+export interface SgperfThread {
+    thread: string;
+    createCount: number;
+    opCount: number;
+    rendezvousPercent: number;
+}
+
+export interface PluginsData {
+    plugins: PluginInfo[];
+}
+
+export interface PluginInfo {
+    id: string;
+    name: string;
+    version?: string;
+}
+
+/**
+ * The rows of the `free` table (i.e. `mem`, `swap`), each with a value for every column (i.e. `total`, `used`, `free`)
+ */
+export type FreeData = Record<string, Record<string, number>>;
+
 interface SceneGraphCommandError<T = undefined> {
     message: string;
     type: 'socket' | 'device';
@@ -73,4 +73,72 @@ describe('DebugProtocolAdapter', () => {
         });
 
     });
+
+    describe('syncBreakpoints', () => {
+        it('marks the accepted component library breakpoints as pending', async () => {
+            const breakpointManager = {
+                getDiff: () => Promise.resolve({
+                    added: [
+                        { hash: 'main', pkgPath: 'pkg:/source/main.brs', line: 2 },
+                        { hash: 'lib', pkgPath: 'pkg:/source/main__lib0.brs', line: 3, componentLibraryName: 'lib1' }
+                    ],
+                    removed: [],
+                    unchanged: []
+                }),
+                getDeviceIgnoreCount: () => undefined,
+                setBreakpointDeviceId: sinon.stub(),
+                setBreakpointPending: sinon.stub()
+            };
+            adapter = new DebugProtocolAdapter({ host: '127.0.0.1' }, { getAllProjects: () => [] } as any, breakpointManager as any);
+            adapter['socketDebugger'] = socketDebugger;
+            sinon.stub(socketDebugger, 'isStopped').get(() => true);
+            sinon.stub(socketDebugger, 'addBreakpoints').returns(Promise.resolve({
+                errorCode: ERROR_CODES.OK,
+                breakpoints: [
+                    { breakpointId: 1, isVerified: true },
+                    { breakpointId: 2, isVerified: true }
+                ]
+            } as any));
+
+            await adapter.syncBreakpoints();
+
+            expect(breakpointManager.setBreakpointDeviceId.getCalls().map(x => x.args)).to.eql([['main', 1], ['lib', 2]]);
+            expect(breakpointManager.setBreakpointPending.getCalls().map(x => x.args)).to.eql([['lib', 'lib1']]);
+        });
+    });
+
+    describe('getLogpointMessage', () => {
+        it('replaces every placeholder with the value of its expression', async () => {
+            const values = {
+                'person.name': { type: 'String', value: '"bob"' },
+                'person.age': { type: 'Integer', value: 42 },
+                'person.pet': { type: 'Invalid', value: 'roInvalid' }
+            };
+            sinon.stub(adapter, 'getVariable').callsFake((expression: string) => Promise.resolve(values[expression]));
+
+            expect(
+                await adapter.getLogpointMessage('{person.name} is { person.age }, pet: {person.pet}!', 1, '__rokudebug_eval')
+            ).to.equal('bob is 42, pet: invalid!');
+        });
+
+        it('evaluates placeholders that are not variables', async () => {
+            const evaluateStub = sinon.stub(adapter, 'evaluate').returns(Promise.resolve({ type: 'message', message: undefined }));
+            const getVariableStub = sinon.stub(adapter, 'getVariable').returns(Promise.resolve({ type: 'Integer', value: 3 } as any));
+
+            expect(
+                await adapter.getLogpointMessage('sum: {a + b}', 1, '__rokudebug_eval')
+            ).to.equal('sum: 3');
+            expect(evaluateStub.getCall(0).args).to.eql(['__rokudebug_eval = a + b', 1]);
+            expect(getVariableStub.getCall(0).args).to.eql(['__rokudebug_eval', 1, false]);
+        });
+
+        it('leaves placeholders that cannot be resolved as-is', async () => {
+            sinon.stub(adapter, 'evaluate').returns(Promise.resolve({ type: 'error', errorType: 'runtime', message: 'Type Mismatch.' }));
+            sinon.stub(adapter, 'getVariable').returns(Promise.resolve(undefined));
+
+            expect(
+                await adapter.getLogpointMessage('sum: {a + b}, missing: {missing}', 1, '__rokudebug_eval')
+            ).to.equal('sum: {a + b}, missing: {missing}');
+        });
+    });
 });
@@ -4,9 +4,9 @@ import * as EventEmitter from 'events';
 import { Socket } from 'net';
 import type { BSDebugDiagnostic } from '../CompileErrorProcessor';
 import { CompileErrorProcessor } from '../CompileErrorProcessor';
-import type { RendezvousHistory } from '../RendezvousTracker';
+import type { RendezvousExportFormat, RendezvousHistory } from '../RendezvousTracker';
 import { RendezvousTracker } from '../RendezvousTracker';
-import type { ChanperfData } from '../ChanperfTracker';
+import type { ChanperfAlert, ChanperfData, ChanperfThresholds } from '../ChanperfTracker';
 import { ChanperfTracker } from '../ChanperfTracker';
 import type { SourceLocation } from '../managers/LocationManager';
 import { ERROR_CODES, PROTOCOL_ERROR_CODES, STOP_REASONS } from '../debugProtocol/Constants';
@@ -39,6 +39,9 @@ export class DebugProtocolAdapter {
         this.chanperfTracker.on('chanperf', (output) => {
             this.emit('chanperf', output);
         });
+        this.chanperfTracker.on('chanperf-alert', (alert) => {
+            this.emit('chanperf-alert', alert);
+        });
 
         // watch for rendezvous events
         this.rendezvousTracker.on('rendezvous', (output) => {
@@ -87,6 +90,7 @@ export class DebugProtocolAdapter {
     public on(eventName: 'breakpoints-verified', handler: (data: VerifiedBreakpointsData) => void);
     public on(eventName: 'cannot-continue', handler: () => void);
     public on(eventname: 'chanperf', handler: (output: ChanperfData) => void);
+    public on(eventname: 'chanperf-alert', handler: (alert: ChanperfAlert) => void);
     public on(eventName: 'close', handler: () => void);
     public on(eventName: 'app-exit', handler: () => void);
     public on(eventName: 'diagnostics', handler: (params: BSDebugDiagnostic[]) => void);
@@ -110,7 +114,7 @@ export class DebugProtocolAdapter {
     private emit(eventName: 'suspend');
     private emit(eventName: 'breakpoints-verified', data: VerifiedBreakpointsData);
     private emit(eventName: 'diagnostics', data: BSDebugDiagnostic[]);
-    private emit(eventName: 'app-exit' | 'cannot-continue' | 'chanperf' | 'close' | 'connected' | 'console-output' | 'protocol-version' | 'rendezvous' | 'runtime-error' | 'start' | 'unhandled-console-output', data?);
+    private emit(eventName: 'app-exit' | 'cannot-continue' | 'chanperf' | 'chanperf-alert' | 'close' | 'connected' | 'console-output' | 'protocol-version' | 'rendezvous' | 'runtime-error' | 'start' | 'unhandled-console-output', data?);
     private emit(eventName: string, data?) {
         //emit these events on next tick, otherwise they will be processed immediately which could cause issues
         setTimeout(() => {
@@ -132,6 +136,11 @@ export class DebugProtocolAdapter {
      */
     public isAppRunning = false;
 
+    /**
+     * Set once the first suspend event has been emitted, so the startup handler doesn't report the same stop again
+     */
+    private hasEmittedSuspend = false;
+
     public activate() {
         this.isActivated = true;
         this.handleStartupIfReady();
@@ -147,8 +156,8 @@ export class DebugProtocolAdapter {
 
             //if we are already sitting at a debugger prompt, we need to emit the first suspend event.
             //If not, then there are probably still messages being received, so let the normal handler
-            //emit the suspend event when it's ready
-            if (this.isAtDebuggerPrompt === true) {
+            //emit the suspend event when it's ready (unless it already has, which happens when attaching to a stopped channel)
+            if (this.isAtDebuggerPrompt === true && !this.hasEmittedSuspend) {
                 this.emit('suspend');
             }
         }
@@ -186,11 +195,21 @@ export class DebugProtocolAdapter {
         return this.socketDebugger?.isStopped ?? false;
     }
 
+    /**
+     * Connect to the debug protocol of a channel that is already running on the device.
+     * The channel must have been sideloaded with remote debugging enabled.
+     */
+    public async attach() {
+        this.isAppRunning = true;
+        await this.connect();
+    }
+
     /**
      * Connect to the telnet session. This should be called before the channel is launched.
      */
     public async connect() {
         let deferred = defer();
+        this.hasEmittedSuspend = false;
         this.socketDebugger = new Debugger(this.options);
         try {
             // Emit IO from the debugger.
@@ -238,6 +257,7 @@ export class DebugProtocolAdapter {
 
             this.socketDebugger.on('suspend', (data) => {
                 this.clearCache();
+                this.hasEmittedSuspend = true;
                 this.emit('suspend');
             });
 
@@ -408,9 +428,16 @@ export class DebugProtocolAdapter {
                     type: 'message'
                 };
             } else {
+                let errorType: RokuAdapterEvaluateResponse['errorType'] = 'other';
+                if (response.compileErrors.messages.length > 0) {
+                    errorType = 'compile';
+                } else if (response.runtimeErrors.messages.length > 0) {
+                    errorType = 'runtime';
+                }
                 return {
                     message: response.compileErrors.messages[0] ?? response.runtimeErrors.messages[0] ?? response.otherErrors.messages[0] ?? 'Unknown error executing command',
-                    type: 'error'
+                    type: 'error',
+                    errorType: errorType
                 };
             }
         } else {
@@ -567,6 +594,55 @@ export class DebugProtocolAdapter {
         }
     }
 
+    /**
+     * Build the message for a logpoint by replacing every `{expression}` placeholder with the value of that expression in the given frame
+     * (i.e. `hello {person.name}` becomes `hello bob`), the same way a `PRINT` statement would show it.
+     * Placeholders that cannot be resolved are left as-is
+     * @param evaluateVariableName the temporary variable used to evaluate expressions that are not variables (i.e. `{a + b}`)
+     */
+    public async getLogpointMessage(logMessage: string, frameId: number, evaluateVariableName: string) {
+        const logger = this.logger.createLogger(' getLogpointMessage');
+        let message = '';
+        let lastIndex = 0;
+        const placeholderRegex = /\{(.*?)\}/g;
+        let match: RegExpExecArray;
+        while ((match = placeholderRegex.exec(logMessage))) {
+            message += logMessage.substring(lastIndex, match.index);
+            lastIndex = match.index + match[0].length;
+            let container: EvaluateContainer;
+            try {
+                container = await this.evaluateLogpointExpression(match[1].trim(), frameId, evaluateVariableName);
+            } catch (e) {
+                logger.warn(`Unable to resolve '${match[1]}'`, e);
+            }
+            if (!container) {
+                message += match[0];
+            } else if (container.type === 'String') {
+                //print strings without their quotes
+                message += (container.value).replace(/^"(.*)"$/s, '$1');
+            } else if (container.value === 'roInvalid') {
+                message += 'invalid';
+            } else {
+                message += `${container.value}`;
+            }
+        }
+        return message + logMessage.substring(lastIndex);
+    }
+
+    /**
+     * Variables are looked up directly. Anything else is evaluated the same way as in the REPL: by assigning it to a temporary variable and reading that back
+     */
+    private async evaluateLogpointExpression(expression: string, frameId: number, evaluateVariableName: string) {
+        if (util.getVariablePath(expression)) {
+            return this.getVariable(expression, frameId, false);
+        }
+        const result = await this.evaluate(`${evaluateVariableName} = ${expression}`, frameId);
+        if (result?.type === 'error') {
+            throw new Error(result.message);
+        }
+        return this.getVariable(evaluateVariableName, frameId, false);
+    }
+
     /**
      * Cache items by a unique key
      * @param expression
@@ -603,7 +679,8 @@ export class DebugProtocolAdapter {
                     functionName: threadInfo.functionName,
                     lineNumber: threadInfo.lineNumber + 1, //protocol is 0-based but 1-based is expected
                     lineContents: threadInfo.codeSnippet,
-                    threadId: i
+                    threadId: i,
+                    stopReason: threadInfo.stopReason
                 };
                 threads.push(thread);
             }
@@ -669,12 +746,48 @@ export class DebugProtocolAdapter {
         this.rendezvousTracker.clearHistory();
     }
 
+    /**
+     * Sends a call to the RendezvousTracker to serialize the current rendezvous history
+     */
+    public exportRendezvousHistory(format?: RendezvousExportFormat) {
+        return this.rendezvousTracker.exportHistory(format);
+    }
+
+    /**
+     * Sends a call to the RendezvousTracker to load a previously exported history to compare against
+     */
+    public importRendezvousHistory(content: string) {
+        return this.rendezvousTracker.importHistory(content);
+    }
+
+    /**
+     * Sends a call to the RendezvousTracker to compare the current rendezvous history against the imported one
+     */
+    public compareRendezvousHistory() {
+        return this.rendezvousTracker.compareHistory();
+    }
+
     /**
      * Sends a call to the ChanperfTracker to clear the current chanperf history
      */
     public clearChanperfHistory() {
         this.chanperfTracker.clearHistory();
     }
+
+    /**
+     * Passes the memory and cpu alert thresholds down to the ChanperfTracker
+     */
+    public setChanperfThresholds(thresholds: ChanperfThresholds) {
+        this.chanperfTracker.setThresholds(thresholds);
+    }
+
+    /**
+     * Gets a summary of the chanperf history from the ChanperfTracker
+     * @param windowMilliseconds only summarize the samples from this many milliseconds before the most recent one
+     */
+    public getChanperfSummary(windowMilliseconds?: number) {
+        return this.chanperfTracker.getSummary(windowMilliseconds);
+    }
     // #endregion
 
     public async syncBreakpoints() {
@@ -700,11 +813,11 @@ export class DebugProtocolAdapter {
 
         if (diff.added.length > 0) {
             const breakpointsToSendToDevice = diff.added.map(breakpoint => {
-                const hitCount = parseInt(breakpoint.hitCondition);
                 return {
                     filePath: breakpoint.pkgPath,
                     lineNumber: breakpoint.line,
-                    hitCount: !isNaN(hitCount) ? hitCount : undefined,
+                    //the device can only skip the first N hits. Any other hit condition is counted by the session instead
+                    hitCount: this.breakpointManager.getDeviceIgnoreCount(breakpoint.hitCondition),
                     conditionalExpression: breakpoint.condition,
                     key: breakpoint.hash,
                     componentLibraryName: breakpoint.componentLibraryName
@@ -736,6 +849,10 @@ export class DebugProtocolAdapter {
                                 breakpoints[i].key,
                                 deviceBreakpoint.breakpointId
                             );
+                            //component library breakpoints are not verified until the device loads the library
+                            if (breakpoints[i].componentLibraryName && deviceBreakpoint.isVerified) {
+                                this.breakpointManager.setBreakpointPending(breakpoints[i].key, breakpoints[i].componentLibraryName);
+                            }
                         }
                         //return true to mark this action as complete
                         success &&= true;
@@ -791,6 +908,10 @@ export interface Thread {
     functionName: string;
     lineContents: string;
     threadId: number;
+    /**
+     * Why the device stopped this thread (i.e. `BREAK`, `STOP_STATEMENT`, `RUNTIME_ERROR`)
+     */
+    stopReason?: string;
 }
 
 interface BrightScriptRuntimeError {
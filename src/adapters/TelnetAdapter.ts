@@ -5,9 +5,9 @@ import { rokuDeploy } from 'roku-deploy';
 import { PrintedObjectParser } from '../PrintedObjectParser';
 import type { BSDebugDiagnostic } from '../CompileErrorProcessor';
 import { CompileErrorProcessor } from '../CompileErrorProcessor';
-import type { RendezvousHistory } from '../RendezvousTracker';
+import type { RendezvousExportFormat, RendezvousHistory } from '../RendezvousTracker';
 import { RendezvousTracker } from '../RendezvousTracker';
-import type { ChanperfData } from '../ChanperfTracker';
+import type { ChanperfAlert, ChanperfData, ChanperfThresholds } from '../ChanperfTracker';
 import { ChanperfTracker } from '../ChanperfTracker';
 import type { SourceLocation } from '../managers/LocationManager';
 import { defer, util } from '../util';
@@ -41,6 +41,9 @@ export class TelnetAdapter {
         this.chanperfTracker.on('chanperf', (output) => {
             this.emit('chanperf', output);
         });
+        this.chanperfTracker.on('chanperf-alert', (alert) => {
+            this.emit('chanperf-alert', alert);
+        });
 
         // watch for rendezvous events
         this.rendezvousTracker.on('rendezvous', (output) => {
@@ -80,6 +83,7 @@ export class TelnetAdapter {
      */
     public on(eventName: 'cannot-continue', handler: () => void);
     public on(eventname: 'chanperf', handler: (output: ChanperfData) => void);
+    public on(eventname: 'chanperf-alert', handler: (alert: ChanperfAlert) => void);
     public on(eventName: 'close', handler: () => void);
     public on(eventName: 'app-exit', handler: () => void);
     public on(eventName: 'diagnostics', handler: (params: BSDebugDiagnostic[]) => void);
@@ -106,6 +110,7 @@ export class TelnetAdapter {
             'app-exit' |
             'cannot-continue' |
             'chanperf' |
+            'chanperf-alert' |
             'close' |
             'connected' |
             'console-output' |
@@ -219,18 +224,30 @@ export class TelnetAdapter {
         }
     }
 
+    /**
+     * Connect to the telnet session of a channel that is already running on the device.
+     * Unlike `connect`, this does not exit the channel first.
+     */
+    public async attach() {
+        this.isAppRunning = true;
+        await this.connect(false);
+    }
+
     /**
      * Connect to the telnet session. This should be called before the channel is launched.
+     * @param exitChannel - if true, return to the home screen before connecting
      */
-    public async connect() {
+    public async connect(exitChannel = true) {
         this.logger.log('Establishing telnet connection');
         let deferred = defer();
         this.isInMicroDebugger = false;
         this.isNextBreakpointSkipped = false;
         try {
-            this.logger.log('Pressing home button');
-            //force roku to return to home screen. This gives the roku adapter some security in knowing new messages won't be appearing during initialization
-            await rokuDeploy.pressHomeButton(this.options.host, this.options.remotePort);
+            if (exitChannel) {
+                this.logger.log('Pressing home button');
+                //force roku to return to home screen. This gives the roku adapter some security in knowing new messages won't be appearing during initialization
+                await rokuDeploy.pressHomeButton(this.options.host, this.options.remotePort);
+            }
             let client: Socket = new Socket();
 
             //listen for the close event
@@ -1059,12 +1076,48 @@ export class TelnetAdapter {
         this.rendezvousTracker.clearHistory();
     }
 
+    /**
+     * Sends a call to the RendezvousTracker to serialize the current rendezvous history
+     */
+    public exportRendezvousHistory(format?: RendezvousExportFormat) {
+        return this.rendezvousTracker.exportHistory(format);
+    }
+
+    /**
+     * Sends a call to the RendezvousTracker to load a previously exported history to compare against
+     */
+    public importRendezvousHistory(content: string) {
+        return this.rendezvousTracker.importHistory(content);
+    }
+
+    /**
+     * Sends a call to the RendezvousTracker to compare the current rendezvous history against the imported one
+     */
+    public compareRendezvousHistory() {
+        return this.rendezvousTracker.compareHistory();
+    }
+
     /**
      * Sends a call to the ChanperfTracker to clear the current chanperf history
      */
     public clearChanperfHistory() {
         this.chanperfTracker.clearHistory();
     }
+
+    /**
+     * Passes the memory and cpu alert thresholds down to the ChanperfTracker
+     */
+    public setChanperfThresholds(thresholds: ChanperfThresholds) {
+        this.chanperfTracker.setThresholds(thresholds);
+    }
+
+    /**
+     * Gets a summary of the chanperf history from the ChanperfTracker
+     * @param windowMilliseconds only summarize the samples from this many milliseconds before the most recent one
+     */
+    public getChanperfSummary(windowMilliseconds?: number) {
+        return this.chanperfTracker.getSummary(windowMilliseconds);
+    }
     // #endregion
 
     public async syncBreakpoints() {
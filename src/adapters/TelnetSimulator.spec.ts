@@ -0,0 +1,305 @@
+import { expect } from 'chai';
+import * as fsExtra from 'fs-extra';
+import { createSandbox } from 'sinon';
+import type { DebugProtocol } from 'vscode-debugprotocol';
+import { DebugSession } from 'vscode-debugadapter';
+import { rokuDeploy } from 'roku-deploy';
+import { TelnetAdapter } from './TelnetAdapter';
+import type { TelnetSimulatorScenario } from './TelnetSimulator';
+import { TelnetSimulator } from './TelnetSimulator';
+import { BrightScriptDebugSession } from '../debugSession/BrightScriptDebugSession';
+import { ChannelPublishedEvent } from '../debugSession/Events';
+import { standardizePath as s } from '../FileUtils';
+import { util } from '../util';
+import { debugServerLogOutputEventTransport } from '../logging';
+const sinon = createSandbox();
+
+const tempDir = s`${process.cwd()}/.tmp`;
+const rootDir = s`${tempDir}/rootDir`;
+const stagingDir = s`${tempDir}/stagingDir`;
+
+describe('TelnetSimulator', () => {
+    let simulator: TelnetSimulator;
+    let adapter: TelnetAdapter;
+
+    beforeEach(() => {
+        sinon.stub(console, 'log').callsFake((...args) => { });
+        sinon.stub(rokuDeploy, 'pressHomeButton').returns(Promise.resolve(undefined));
+        //the real sockets end up in the log messages, so don't let them pile up in the queue
+        debugServerLogOutputEventTransport.setWriter(() => { });
+    });
+
+    afterEach(async () => {
+        adapter?.destroy();
+        adapter = undefined;
+        await simulator?.stop();
+        simulator = undefined;
+        sinon.restore();
+        debugServerLogOutputEventTransport.setWriter(undefined);
+    });
+
+    const mainFrame = {
+        functionName: 'main',
+        fileName: 'pkg:/source/main.brs',
+        lineNumber: 4,
+        variables: [{
+            name: 'person',
+            type: 'AA',
+            children: [
+                { name: 'name', type: 'String', value: 'bob' },
+                { name: 'age', type: 'Integer', value: 42 }
+            ]
+        }, {
+            name: 'list',
+            type: 'Array',
+            children: [
+                { type: 'Boolean', value: true }
+            ]
+        }]
+    } as const;
+
+    function createScenario(overrides?: Partial<TelnetSimulatorScenario>): TelnetSimulatorScenario {
+        return {
+            appName: 'Hello World',
+            output: ['hello world'],
+            entry: {
+                threads: [{ codeSnippet: 'print "hello world"', frames: [{ functionName: 'main', fileName: 'pkg:/source/main.brs', lineNumber: 1 }] }]
+            },
+            stops: [{
+                threads: [{
+                    codeSnippet: 'print person.name',
+                    frames: [
+                        { functionName: 'printName', fileName: 'pkg:/source/lib.brs', lineNumber: 2 },
+                        mainFrame as any
+                    ]
+                }]
+            }],
+            ...overrides
+        };
+    }
+
+    function once(eventName: string) {
+        return new Promise<any>((resolve) => {
+            const off = adapter.on(eventName as any, (data) => {
+                off();
+                resolve(data);
+            });
+        });
+    }
+
+    async function launch(scenario: TelnetSimulatorScenario) {
+        simulator = new TelnetSimulator(scenario, { port: 0 });
+        await simulator.start();
+        adapter = new TelnetAdapter({
+            host: '127.0.0.1',
+            brightScriptConsolePort: simulator.port
+        });
+        await adapter.connect();
+        await adapter.activate();
+        simulator.launch();
+    }
+
+    it('launches the channel and stops at the entry point', async () => {
+        const outputs = [] as string[];
+        simulator = new TelnetSimulator(createScenario(), { port: 0 });
+        await simulator.start();
+        adapter = new TelnetAdapter({
+            host: '127.0.0.1',
+            brightScriptConsolePort: simulator.port
+        });
+        adapter.on('console-output', (output) => {
+            outputs.push(output);
+        });
+        await adapter.connect();
+        await adapter.activate();
+        const startPromise = once('start');
+        const suspendPromise = once('suspend');
+        simulator.launch();
+        await startPromise;
+        await suspendPromise;
+        expect(outputs.join('')).to.include('hello world');
+
+        const threads = await adapter.getThreads();
+        expect(threads.map(x => [x.threadId, x.filePath, x.lineNumber, x.lineContents.trim(), x.isSelected])).to.eql([
+            [0, 'pkg:/source/main.brs', 1, 'print "hello world"', true]
+        ]);
+    });
+
+    it('serves the stack trace', async () => {
+        await launch(createScenario({ entry: undefined }));
+        await once('suspend');
+
+        const stackTrace = await adapter.getStackTrace();
+        expect(stackTrace.map(x => [x.frameId, x.functionIdentifier, x.filePath, x.lineNumber])).to.eql([
+            [1, 'printName', 'pkg:/source/lib.brs', 2],
+            [0, 'main', 'pkg:/source/main.brs', 4]
+        ]);
+    });
+
+    it('serves the local variables and their children', async () => {
+        await launch(createScenario({
+            entry: undefined,
+            stops: [{ threads: [{ frames: [mainFrame as any] }] }]
+        }));
+        await once('suspend');
+
+        expect(await adapter.getScopeVariables()).to.eql(['person', 'list']);
+
+        const person = await adapter.getVariable('person');
+        expect(person.type).to.equal('roAssociativeArray');
+        expect(person.children.map(x => [x.name, x.type, x.value])).to.eql([
+            ['age', 'Integer', '42'],
+            ['name', 'String', '"bob"'],
+            ['[[count]]', 'integer', '2']
+        ]);
+
+        expect((await adapter.getVariable('person.name')).value).to.equal('"bob"');
+        expect((await adapter.getVariable('PERSON["age"]')).value).to.equal('42');
+
+        const list = await adapter.getVariable('list');
+        expect(list.type).to.equal('roArray');
+        expect(list.children.map(x => [x.name, x.type, x.value])).to.eql([
+            ['0', 'Boolean', 'true'],
+            ['[[count]]', 'integer', '1']
+        ]);
+    });
+
+    it('responds to scripted evaluations', async () => {
+        await launch(createScenario({
+            evaluations: {
+                'print 1 + 1': ' 2'
+            }
+        }));
+        await once('suspend');
+
+        const response = await adapter.evaluate('print 1 + 1');
+        expect(response.message.trim()).to.equal('2');
+    });
+
+    it('continues to the next stop and then exits', async () => {
+        await launch(createScenario());
+        await once('suspend');
+
+        let suspendPromise = once('suspend');
+        await adapter.continue();
+        await suspendPromise;
+        expect(simulator.currentStop).to.equal(simulator.scenario.stops[0]);
+
+        const appExitPromise = once('app-exit');
+        await adapter.continue();
+        await appExitPromise;
+        expect(simulator.isStopped).to.be.false;
+        expect(simulator.commands).to.include.members(['c']);
+    });
+
+    it('reports runtime errors', async () => {
+        await launch(createScenario({
+            entry: undefined,
+            stops: [{
+                reason: 'RUNTIME_ERROR',
+                reasonDetail: 'Divide by Zero.',
+                threads: [{ frames: [mainFrame as any] }]
+            }]
+        }));
+        const runtimeError = await once('runtime-error');
+        expect(runtimeError).to.eql({
+            message: 'Divide by Zero.',
+            errorCode: '&h14'
+        });
+    });
+
+    describe('BrightScriptDebugSession', () => {
+        let session: BrightScriptDebugSession;
+        let events: DebugProtocol.Event[];
+        let eventListeners: Array<(event: DebugProtocol.Event) => void>;
+
+        beforeEach(() => {
+            fsExtra.emptyDirSync(tempDir);
+            fsExtra.outputFileSync(`${rootDir}/manifest`, '');
+            fsExtra.outputFileSync(`${rootDir}/source/main.brs`, 'sub main()\n    print "hello world"\n    printName({ name: "bob" })\nend sub');
+            fsExtra.outputFileSync(`${rootDir}/source/lib.brs`, 'sub printName(person)\n    print person.name\nend sub');
+
+            sinon.stub(util, 'dnsLookup').callsFake((host) => Promise.resolve(host));
+            sinon.stub(rokuDeploy, 'publish').returns(Promise.resolve(undefined));
+            sinon.stub(DebugSession.prototype, 'shutdown').returns(null);
+            session = new BrightScriptDebugSession();
+            events = [];
+            eventListeners = [];
+            sinon.stub(session, 'sendEvent').callsFake((event: DebugProtocol.Event) => {
+                events.push(event);
+                //the device runs the channel as soon as it has been published
+                if (event instanceof ChannelPublishedEvent) {
+                    simulator.launch();
+                }
+                for (const listener of eventListeners) {
+                    listener(event);
+                }
+            });
+            sinon.stub(session, 'sendResponse').callsFake(() => { });
+        });
+
+        afterEach(() => {
+            fsExtra.removeSync(tempDir);
+        });
+
+        /**
+         * Wait until the session has sent `count` events with this name (in total)
+         */
+        function waitForEvent(eventName: string, count: number) {
+            return new Promise<DebugProtocol.Event>((resolve) => {
+                const check = () => {
+                    const matches = events.filter(x => x.event === eventName);
+                    if (matches.length >= count) {
+                        resolve(matches[count - 1]);
+                    }
+                };
+                eventListeners.push(check);
+                check();
+            });
+        }
+
+        async function sendRequest<T extends DebugProtocol.Response>(requestName: string, args: any = {}) {
+            const stub = session.sendResponse as sinon.SinonStub;
+            const callCount = stub.callCount;
+            await session[requestName]({ body: {} }, args);
+            return stub.getCall(callCount)?.args[0] as T;
+        }
+
+        it('launches a simulated channel end-to-end over telnet', async () => {
+            simulator = new TelnetSimulator(createScenario({
+                stops: [{ threads: [{ frames: [mainFrame as any] }] }]
+            }), { port: 0 });
+            await simulator.start();
+
+            await session.launchRequest({} as any, {
+                rootDir: rootDir,
+                outDir: tempDir,
+                stagingFolderPath: stagingDir,
+                files: ['manifest', 'source/**/*'],
+                host: '127.0.0.1',
+                brightScriptConsolePort: simulator.port,
+                enableDebugProtocol: false,
+                enableVariablesPanel: true,
+                stopOnEntry: true,
+                stopDebuggerOnAppExit: true
+            } as any);
+            await waitForEvent('stopped', 1);
+
+            await sendRequest('continueRequest', { threadId: 0 });
+            const stoppedEvent = await waitForEvent('stopped', 2) as DebugProtocol.StoppedEvent;
+
+            const stackTraceResponse = await sendRequest<DebugProtocol.StackTraceResponse>('stackTraceRequest', { threadId: stoppedEvent.body.threadId });
+            const scopesResponse = await sendRequest<DebugProtocol.ScopesResponse>('scopesRequest', { frameId: stackTraceResponse.body.stackFrames[0].id });
+            const variablesResponse = await sendRequest<DebugProtocol.VariablesResponse>('variablesRequest', {
+                variablesReference: scopesResponse.body.scopes[0].variablesReference
+            });
+            expect(variablesResponse.body.variables.map(x => [x.name, x.type])).to.eql([
+                ['person', 'roAssociativeArray'],
+                ['list', 'roArray']
+            ]);
+
+            await sendRequest('continueRequest', { threadId: 0 });
+            await waitForEvent('terminated', 1);
+        });
+    });
+});
@@ -0,0 +1,503 @@
+import * as Net from 'net';
+import * as fsExtra from 'fs-extra';
+import { EventEmitter } from 'events';
+import { logger } from '../logging';
+import { util } from '../util';
+import { getRuntimeErrorInfo } from '../BrightScriptRuntimeErrors';
+import type { SimulatorFrame, SimulatorScenario, SimulatorStop, SimulatorThread, SimulatorVariable } from '../debugProtocol/DebugProtocolSimulator';
+
+/**
+ * A fake Roku device that serves the BrightScript telnet console (port 8085), driven by a json `TelnetSimulatorScenario`.
+ * Point a `TelnetAdapter` (or a debug session's `brightScriptConsolePort` launch option) at `simulator.port`
+ * to exercise the telnet debugger end-to-end without any Roku hardware.
+ *
+ * The channel does not start until `launch()` is called (i.e. once the client has published the channel). The scenario shares its
+ * timeline format with `DebugProtocolSimulator`, but every stop is hit, because telnet breakpoints are compiled into the channel as `STOP` statements.
+ */
+export class TelnetSimulator extends EventEmitter {
+    constructor(
+        public scenario: TelnetSimulatorScenario,
+        options?: {
+            /**
+             * The port the console should listen on. Defaults to 8085. Use 0 to pick a random open port
+             */
+            port?: number;
+        }
+    ) {
+        super();
+        this.port = options?.port ?? 8085;
+    }
+
+    /**
+     * Load a scenario from a json file
+     */
+    public static fromFile(filePath: string, options?: ConstructorParameters<typeof TelnetSimulator>[1]) {
+        const scenario = JSON.parse(
+            fsExtra.readFileSync(filePath).toString()
+        ) as TelnetSimulatorScenario;
+        return new TelnetSimulator(scenario, options);
+    }
+
+    private logger = logger.createLogger(`[${TelnetSimulator.name}]`);
+
+    /**
+     * The port the console is listening on. This is only known after `start()` has resolved
+     */
+    public port: number;
+
+    private server: Net.Server;
+    private socket: Net.Socket;
+
+    /**
+     * Any partial command that has not been terminated by a newline yet
+     */
+    private unhandledText = '';
+
+    /**
+     * Every command the client has sent, in the order they were received
+     */
+    public commands = [] as string[];
+
+    /**
+     * The index of the next stop in `scenario.stops` that the channel will run to
+     */
+    private nextStopIndex = 0;
+
+    /**
+     * The stop the channel is currently paused at, or undefined if it is running (or has exited)
+     */
+    public currentStop: SimulatorStop;
+
+    public get isStopped() {
+        return !!this.currentStop;
+    }
+
+    /**
+     * Start listening for a telnet client.
+     * @returns the console port
+     */
+    public async start() {
+        this.server = await new Promise<Net.Server>((resolve, reject) => {
+            const server = Net.createServer((socket) => {
+                this.logger.log('Client connected to the console port');
+                this.socket = socket;
+                socket.on('data', (data) => {
+                    this.unhandledText += data.toString();
+                    this.processUnhandledText();
+                });
+            });
+            server.once('error', reject);
+            server.listen(this.port, () => {
+                resolve(server);
+            });
+        });
+        this.port = (this.server.address() as Net.AddressInfo).port;
+        return this.port;
+    }
+
+    /**
+     * Disconnect the client and stop listening
+     */
+    public async stop() {
+        this.socket?.destroy();
+        if (this.server?.listening) {
+            await new Promise<void>((resolve) => {
+                this.server.close(() => resolve());
+            });
+        }
+    }
+
+    /**
+     * Compile and run the channel, just like a device does after the channel has been sideloaded.
+     * The client must already be connected, because the device does not replay console output to new connections
+     */
+    public launch() {
+        this.currentStop = undefined;
+        this.nextStopIndex = 0;
+        const appName = this.scenario?.appName ?? 'dev';
+        this.write([
+            `------ Compiling dev '${appName}' ------`
+        ]);
+        if (this.scenario?.compileErrors?.length > 0) {
+            this.write(this.scenario.compileErrors);
+            this.emit('compile-error');
+            return;
+        }
+        this.write([
+            `------ Running dev '${appName}' main ------`,
+            `[scrpt.ctx.run.enter] UI: Entering '${appName}', id 'dev'`,
+            ...this.scenario?.output ?? []
+        ]);
+        this.emit('launch');
+        if (this.scenario?.entry) {
+            this.suspend(this.scenario.entry);
+        } else {
+            this.run();
+        }
+    }
+
+    private processUnhandledText() {
+        let match: RegExpExecArray;
+        while ((match = /\r?\n/.exec(this.unhandledText))) {
+            const command = this.unhandledText.substring(0, match.index);
+            this.unhandledText = this.unhandledText.substring(match.index + match[0].length);
+            this.handleCommand(command.trim());
+        }
+    }
+
+    private handleCommand(command: string) {
+        this.commands.push(command);
+        this.emit('command', command);
+        //the console only accepts commands while the channel is stopped at the debugger prompt
+        if (!this.isStopped) {
+            this.logger.log('Ignoring command because the channel is not stopped', { command });
+            return;
+        }
+
+        const lowerCommand = command.toLowerCase();
+        if (['c', 'cont'].includes(lowerCommand)) {
+            this.run();
+        } else if (['s', 't', 'step', 'over', 'out'].includes(lowerCommand)) {
+            //every stop is hit anyway, so steps also move to the next stop in the timeline
+            this.run();
+        } else if (lowerCommand === 'exit') {
+            this.exit();
+        } else if (this.scenario?.evaluations?.[command] !== undefined) {
+            this.respond(this.scenario.evaluations[command]);
+        } else if (lowerCommand === 'bt') {
+            this.respond(this.getBacktrace(this.getPrimaryThread(this.currentStop)));
+        } else if (lowerCommand === 'var') {
+            this.respond(this.getVariableList(this.getPrimaryThread(this.currentStop).frames[0]));
+        } else if (['threads', 'ths'].includes(lowerCommand)) {
+            this.respond(this.getThreadList(this.currentStop));
+        } else {
+            this.respond(this.evaluate(command));
+        }
+    }
+
+    /**
+     * Get the response for an expression command (i.e. `print`, or the loops `TelnetAdapter` uses to print every child of a container)
+     */
+    private evaluate(command: string) {
+        let match: RegExpExecArray;
+        if ((match = /^for each vscodeLoopItem in (.*?) : print/i.exec(command))) {
+            const parent = this.findVariable(match[1]);
+            return (parent?.children ?? []).map(child => {
+                return `vscode_type_start:${this.getTypeName(child)}:vscode_type_stop vscode_is_string:${child.type === 'String'}${this.print(child)}`;
+            }).join('\r\n');
+        } else if ((match = /^for each vscodeLoopKey in (.*?)\.keys\(\):\s*print/i.exec(command))) {
+            const parent = this.findVariable(match[1]);
+            return (parent?.children ?? []).map(child => {
+                return `vscode_key_start:${child.name}:vscode_key_stop vscode_type_start:${this.getTypeName(child)}:vscode_type_stop vscode_is_string:${child.type === 'String'}${this.print(child)}`;
+            }).join('\r\n');
+        } else if ((match = /^(?:print|\?)\s*(.*)$/i.exec(command))) {
+            const expression = match[1].trim();
+            if (expression === '""') {
+                return '';
+            } else if ((match = /^type\((.*)\)$/i.exec(expression))) {
+                const variable = this.findVariable(match[1]);
+                return variable ? this.getTypeName(variable) : this.getSyntaxError();
+            } else if ((match = /^"--string-wrap--" \+ (.*) \+ "--string-wrap--"$/.exec(expression))) {
+                const variable = this.findVariable(match[1]);
+                return variable ? `--string-wrap--${variable.value ?? ''}--string-wrap--` : this.getSyntaxError();
+            } else {
+                const variable = this.findVariable(expression);
+                return variable ? this.print(variable) : this.getSyntaxError();
+            }
+        }
+        return this.getSyntaxError();
+    }
+
+    private getSyntaxError() {
+        return 'Syntax Error. (compile error &h02) in $LIVECOMPILE(1)';
+    }
+
+    /**
+     * Find the variable in the current frame for the given expression (i.e. `person.name`, `person["name"]` or `items[0]`).
+     * Unknown variables are uninitialized, and unknown keys are invalid (just like on a device).
+     * @returns the variable, or undefined if the expression is not a variable path
+     */
+    private findVariable(expression: string): SimulatorVariable {
+        const variablePath = util.getVariablePath(expression.trim());
+        if (!variablePath) {
+            return undefined;
+        }
+        const frame = this.getPrimaryThread(this.currentStop)?.frames[0];
+        let variable = this.findChild(frame?.variables, variablePath[0]);
+        if (!variable) {
+            return { type: 'Uninitialized' };
+        }
+        for (const key of variablePath.slice(1)) {
+            variable = this.findChild(variable.children, key, ['Array', 'List'].includes(variable.type));
+            if (!variable) {
+                return { type: 'Invalid', value: 'invalid' };
+            }
+        }
+        return variable;
+    }
+
+    private findChild(variables: SimulatorVariable[], key: string, isIndexed = false) {
+        if (isIndexed) {
+            return variables?.[parseInt(key)];
+        }
+        //AA keys are case insensitive
+        const name = key.replace(/^"(.*)"$/, '$1').toLowerCase();
+        return variables?.find(x => x.name?.toLowerCase() === name);
+    }
+
+    /**
+     * Get the name `Type()` returns for this variable
+     */
+    private getTypeName(variable: SimulatorVariable) {
+        switch (variable.type) {
+            case 'AA':
+                return 'roAssociativeArray';
+            case 'Array':
+                return 'roArray';
+            case 'List':
+                return 'roList';
+            case 'Long_Integer':
+                return 'LongInteger';
+            case 'Subroutine':
+                return 'Function';
+            case 'Uninitialized':
+                return '<uninitialized>';
+            case 'Object':
+                return `${variable.value}`;
+            case 'Subtyped_Object':
+                return `${variable.value}`.split(/;\s*/)[0];
+            default:
+                return variable.type;
+        }
+    }
+
+    /**
+     * Get the component name shown in the printed value of objects (i.e. `roSGNode:Node`)
+     */
+    private getComponentName(variable: SimulatorVariable) {
+        return variable.type === 'Subtyped_Object' ? `${variable.value}`.split(/;\s*/).join(':') : this.getTypeName(variable);
+    }
+
+    /**
+     * Get the value of a variable the way `print` writes it
+     * @param isNested if true, the variable is being printed as part of its parent, so containers only show their component name
+     */
+    private print(variable: SimulatorVariable, isNested = false): string {
+        switch (variable.type) {
+            case 'String':
+                return isNested ? `"${variable.value ?? ''}"` : `${variable.value ?? ''}`;
+            case 'Integer':
+            case 'Long_Integer':
+            case 'Float':
+            case 'Double':
+                //numbers are printed with a leading space for the sign
+                return isNested ? `${variable.value}` : ` ${variable.value}`;
+            case 'Boolean':
+                return `${variable.value ?? false}`;
+            case 'Invalid':
+                return 'invalid';
+            case 'Uninitialized':
+                return '<uninitialized>';
+            case 'Function':
+            case 'Subroutine':
+                return `<Function: ${variable.value}>`;
+            case 'Interface':
+                return `<Interface: ${variable.value}>`;
+            default:
+                return this.printComponent(variable, isNested);
+        }
+    }
+
+    private printComponent(variable: SimulatorVariable, isNested: boolean) {
+        const componentName = `<Component: ${this.getComponentName(variable)}>`;
+        if (isNested || (!variable.children && !['AA', 'Array', 'List'].includes(variable.type))) {
+            return componentName;
+        }
+        const brackets = { Array: ['[', ']'], List: ['(', ')'] }[variable.type] ?? ['{', '}'];
+        const isIndexed = ['Array', 'List'].includes(variable.type);
+        return [
+            `${componentName} =`,
+            brackets[0],
+            ...(variable.children ?? []).map(child => {
+                return `    ${isIndexed ? '' : `${child.name}: `}${this.print(child, true)}`;
+            }),
+            brackets[1]
+        ].join('\r\n');
+    }
+
+    /**
+     * Get the response for the `bt` command. The current function is listed first
+     */
+    private getBacktrace(thread: SimulatorThread) {
+        return thread.frames.map((frame, i) => {
+            return [
+                `#${thread.frames.length - i - 1}  Function ${frame.functionName}() As Void`,
+                `   file/line: ${frame.fileName}(${frame.lineNumber})`
+            ].join('\r\n');
+        }).join('\r\n');
+    }
+
+    /**
+     * Get the response for the `var` command
+     */
+    private getVariableList(frame: SimulatorFrame) {
+        return [
+            { name: 'global', type: 'Interface', value: 'ifGlobal' } as SimulatorVariable,
+            ...frame?.variables ?? []
+        ].map(variable => {
+            return `${variable.name.padEnd(16)} ${this.describe(variable)}`;
+        }).join('\r\n');
+    }
+
+    /**
+     * Get the description of a variable shown by the `var` command
+     */
+    private describe(variable: SimulatorVariable) {
+        switch (variable.type) {
+            case 'String':
+                return `String (VT_STR_CONST) val:"${variable.value ?? ''}"`;
+            case 'Integer':
+            case 'Long_Integer':
+            case 'Float':
+            case 'Double':
+            case 'Boolean':
+                return `${this.getTypeName(variable)} val:${variable.value}`;
+            case 'Invalid':
+            case 'Uninitialized':
+                return this.getTypeName(variable);
+            case 'Function':
+            case 'Subroutine':
+                return `Function ${variable.value}`;
+            case 'Interface':
+                return `Interface:${variable.value}`;
+            case 'AA':
+            case 'Array':
+            case 'List':
+                return `${this.getTypeName(variable)} refcnt=1 count:${variable.children?.length ?? 0}`;
+            default:
+                return `${this.getComponentName(variable)} refcnt=1`;
+        }
+    }
+
+    /**
+     * Get the response for the `threads` command
+     */
+    private getThreadList(stop: SimulatorStop) {
+        const primaryThreadIndex = stop.primaryThreadIndex ?? 0;
+        return [
+            'ID    Location                                Source Code',
+            ...stop.threads.map((thread, i) => this.getThreadLine(thread, i, i === primaryThreadIndex)),
+            '  *selected'
+        ].join('\r\n');
+    }
+
+    private getThreadLine(thread: SimulatorThread, index: number, isSelected: boolean) {
+        return `${` ${index}${isSelected ? '*' : ' '}`.padEnd(6)}${this.getLocation(thread).padEnd(40)}${thread.codeSnippet ?? ''}`;
+    }
+
+    private getLocation(thread: SimulatorThread) {
+        const frame = thread?.frames[0];
+        return `${frame?.fileName}(${frame?.lineNumber})`;
+    }
+
+    private getPrimaryThread(stop: SimulatorStop) {
+        return stop.threads[stop.primaryThreadIndex ?? 0];
+    }
+
+    /**
+     * Run the channel to the next stop in the timeline, or exit the channel if there are no more stops
+     */
+    private run() {
+        this.currentStop = undefined;
+        const stop = this.scenario?.stops?.[this.nextStopIndex++];
+        if (stop) {
+            this.suspend(stop);
+        } else {
+            this.exit();
+        }
+    }
+
+    /**
+     * Pause at the given stop, which prints the stop's output followed by the micro debugger banner and the debugger prompt
+     */
+    private suspend(stop: SimulatorStop) {
+        this.currentStop = stop;
+        const thread = this.getPrimaryThread(stop);
+        const location = this.getLocation(thread);
+        const reason = thread.stopReason ?? stop.reason ?? 'BREAK';
+        let message: string;
+        if (reason === 'RUNTIME_ERROR') {
+            const detail = thread.stopReasonDetail ?? stop.reasonDetail ?? '';
+            message = `${detail} (runtime error ${getRuntimeErrorInfo(undefined, detail)?.errorCode ?? '&hfe'}) in ${location}`;
+        } else {
+            //breakpoints are STOP statements in telnet
+            message = `STOP (runtime error &hf7) in ${location}`;
+        }
+        this.write([
+            ...stop.output ?? [],
+            //the device announces when it attaches to a thread other than the main thread (i.e. a Task)
+            ...(stop.primaryThreadIndex > 0 ? [`Thread attached: ${location}   ${thread.codeSnippet ?? ''}`] : []),
+            message,
+            'Backtrace:',
+            this.getBacktrace(thread),
+            'Local Variables:',
+            this.getVariableList(thread.frames[0]),
+            'Threads:',
+            this.getThreadList(stop),
+            '',
+            'BrightScript Micro Debugger.',
+            'Enter any BrightScript statement, debug commands, or HELP.',
+            '',
+            'Suspending threads...',
+            `Thread selected: ${this.getThreadLine(thread, stop.primaryThreadIndex ?? 0, true)}`,
+            ''
+        ], true);
+        this.emit('suspend', stop);
+    }
+
+    /**
+     * Exit the channel. The console connection stays open, just like on a device
+     */
+    private exit() {
+        this.logger.log('Channel exited');
+        this.currentStop = undefined;
+        this.write([
+            '[beacon.report] |AppExitComplete'
+        ]);
+        this.emit('exit');
+    }
+
+    /**
+     * Send the response for a command, followed by the debugger prompt
+     */
+    private respond(text: string) {
+        this.write(text ? [text, ''] : [], true);
+    }
+
+    private write(lines: string[], withPrompt = false) {
+        if (!this.socket?.writable) {
+            this.logger.log('Discarding console output because no client is connected', { lines });
+            return;
+        }
+        let text = lines.map(x => `${x}\r\n`).join('');
+        if (withPrompt) {
+            text += '\r\nBrightscript Debugger> ';
+        }
+        this.socket.write(text);
+    }
+}
+
+export interface TelnetSimulatorScenario extends SimulatorScenario {
+    /**
+     * The channel title shown in the compile and run messages. Defaults to `dev`
+     */
+    appName?: string;
+    /**
+     * Lines written after the compile message. If there are any, the channel fails to compile and does not run
+     */
+    compileErrors?: string[];
+    /**
+     * Responses for commands that the simulator doesn't understand on its own (i.e. `evaluate` requests), keyed by the exact command text
+     */
+    evaluations?: Record<string, string>;
+}
@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import * as fsExtra from 'fs-extra';
+import { loadLaunchConfiguration, parseArgs } from './cli';
+import { standardizePath as s } from './FileUtils';
+
+const cwd = s`${process.cwd()}`;
+const tempDir = s`${cwd}/.tmp`;
+
+describe('cli', () => {
+    describe('parseArgs', () => {
+        it('uses stdio when no port is provided', () => {
+            expect(parseArgs([])).to.eql({});
+        });
+
+        it('supports separate and inline values', () => {
+            expect(
+                parseArgs(['--port', '4711', '--config=./launch.json', '--log-level', 'trace'])
+            ).to.eql({
+                port: 4711,
+                config: './launch.json',
+                logLevel: 'trace'
+            });
+        });
+
+        it('supports the vscode-debugadapter style --server flag', () => {
+            expect(parseArgs(['--server=4711']).port).to.equal(4711);
+        });
+
+        it('throws on invalid values', () => {
+            expect(() => parseArgs(['--port', 'abc'])).to.throw(/Invalid port/);
+            expect(() => parseArgs(['--log-level', 'verbose'])).to.throw(/Invalid log level/);
+            expect(() => parseArgs(['--config'])).to.throw(/Missing value/);
+            expect(() => parseArgs(['--unknown'])).to.throw(/Unknown argument/);
+        });
+    });
+
+    describe('loadLaunchConfiguration', () => {
+        beforeEach(() => {
+            fsExtra.emptyDirSync(tempDir);
+        });
+
+        afterEach(() => {
+            fsExtra.removeSync(tempDir);
+        });
+
+        it('resolves paths relative to the config file', () => {
+            fsExtra.outputJsonSync(`${tempDir}/config/launch.json`, {
+                host: '192.168.1.2',
+                rootDir: '../app',
+                logLevel: 'warn'
+            });
+            const config = loadLaunchConfiguration({
+                config: `${tempDir}/config/launch.json`
+            });
+            expect(config.host).to.equal('192.168.1.2');
+            expect(s`${config.rootDir}`).to.equal(s`${tempDir}/app`);
+            expect(config.logLevel).to.equal('warn');
+        });
+
+        it('lets the log level flag override the config file', () => {
+            fsExtra.outputJsonSync(`${tempDir}/launch.json`, {
+                logLevel: 'warn'
+            });
+            expect(
+                loadLaunchConfiguration({ config: `${tempDir}/launch.json`, logLevel: 'debug' }).logLevel
+            ).to.equal('debug');
+        });
+    });
+});
@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+import * as net from 'net';
+import * as path from 'path';
+import * as fsExtra from 'fs-extra';
+import { BrightScriptDebugSession } from './debugSession/BrightScriptDebugSession';
+import type { LaunchConfiguration } from './LaunchConfiguration';
+import type { LogLevel } from './logging';
+import { logger } from './logging';
+
+const logLevels: LogLevel[] = ['off', 'error', 'warn', 'log', 'info', 'debug', 'trace'];
+
+export interface CliOptions {
+    /**
+     * The port the DAP server should listen on. If omitted, the debug session communicates over stdio
+     */
+    port?: number;
+    /**
+     * Path to a json file containing a `LaunchConfiguration`. Its values are used as defaults for every launch request
+     */
+    config?: string;
+    /**
+     * The log level for the debug server's internal logging
+     */
+    logLevel?: LogLevel;
+    /**
+     * Print the usage information and exit
+     */
+    help?: boolean;
+}
+
+export const usage = `Usage: roku-debug [options]
+
+Runs the roku-debug Debug Adapter Protocol server. By default the server communicates over stdio.
+
+Options:
+  --port <port>         Listen for DAP clients on this TCP port instead of using stdio
+  --config <path>       Path to a json file with launch configuration defaults
+  --log-level <level>   One of: ${logLevels.join(', ')}
+  --help                Show this help text
+`;
+
+/**
+ * Parse the command line arguments for the `roku-debug` bin
+ * @param args the arguments (without the node executable and script path)
+ */
+export function parseArgs(args: string[]): CliOptions {
+    const options = {} as CliOptions;
+    for (let i = 0; i < args.length; i++) {
+        //support both `--flag value` and `--flag=value`
+        let [flag, value] = args[i].split(/[=](.*)/s);
+        const getValue = () => {
+            if (value === undefined) {
+                value = args[++i];
+            }
+            if (value === undefined) {
+                throw new Error(`Missing value for '${flag}'`);
+            }
+            return value;
+        };
+
+        switch (flag) {
+            case '--port':
+            case '--server': {
+                const port = parseInt(getValue());
+                if (isNaN(port) || port < 0 || port > 65535) {
+                    throw new Error(`Invalid port '${value}'`);
+                }
+                options.port = port;
+                break;
+            }
+            case '--config':
+                options.config = getValue();
+                break;
+            case '--log-level':
+            case '--logLevel': {
+                const logLevel = getValue() as LogLevel;
+                if (!logLevels.includes(logLevel)) {
+                    throw new Error(`Invalid log level '${logLevel}'. Must be one of: ${logLevels.join(', ')}`);
+                }
+                options.logLevel = logLevel;
+                break;
+            }
+            case '--help':
+            case '-h':
+                options.help = true;
+                break;
+            default:
+                throw new Error(`Unknown argument '${args[i]}'`);
+        }
+    }
+    return options;
+}
+
+/**
+ * Load the launch configuration defaults for every session created by this process
+ */
+export function loadLaunchConfiguration(options: CliOptions): Partial<LaunchConfiguration> {
+    let config = {} as Partial<LaunchConfiguration>;
+    if (options.config) {
+        const configPath = path.resolve(options.config);
+        config = fsExtra.readJsonSync(configPath);
+        //relative paths in the config file are relative to the config file itself
+        for (const key of ['rootDir', 'outDir', 'stagingFolderPath', 'componentLibrariesOutDir', 'debugProtocolRecordingPath'] as const) {
+            if (typeof config[key] === 'string') {
+                config[key] = path.resolve(path.dirname(configPath), config[key]);
+            }
+        }
+    }
+    if (options.logLevel) {
+        config.logLevel = options.logLevel;
+    }
+    return config;
+}
+
+/**
+ * Create a new debug session that uses the given launch configuration defaults
+ */
+function createSession(defaultLaunchConfiguration: Partial<LaunchConfiguration>) {
+    const session = new BrightScriptDebugSession();
+    session.defaultLaunchConfiguration = defaultLaunchConfiguration;
+    return session;
+}
+
+export function run(args: string[]) {
+    const options = parseArgs(args);
+    if (options.help) {
+        process.stdout.write(usage);
+        return;
+    }
+    const launchConfiguration = loadLaunchConfiguration(options);
+    if (launchConfiguration.logLevel) {
+        logger.logLevel = launchConfiguration.logLevel;
+    }
+
+    if (options.port !== undefined) {
+        const server = net.createServer((socket) => {
+            console.error(`Accepted connection from ${socket.remoteAddress}:${socket.remotePort}`);
+            socket.on('end', () => {
+                console.error('Client connection closed');
+            });
+            const session = createSession(launchConfiguration);
+            session.setRunAsServer(true);
+            session.start(socket, socket);
+        });
+        server.listen(options.port, () => {
+            console.error(`roku-debug is waiting for debug protocol clients on port ${(server.address() as net.AddressInfo).port}`);
+        });
+    } else {
+        //stdout is the DAP channel, so redirect any stray console output to stderr to keep from corrupting the stream
+        console.log = console.error;
+        console.info = console.error;
+        console.warn = console.error;
+
+        const session = createSession(launchConfiguration);
+        process.on('SIGTERM', () => {
+            session.shutdown();
+        });
+        session.start(process.stdin, process.stdout);
+    }
+}
+
+if (require.main === module) {
+    try {
+        run(process.argv.slice(2));
+    } catch (e) {
+        console.error((e as Error).message);
+        console.error(usage);
+        process.exitCode = 1;
+    }
+}
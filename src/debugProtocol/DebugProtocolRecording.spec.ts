@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import * as fsExtra from 'fs-extra';
+import { SmartBuffer } from 'smart-buffer';
+import { createSandbox } from 'sinon';
+import { Debugger } from './Debugger';
+import type { RecordingEntry } from './DebugProtocolRecording';
+import { DebugProtocolReplayer } from './DebugProtocolRecording';
+import { MockDebugProtocolServer } from './MockDebugProtocolServer.spec';
+import { createHandShakeResponseV3, createListBreakpointsResponse } from './responses/responseCreationHelpers.spec';
+import { COMMANDS, ERROR_CODES } from './Constants';
+import { standardizePath as s } from '../FileUtils';
+const sinon = createSandbox();
+
+const tempDir = s`${process.cwd()}/.tmp`;
+const recordingPath = s`${tempDir}/recording.jsonl`;
+
+describe('DebugProtocolRecording', () => {
+    let bsDebugger: Debugger;
+
+    beforeEach(() => {
+        sinon.stub(console, 'log').callsFake((...args) => { });
+        fsExtra.emptyDirSync(tempDir);
+    });
+
+    afterEach(() => {
+        bsDebugger?.destroy();
+        bsDebugger = undefined;
+        sinon.restore();
+        fsExtra.removeSync(tempDir);
+    });
+
+    function createEntry(direction: RecordingEntry['direction'], data: Buffer = Buffer.alloc(0)): RecordingEntry {
+        return {
+            time: 0,
+            channel: 'controller',
+            direction: direction,
+            data: data.toString('base64')
+        };
+    }
+
+    function createMagic() {
+        return new SmartBuffer().writeStringNT(Debugger.DEBUGGER_MAGIC).toBuffer();
+    }
+
+    function createHandshake() {
+        return createHandShakeResponseV3({
+            magic: Debugger.DEBUGGER_MAGIC,
+            major: 3,
+            minor: 0,
+            patch: 0,
+            revisionTimeStamp: 0
+        }).toBuffer();
+    }
+
+    describe('DebugProtocolRecorder', () => {
+        let roku: MockDebugProtocolServer;
+
+        beforeEach(async () => {
+            roku = new MockDebugProtocolServer();
+            await roku.initialize();
+        });
+
+        afterEach(() => {
+            roku.destroy();
+        });
+
+        it('records the traffic in both directions', async () => {
+            const magicAction = roku.waitForMagic();
+            roku.sendHandshakeResponse(magicAction.promise);
+
+            bsDebugger = new Debugger({
+                host: 'localhost',
+                controllerPort: roku.controllerPort,
+                debugProtocolRecordingPath: recordingPath
+            });
+            void bsDebugger.connect();
+            void roku.processActions();
+            expect(await bsDebugger.once('handshake-verified')).to.be.true;
+
+            const replayer = DebugProtocolReplayer.fromFile(recordingPath);
+            expect(
+                replayer.entries.map(x => [x.channel, x.direction, Buffer.from(x.data, 'base64').toString('hex')])
+            ).to.eql([
+                ['controller', 'out', createMagic().toString('hex')],
+                ['controller', 'in', new SmartBuffer().writeStringNT(Debugger.DEBUGGER_MAGIC).writeInt32LE(2).writeInt32LE(0).writeInt32LE(0).toBuffer().toString('hex')]
+            ]);
+        });
+    });
+
+    describe('DebugProtocolReplayer', () => {
+        it('replays a recorded session with no device attached', async () => {
+            const replayer = new DebugProtocolReplayer([
+                createEntry('out', createMagic()),
+                createEntry('in', createHandshake()),
+                createEntry('out', new SmartBuffer().writeUInt32LE(12).writeUInt32LE(1).writeUInt32LE(COMMANDS.LIST_BREAKPOINTS).toBuffer()),
+                createEntry('in', createListBreakpointsResponse({
+                    requestId: 1,
+                    errorCode: ERROR_CODES.OK,
+                    breakpoints: [{ breakpointId: 3, errorCode: ERROR_CODES.OK, hitCount: 0 }]
+                }).toBuffer()),
+                createEntry('end')
+            ]);
+            bsDebugger = new Debugger({
+                host: undefined,
+                createSocket: replayer.createSocket
+            });
+            const appExitPromise = bsDebugger.once('app-exit');
+
+            expect(await bsDebugger.connect()).to.be.true;
+            expect(bsDebugger.protocolVersion).to.equal('3.0.0');
+
+            const response = await bsDebugger.listBreakpoints();
+            expect(response.breakpoints.map(x => x.breakpointId)).to.eql([3]);
+
+            await appExitPromise;
+            expect(replayer.isComplete).to.be.true;
+            expect(replayer.mismatches).to.eql([]);
+        });
+
+        it('tracks requests that do not match the recording', async () => {
+            const replayer = new DebugProtocolReplayer([
+                createEntry('out', Buffer.from('not the magic')),
+                createEntry('in', createHandshake())
+            ]);
+            bsDebugger = new Debugger({
+                host: undefined,
+                createSocket: replayer.createSocket
+            });
+
+            expect(await bsDebugger.connect()).to.be.true;
+            expect(replayer.mismatches.map(x => x.index)).to.eql([0]);
+        });
+    });
+});
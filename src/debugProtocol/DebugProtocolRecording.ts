@@ -0,0 +1,212 @@
+import * as fsExtra from 'fs-extra';
+import * as path from 'path';
+import type * as Net from 'net';
+import { EventEmitter } from 'events';
+import { logger } from '../logging';
+
+/**
+ * Writes every byte sent to and received from the device's controller and IO ports to a file, so the session can be replayed later.
+ * The file contains one json `RecordingEntry` per line.
+ */
+export class DebugProtocolRecorder {
+    constructor(
+        public filePath: string
+    ) {
+        fsExtra.ensureDirSync(path.dirname(filePath));
+        fsExtra.writeFileSync(filePath, '');
+    }
+
+    private startTime = Date.now();
+
+    /**
+     * Add an entry to the recording.
+     * This is written synchronously so the recording is still usable if the debug session crashes
+     */
+    public record(channel: RecordingChannel, direction: RecordingDirection, data?: Buffer) {
+        const entry: RecordingEntry = {
+            time: Date.now() - this.startTime,
+            channel: channel,
+            direction: direction,
+            data: data?.toString('base64') ?? ''
+        };
+        fsExtra.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    }
+}
+
+/**
+ * Plays a recording back to a `Debugger` with no device attached. Pass `replayer.createSocket` as the `createSocket` option of the `Debugger`
+ * (or the `DebugProtocolAdapter`). The first socket that connects is the controller port, and the second is the IO port.
+ *
+ * The replay is driven by the client rather than the recorded timestamps: all of the data the device sent is delivered right away,
+ * up until the next recorded client request. The rest of the data is held back until the client sends that request.
+ * This makes the replay deterministic, as long as the client sends the same requests in the same order as the original session.
+ */
+export class DebugProtocolReplayer extends EventEmitter {
+    constructor(
+        public entries: RecordingEntry[]
+    ) {
+        super();
+    }
+
+    /**
+     * Load a recording created by `DebugProtocolRecorder`
+     */
+    public static fromFile(filePath: string) {
+        const entries = fsExtra.readFileSync(filePath).toString()
+            .split(/\r?\n/)
+            .filter(x => x.trim() !== '')
+            .map(x => JSON.parse(x) as RecordingEntry);
+        return new DebugProtocolReplayer(entries);
+    }
+
+    private logger = logger.createLogger(`[${DebugProtocolReplayer.name}]`);
+
+    /**
+     * The index of the next entry to be replayed
+     */
+    private index = 0;
+
+    private sockets = {} as Partial<Record<RecordingChannel, ReplaySocket>>;
+
+    /**
+     * Every client write that did not match the recording. A non-empty list means the replay has diverged from the original session
+     */
+    public mismatches = [] as Array<{ index: number; expected: RecordingEntry; actual: string }>;
+
+    /**
+     * Has every entry in the recording been replayed
+     */
+    public get isComplete() {
+        return this.index >= this.entries.length;
+    }
+
+    /**
+     * Create a socket that is fed from this recording
+     */
+    public createSocket = () => {
+        return new ReplaySocket(this) as unknown as Net.Socket;
+    };
+
+    /**
+     * Called when a replay socket connects. Assigns the socket to the next unused channel
+     */
+    public connectSocket(socket: ReplaySocket) {
+        const channel: RecordingChannel = this.sockets.controller ? 'io' : 'controller';
+        this.sockets[channel] = socket;
+        this.logger.debug(`Replay socket connected to the ${channel} channel`);
+        this.schedulePump();
+    }
+
+    /**
+     * Called when the client writes to a replay socket
+     */
+    public handleWrite(socket: ReplaySocket, data: Buffer) {
+        const expected = this.entries[this.index];
+        const actual = data.toString('base64');
+        if (expected?.direction === 'out' && this.sockets[expected.channel] === socket) {
+            if (expected.data !== actual) {
+                this.logger.warn(`Client request does not match recording entry ${this.index}`, { expected: expected.data, actual: actual });
+                this.mismatches.push({ index: this.index, expected: expected, actual: actual });
+            }
+            this.index++;
+            this.schedulePump();
+        } else {
+            this.logger.warn(`Unexpected client request at recording entry ${this.index}`, { actual: actual });
+            this.mismatches.push({ index: this.index, expected: expected, actual: actual });
+        }
+    }
+
+    private isPumpScheduled = false;
+    private isCompleteEmitted = false;
+
+    private schedulePump() {
+        if (!this.isPumpScheduled) {
+            this.isPumpScheduled = true;
+            setImmediate(() => {
+                this.isPumpScheduled = false;
+                this.pump();
+            });
+        }
+    }
+
+    /**
+     * Send every recorded device entry up until the next client request (or until a channel that hasn't connected yet)
+     */
+    private pump() {
+        let entry: RecordingEntry;
+        while ((entry = this.entries[this.index]) && entry.direction !== 'out' && this.sockets[entry.channel]) {
+            this.index++;
+            const socket = this.sockets[entry.channel];
+            if (entry.direction === 'in') {
+                socket.emit('data', Buffer.from(entry.data, 'base64'));
+            } else {
+                socket.emit('end');
+            }
+        }
+        if (this.isComplete && !this.isCompleteEmitted) {
+            this.isCompleteEmitted = true;
+            this.emit('complete');
+        }
+    }
+}
+
+/**
+ * A stand-in for `net.Socket` that sends and receives data from a `DebugProtocolReplayer` instead of the network
+ */
+export class ReplaySocket extends EventEmitter {
+    constructor(
+        private replayer: DebugProtocolReplayer
+    ) {
+        super();
+    }
+
+    private isDestroyed = false;
+
+    public connect(options: unknown, callback?: () => void) {
+        process.nextTick(() => {
+            if (!this.isDestroyed) {
+                this.replayer.connectSocket(this);
+                callback?.();
+                this.emit('connect');
+            }
+        });
+        return this;
+    }
+
+    public write(data: Buffer) {
+        this.replayer.handleWrite(this, data);
+        return true;
+    }
+
+    public end() {
+        return this;
+    }
+
+    public destroy() {
+        this.isDestroyed = true;
+        return this;
+    }
+}
+
+/**
+ * The device port that the data was sent through
+ */
+export type RecordingChannel = 'controller' | 'io';
+
+/**
+ * `in` is data sent from the device, `out` is data sent to the device, and `end` is the device closing the connection
+ */
+export type RecordingDirection = 'in' | 'out' | 'end';
+
+export interface RecordingEntry {
+    /**
+     * The number of milliseconds since the recording started
+     */
+    time: number;
+    channel: RecordingChannel;
+    direction: RecordingDirection;
+    /**
+     * The base64-encoded bytes
+     */
+    data: string;
+}
@@ -0,0 +1,306 @@
+import { expect } from 'chai';
+import * as fsExtra from 'fs-extra';
+import { createSandbox } from 'sinon';
+import type { DebugProtocol } from 'vscode-debugprotocol';
+import { DebugSession } from 'vscode-debugadapter';
+import { Debugger } from './Debugger';
+import type { SimulatorScenario } from './DebugProtocolSimulator';
+import { DebugProtocolSimulator } from './DebugProtocolSimulator';
+import { BrightScriptDebugSession } from '../debugSession/BrightScriptDebugSession';
+import { standardizePath as s } from '../FileUtils';
+import { util } from '../util';
+const sinon = createSandbox();
+
+const tempDir = s`${process.cwd()}/.tmp`;
+const rootDir = s`${tempDir}/rootDir`;
+const stagingDir = s`${tempDir}/stagingDir`;
+
+describe('DebugProtocolSimulator', () => {
+    let simulator: DebugProtocolSimulator;
+    let bsDebugger: Debugger;
+
+    beforeEach(() => {
+        sinon.stub(console, 'log').callsFake((...args) => { });
+    });
+
+    afterEach(async () => {
+        bsDebugger?.destroy();
+        bsDebugger = undefined;
+        await simulator?.stop();
+        simulator = undefined;
+        sinon.restore();
+    });
+
+    const mainFrame = {
+        functionName: 'main',
+        fileName: 'pkg:/source/main.brs',
+        lineNumber: 4,
+        variables: [{
+            name: 'person',
+            type: 'AA',
+            children: [
+                { name: 'name', type: 'String', value: 'bob' },
+                { name: 'age', type: 'Integer', value: 42 }
+            ]
+        }, {
+            name: 'list',
+            type: 'Array',
+            children: [
+                { type: 'Boolean', value: true }
+            ]
+        }]
+    } as const;
+
+    function createScenario(overrides?: Partial<SimulatorScenario>): SimulatorScenario {
+        return {
+            protocolVersion: '3.1.0',
+            entry: {
+                threads: [{ frames: [{ functionName: 'main', fileName: 'pkg:/source/main.brs', lineNumber: 1 }] }]
+            },
+            stops: [{
+                reason: 'BREAK',
+                output: ['hello world'],
+                threads: [{
+                    codeSnippet: 'print person.name',
+                    frames: [
+                        { functionName: 'printName', fileName: 'pkg:/source/lib.brs', lineNumber: 2 },
+                        mainFrame as any
+                    ]
+                }]
+            }],
+            ...overrides
+        };
+    }
+
+    async function connect(scenario: SimulatorScenario) {
+        simulator = new DebugProtocolSimulator(scenario);
+        await simulator.start();
+        bsDebugger = new Debugger({
+            host: '127.0.0.1',
+            controllerPort: simulator.controllerPort
+        });
+        const suspendPromise = bsDebugger.once('suspend');
+        expect(await bsDebugger.connect()).to.be.true;
+        return suspendPromise;
+    }
+
+    it('speaks the v3 handshake and stops at the entry point', async () => {
+        await connect(createScenario());
+        expect(bsDebugger.protocolVersion).to.equal('3.1.0');
+        expect(bsDebugger.isStopped).to.be.true;
+
+        const threads = await bsDebugger.threads();
+        expect(threads.threads.map(x => [x.functionName, x.fileName, x.lineNumber, x.isPrimary])).to.eql([
+            ['main', 'pkg:/source/main.brs', 0, true]
+        ]);
+    });
+
+    it('speaks the v2 handshake', async () => {
+        await connect(createScenario({ protocolVersion: '2.0.0' }));
+        expect(bsDebugger.protocolVersion).to.equal('2.0.0');
+
+        const stackTrace = await bsDebugger.stackTrace(0);
+        expect(stackTrace.entries.map(x => [x.functionName, x.fileName])).to.eql([
+            ['main', 'pkg:/source/main.brs']
+        ]);
+    });
+
+    it('runs to a breakpoint and serves the stack trace and variables', async () => {
+        await connect(createScenario());
+        const outputPromise = bsDebugger.once('io-output');
+
+        const addResponse = await bsDebugger.addBreakpoints([{ filePath: 'pkg:/source/lib.brs', lineNumber: 2, componentLibraryName: undefined }]);
+        expect(addResponse.breakpoints.map(x => x.breakpointId)).to.eql([1]);
+        expect((await bsDebugger.listBreakpoints()).breakpoints.map(x => x.breakpointId)).to.eql([1]);
+
+        const suspendPromise = bsDebugger.once('suspend');
+        await bsDebugger.continue();
+        await suspendPromise;
+        expect(await outputPromise).to.equal('hello world');
+
+        const stackTrace = await bsDebugger.stackTrace(0);
+        expect(stackTrace.entries.map(x => [x.functionName, x.fileName, x.lineNumber])).to.eql([
+            ['printName', 'pkg:/source/lib.brs', 2],
+            ['main', 'pkg:/source/main.brs', 4]
+        ]);
+
+        //frame index 0 is the first function called (i.e. `main`)
+        let variables = await bsDebugger.getVariables([], true, 0, 0);
+        expect(variables.variables.map(x => x.name)).to.eql(['person', 'list']);
+
+        variables = await bsDebugger.getVariables(['PERSON'], true, 0, 0);
+        expect(variables.variables.map(x => [x.name, x.variableType, x.value])).to.eql([
+            ['person', 'AA', null],
+            ['name', 'String', 'bob'],
+            ['age', 'Integer', 42]
+        ]);
+        expect(variables.variables[0].elementCount).to.equal(2);
+
+        variables = await bsDebugger.getVariables(['list', '0'], true, 0, 0);
+        expect(variables.variables.map(x => [x.variableType, x.value])).to.eql([
+            ['Boolean', true]
+        ]);
+    });
+
+    it('skips BREAK stops that have no breakpoint', async () => {
+        await connect(createScenario());
+        const appExitPromise = bsDebugger.once('app-exit');
+        await bsDebugger.continue();
+        await appExitPromise;
+        expect(simulator.isStopped).to.be.false;
+    });
+
+    it('always stops at STOP statements and runtime errors', async () => {
+        await connect(createScenario({
+            stops: [{
+                reason: 'RUNTIME_ERROR',
+                reasonDetail: 'Type Mismatch.',
+                threads: [{ frames: [mainFrame as any] }]
+            }]
+        }));
+        const runtimeErrorPromise = bsDebugger.once('runtime-error');
+        await bsDebugger.continue();
+        expect(((await runtimeErrorPromise).data as any).stopReasonDetail).to.equal('Type Mismatch.');
+    });
+
+    it('ignores a breakpoint until its ignore count runs out', async () => {
+        const stop = createScenario().stops[0];
+        await connect(createScenario({ stops: [stop, stop] }));
+        await bsDebugger.addBreakpoints([{ filePath: 'pkg:/source/lib.brs', lineNumber: 2, hitCount: 1, componentLibraryName: undefined }]);
+
+        const suspendPromise = bsDebugger.once('suspend');
+        await bsDebugger.continue();
+        await suspendPromise;
+        expect(simulator['nextStopIndex']).to.equal(2);
+    });
+
+    it('removes breakpoints', async () => {
+        await connect(createScenario());
+        await bsDebugger.addBreakpoints([{ filePath: 'pkg:/source/lib.brs', lineNumber: 2, componentLibraryName: undefined }]);
+        const response = await bsDebugger.removeBreakpoints([1]);
+        expect(response.breakpoints.map(x => [x.breakpointId, x.errorCode])).to.eql([[1, 0]]);
+        expect(simulator.breakpoints).to.eql([]);
+    });
+
+    it('verifies breakpoints on protocol 3.2 and above', async () => {
+        await connect(createScenario({ protocolVersion: '3.2.0' }));
+        const verifiedPromise = bsDebugger.once('breakpoints-verified');
+        await bsDebugger.addBreakpoints([{ filePath: 'pkg:/source/lib.brs', lineNumber: 2, componentLibraryName: undefined }]);
+        expect((await verifiedPromise).breakpoints.map(x => x.breakpointId)).to.eql([1]);
+    });
+
+    it('executes code', async () => {
+        await connect(createScenario({
+            executeErrors: {
+                'print bad(': ['Syntax Error. (compile error &h02) in $LIVECOMPILE(1)']
+            }
+        }));
+        expect((await bsDebugger.executeCommand('print 1', 0, 0)).executeSuccess).to.be.true;
+
+        const response = await bsDebugger.executeCommand('print bad(', 0, 0);
+        expect(response.executeSuccess).to.be.false;
+        expect(response.compileErrors.messages).to.eql(['Syntax Error. (compile error &h02) in $LIVECOMPILE(1)']);
+    });
+
+    describe('BrightScriptDebugSession', () => {
+        let session: BrightScriptDebugSession;
+        let events: DebugProtocol.Event[];
+        let eventListeners: Array<(event: DebugProtocol.Event) => void>;
+
+        beforeEach(() => {
+            fsExtra.emptyDirSync(tempDir);
+            const mainBrs = 'sub main()\n    print "hello world"\n    printName({ name: "bob" })\nend sub';
+            const libBrs = 'sub printName(person)\n    print person.name\nend sub';
+            for (const dir of [rootDir, stagingDir]) {
+                fsExtra.outputFileSync(`${dir}/manifest`, '');
+                fsExtra.outputFileSync(`${dir}/source/main.brs`, mainBrs);
+                fsExtra.outputFileSync(`${dir}/source/lib.brs`, libBrs);
+            }
+
+            sinon.stub(util, 'dnsLookup').callsFake((host) => Promise.resolve(host));
+            session = new BrightScriptDebugSession();
+            events = [];
+            eventListeners = [];
+            sinon.stub(session, 'sendEvent').callsFake((event: DebugProtocol.Event) => {
+                events.push(event);
+                for (const listener of eventListeners) {
+                    listener(event);
+                }
+            });
+            sinon.stub(session, 'sendResponse').callsFake(() => { });
+            sinon.stub(session.rokuDeploy, 'pressHomeButton').returns(Promise.resolve(undefined));
+            sinon.stub(DebugSession.prototype, 'shutdown').returns(null);
+        });
+
+        afterEach(() => {
+            fsExtra.removeSync(tempDir);
+        });
+
+        /**
+         * Wait until the session has sent `count` events with this name (in total)
+         */
+        function waitForEvent(eventName: string, count: number) {
+            return new Promise<DebugProtocol.Event>((resolve) => {
+                const check = () => {
+                    const matches = events.filter(x => x.event === eventName);
+                    if (matches.length >= count) {
+                        resolve(matches[count - 1]);
+                    }
+                };
+                eventListeners.push(check);
+                check();
+            });
+        }
+
+        async function sendRequest<T extends DebugProtocol.Response>(requestName: string, args: any = {}) {
+            const stub = session.sendResponse as sinon.SinonStub;
+            const callCount = stub.callCount;
+            await session[requestName]({ body: {} }, args);
+            return stub.getCall(callCount)?.args[0] as T;
+        }
+
+        it('debugs a simulated channel end-to-end', async () => {
+            simulator = new DebugProtocolSimulator(createScenario());
+            await simulator.start();
+
+            await sendRequest('setBreakPointsRequest', {
+                source: { path: s`${rootDir}/source/lib.brs` },
+                breakpoints: [{ line: 2 }]
+            });
+
+            await session.attachRequest({} as any, {
+                rootDir: rootDir,
+                outDir: tempDir,
+                stagingFolderPath: stagingDir,
+                files: ['manifest', 'source/**/*'],
+                host: '127.0.0.1',
+                controllerPort: simulator.controllerPort,
+                enableDebugProtocol: true,
+                stopDebuggerOnAppExit: true
+            } as any);
+            await waitForEvent('stopped', 1);
+            expect(simulator.breakpoints.map(x => [x.filePath, x.lineNumber])).to.eql([['pkg:/source/lib.brs', 2]]);
+
+            await sendRequest('continueRequest', { threadId: 0 });
+            const stoppedEvent = await waitForEvent('stopped', 2) as DebugProtocol.StoppedEvent;
+            expect(stoppedEvent.body.reason).to.equal('breakpoint');
+
+            const stackTraceResponse = await sendRequest<DebugProtocol.StackTraceResponse>('stackTraceRequest', { threadId: stoppedEvent.body.threadId });
+            expect(stackTraceResponse.body.stackFrames.map(x => [x.name, s`${x.source.path}`, x.line])).to.eql([
+                ['printName', s`${rootDir}/source/lib.brs`, 2],
+                ['main', s`${rootDir}/source/main.brs`, 4]
+            ]);
+
+            const scopesResponse = await sendRequest<DebugProtocol.ScopesResponse>('scopesRequest', { frameId: stackTraceResponse.body.stackFrames[1].id });
+            const variablesResponse = await sendRequest<DebugProtocol.VariablesResponse>('variablesRequest', {
+                variablesReference: scopesResponse.body.scopes[0].variablesReference
+            });
+            expect(variablesResponse.body.variables.map(x => x.name)).to.include.members(['person', 'list']);
+
+            await sendRequest('continueRequest', { threadId: 0 });
+            await waitForEvent('terminated', 1);
+            //the entry stop and the breakpoint stop, each reported exactly once
+            expect(events.filter(x => x.event === 'stopped')).to.have.lengthOf(2);
+        });
+    });
+});
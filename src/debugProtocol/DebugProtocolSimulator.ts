@@ -0,0 +1,707 @@
+import * as Net from 'net';
+import * as fsExtra from 'fs-extra';
+import * as semver from 'semver';
+import { EventEmitter } from 'events';
+import { SmartBuffer } from 'smart-buffer';
+import { COMMANDS, ERROR_CODES, STOP_REASONS, UPDATE_TYPES, VARIABLE_FLAGS, VARIABLE_REQUEST_FLAGS, VARIABLE_TYPES } from './Constants';
+import { Debugger } from './Debugger';
+import { logger } from '../logging';
+
+/**
+ * A fake Roku device that speaks the BrightScript debug protocol, driven by a json `SimulatorScenario`.
+ * Point a `Debugger` (or the `DebugProtocolAdapter`, or a debug session's `controllerPort` launch option) at `simulator.controllerPort`
+ * to exercise the debugger end-to-end without any Roku hardware.
+ *
+ * The scenario is a scripted timeline of stops. When the client continues, the simulator moves to the next stop in the timeline.
+ * `BREAK` stops are only hit if the client has a breakpoint at that location, while `STOP_STATEMENT` and `RUNTIME_ERROR` stops are always hit.
+ * Steps always stop at the next stop in the timeline. Once the timeline runs out, the channel exits.
+ */
+export class DebugProtocolSimulator extends EventEmitter {
+    constructor(
+        public scenario: SimulatorScenario,
+        options?: {
+            /**
+             * The port the controller should listen on. Defaults to a random open port
+             */
+            controllerPort?: number;
+            /**
+             * The port the IO output should be served on. Defaults to a random open port
+             */
+            ioPort?: number;
+        }
+    ) {
+        super();
+        this.controllerPort = options?.controllerPort ?? 0;
+        this.ioPort = options?.ioPort ?? 0;
+        this.protocolVersion = semver.valid(scenario?.protocolVersion) ?? '3.1.0';
+    }
+
+    /**
+     * Load a scenario from a json file
+     */
+    public static fromFile(filePath: string, options?: ConstructorParameters<typeof DebugProtocolSimulator>[1]) {
+        const scenario = JSON.parse(
+            fsExtra.readFileSync(filePath).toString()
+        ) as SimulatorScenario;
+        return new DebugProtocolSimulator(scenario, options);
+    }
+
+    private logger = logger.createLogger(`[${DebugProtocolSimulator.name}]`);
+
+    /**
+     * The port the controller is listening on. This is only known after `start()` has resolved
+     */
+    public controllerPort: number;
+
+    /**
+     * The port the IO output is served on. This is only known after `start()` has resolved
+     */
+    public ioPort: number;
+
+    /**
+     * The protocol version this simulator reports in its handshake
+     */
+    public protocolVersion: string;
+
+    private controllerServer: Net.Server;
+    private ioServer: Net.Server;
+    private controllerSocket: Net.Socket;
+    private ioSocket: Net.Socket;
+
+    /**
+     * IO output written before the client connected to the IO port
+     */
+    private pendingOutput = [] as string[];
+
+    private unhandledData = Buffer.alloc(0);
+
+    private isHandshakeComplete = false;
+
+    /**
+     * Every request the client has sent, in the order they were received
+     */
+    public requests = [] as Array<{ requestId: number; command: COMMANDS }>;
+
+    /**
+     * The breakpoints the client has added (and not yet removed)
+     */
+    public breakpoints = [] as SimulatorBreakpoint[];
+
+    private nextBreakpointId = 1;
+
+    /**
+     * The index of the next stop in `scenario.stops` that the channel will run to
+     */
+    private nextStopIndex = 0;
+
+    /**
+     * The stop the channel is currently paused at, or undefined if it is running (or has exited)
+     */
+    public currentStop: SimulatorStop;
+
+    public get isStopped() {
+        return !!this.currentStop;
+    }
+
+    private get isV3() {
+        return semver.satisfies(this.protocolVersion, '>=3.0.0');
+    }
+
+    private get supportsBreakpointVerification() {
+        return semver.satisfies(this.protocolVersion, '>=3.2.0');
+    }
+
+    /**
+     * Start listening for a debugger client.
+     * @returns the controller port
+     */
+    public async start() {
+        this.ioServer = await this.listen(this.ioPort, (socket) => {
+            this.ioSocket = socket;
+            this.writeOutput(this.pendingOutput.splice(0));
+        });
+        this.ioPort = (this.ioServer.address() as Net.AddressInfo).port;
+
+        this.controllerServer = await this.listen(this.controllerPort, (socket) => {
+            this.logger.log('Client connected to the controller port');
+            this.controllerSocket = socket;
+            socket.on('data', (data) => {
+                this.unhandledData = Buffer.concat([this.unhandledData, data]);
+                this.processUnhandledData();
+            });
+        });
+        this.controllerPort = (this.controllerServer.address() as Net.AddressInfo).port;
+        return this.controllerPort;
+    }
+
+    private listen(port: number, onConnection: (socket: Net.Socket) => void) {
+        return new Promise<Net.Server>((resolve, reject) => {
+            const server = Net.createServer(onConnection);
+            server.once('error', reject);
+            server.listen(port, () => {
+                resolve(server);
+            });
+        });
+    }
+
+    /**
+     * Disconnect the client and stop listening
+     */
+    public async stop() {
+        this.ioSocket?.destroy();
+        this.controllerSocket?.destroy();
+        await Promise.all(
+            [this.ioServer, this.controllerServer].filter(x => x?.listening).map(server => {
+                return new Promise<void>((resolve) => {
+                    server.close(() => resolve());
+                });
+            })
+        );
+    }
+
+    private processUnhandledData() {
+        if (!this.isHandshakeComplete) {
+            const magicEnd = this.unhandledData.indexOf(0);
+            if (magicEnd < 0) {
+                return;
+            }
+            const magic = this.unhandledData.slice(0, magicEnd).toString();
+            this.unhandledData = this.unhandledData.slice(magicEnd + 1);
+            if (magic !== Debugger.DEBUGGER_MAGIC) {
+                this.logger.error('Client sent an invalid magic. Closing connection', magic);
+                this.controllerSocket.destroy();
+                return;
+            }
+            this.isHandshakeComplete = true;
+            this.sendHandshake();
+            this.sendUpdate(UPDATE_TYPES.IO_PORT_OPENED, new SmartBuffer().writeUInt32LE(this.ioPort));
+            this.writeOutput(this.scenario?.output);
+            if (this.scenario?.entry) {
+                this.writeOutput(this.scenario.entry.output);
+                this.suspend(this.scenario.entry);
+            } else {
+                this.run(false);
+            }
+        }
+
+        //every request starts with packet_length, request_id and command_code
+        while (this.isHandshakeComplete && this.unhandledData.length >= 12) {
+            const packetLength = this.unhandledData.readUInt32LE(0);
+            if (this.unhandledData.length < packetLength) {
+                return;
+            }
+            const reader = SmartBuffer.fromBuffer(this.unhandledData.slice(0, packetLength));
+            this.unhandledData = this.unhandledData.slice(packetLength);
+            reader.readUInt32LE(); // packet_length
+            const requestId = reader.readUInt32LE(); // request_id
+            const command = reader.readUInt32LE() as COMMANDS; // command_code
+            this.requests.push({ requestId: requestId, command: command });
+            this.logger.debug('Received request', { requestId: requestId, command: COMMANDS[command] });
+            this.handleRequest(requestId, command, reader);
+        }
+    }
+
+    private handleRequest(requestId: number, command: COMMANDS, reader: SmartBuffer) {
+        switch (command) {
+            case COMMANDS.STOP:
+                return this.sendResponse(requestId, ERROR_CODES.OK);
+            case COMMANDS.CONTINUE:
+                if (!this.isStopped) {
+                    return this.sendResponse(requestId, ERROR_CODES.NOT_STOPPED);
+                }
+                this.sendResponse(requestId, ERROR_CODES.OK);
+                return this.run(false);
+            case COMMANDS.STEP:
+                if (!this.isStopped) {
+                    return this.sendResponse(requestId, ERROR_CODES.NOT_STOPPED);
+                }
+                this.sendResponse(requestId, ERROR_CODES.OK);
+                return this.run(true);
+            case COMMANDS.EXIT_CHANNEL:
+                this.sendResponse(requestId, ERROR_CODES.OK);
+                return this.exit();
+            case COMMANDS.THREADS:
+                return this.handleThreadsRequest(requestId);
+            case COMMANDS.STACKTRACE:
+                return this.handleStackTraceRequest(requestId, reader);
+            case COMMANDS.VARIABLES:
+                return this.handleVariablesRequest(requestId, reader);
+            case COMMANDS.EXECUTE:
+                return this.handleExecuteRequest(requestId, reader);
+            case COMMANDS.ADD_BREAKPOINTS:
+                return this.handleAddBreakpointsRequest(requestId, reader, false);
+            case COMMANDS.ADD_CONDITIONAL_BREAKPOINTS:
+                return this.handleAddBreakpointsRequest(requestId, reader, true);
+            case COMMANDS.LIST_BREAKPOINTS:
+                return this.sendBreakpointsResponse(requestId, this.breakpoints);
+            case COMMANDS.REMOVE_BREAKPOINTS:
+                return this.handleRemoveBreakpointsRequest(requestId, reader);
+            default:
+                return this.sendResponse(requestId, ERROR_CODES.UNDEFINED_COMMAND);
+        }
+    }
+
+    private handleThreadsRequest(requestId: number) {
+        if (!this.isStopped) {
+            return this.sendResponse(requestId, ERROR_CODES.NOT_STOPPED);
+        }
+        const buffer = new SmartBuffer();
+        buffer.writeUInt32LE(this.currentStop.threads.length); // threads_count
+        for (let i = 0; i < this.currentStop.threads.length; i++) {
+            const thread = this.currentStop.threads[i];
+            const frame = thread.frames?.[0];
+            buffer.writeUInt32LE(i === (this.currentStop.primaryThreadIndex ?? 0) ? 0x01 : 0); // flags
+            buffer.writeUInt8(STOP_REASONS[thread.stopReason ?? this.currentStop.reason ?? 'BREAK']); // stop_reason
+            buffer.writeStringNT(thread.stopReasonDetail ?? this.currentStop.reasonDetail ?? ''); // stop_reason_detail
+            //thread line numbers are 0-based (unlike the stack trace line numbers)
+            buffer.writeUInt32LE(Math.max((frame?.lineNumber ?? 1) - 1, 0)); // line_number
+            buffer.writeStringNT(frame?.functionName ?? ''); // function_name
+            buffer.writeStringNT(frame?.fileName ?? '??'); // file_path
+            //the client ignores threads with empty code snippets
+            buffer.writeStringNT(thread.codeSnippet ?? '??'); // code_snippet
+        }
+        this.sendResponse(requestId, ERROR_CODES.OK, buffer);
+    }
+
+    private handleStackTraceRequest(requestId: number, reader: SmartBuffer) {
+        const thread = this.currentStop?.threads[reader.readUInt32LE()]; // thread_index
+        if (!thread) {
+            return this.sendResponse(requestId, this.isStopped ? ERROR_CODES.INVALID_ARGS : ERROR_CODES.NOT_STOPPED);
+        }
+        const buffer = new SmartBuffer();
+        buffer.writeUInt32LE(thread.frames.length); // stack_size
+        for (const frame of thread.frames) {
+            buffer.writeUInt32LE(frame.lineNumber); // line_number
+            //v3 devices send the function name first
+            if (this.isV3) {
+                buffer.writeStringNT(frame.functionName); // function_name
+                buffer.writeStringNT(frame.fileName); // file_path
+            } else {
+                buffer.writeStringNT(frame.fileName); // file_path
+                buffer.writeStringNT(frame.functionName); // function_name
+            }
+        }
+        this.sendResponse(requestId, ERROR_CODES.OK, buffer);
+    }
+
+    private handleVariablesRequest(requestId: number, reader: SmartBuffer) {
+        const flags = reader.readUInt8(); // variable_request_flags
+        const thread = this.currentStop?.threads[reader.readUInt32LE()]; // thread_index
+        const stackFrameIndex = reader.readUInt32LE(); // stack_frame_index
+        const pathLength = reader.readUInt32LE(); // variable_path_len
+        const path = [] as string[];
+        for (let i = 0; i < pathLength; i++) {
+            path.push(reader.readStringNT()); // variable_path_entries
+        }
+        //1 means case-insensitive, 0 means case-sensitive. Older clients don't send this, and all of their lookups are case-insensitive
+        // eslint-disable-next-line no-bitwise
+        const caseInsensitive = path.map(() => ((flags & VARIABLE_REQUEST_FLAGS.CASE_SENSITIVITY_OPTIONS) ? reader.readUInt8() === 1 : true));
+
+        //stack_frame_index 0 is the first function called, which is the last frame in the stack trace
+        const frame = thread?.frames[thread.frames.length - 1 - stackFrameIndex];
+        if (!frame) {
+            return this.sendResponse(requestId, this.isStopped ? ERROR_CODES.INVALID_ARGS : ERROR_CODES.NOT_STOPPED);
+        }
+
+        const buffer = new SmartBuffer();
+        if (path.length === 0) {
+            //this is a scope request, so return every variable in the frame
+            const variables = frame.variables ?? [];
+            buffer.writeUInt32LE(variables.length); // num_variables
+            for (const variable of variables) {
+                this.writeVariable(buffer, variable, false);
+            }
+        } else {
+            let variable: SimulatorVariable = { name: '', type: 'AA', children: frame.variables ?? [] };
+            for (let i = 0; i < path.length; i++) {
+                variable = this.findChild(variable, path[i], caseInsensitive[i]);
+                if (!variable) {
+                    return this.sendResponse(requestId, ERROR_CODES.INVALID_ARGS);
+                }
+            }
+            // eslint-disable-next-line no-bitwise
+            const children = (flags & VARIABLE_REQUEST_FLAGS.GET_CHILD_KEYS) ? variable.children ?? [] : [];
+            buffer.writeUInt32LE(children.length + 1); // num_variables
+            this.writeVariable(buffer, variable, false);
+            for (const child of children) {
+                this.writeVariable(buffer, child, true, !this.hasIntegerKeys(variable));
+            }
+        }
+        this.sendResponse(requestId, ERROR_CODES.OK, buffer);
+    }
+
+    private hasIntegerKeys(variable: SimulatorVariable) {
+        return variable.type === 'Array' || variable.type === 'List';
+    }
+
+    private findChild(parent: SimulatorVariable, key: string, caseInsensitive: boolean) {
+        if (this.hasIntegerKeys(parent)) {
+            return parent.children?.[parseInt(key)];
+        }
+        return parent.children?.find(x => {
+            return caseInsensitive ? x.name?.toLowerCase() === key.toLowerCase() : x.name === key;
+        });
+    }
+
+    private writeVariable(buffer: SmartBuffer, variable: SimulatorVariable, isChildKey: boolean, includeName = true) {
+        const type = VARIABLE_TYPES[variable.type];
+        const isContainer = !!variable.children;
+        let flags = 0;
+        /* eslint-disable no-bitwise */
+        if (isChildKey) {
+            flags |= VARIABLE_FLAGS.isChildKey;
+        }
+        if (isContainer) {
+            flags |= VARIABLE_FLAGS.isContainer;
+        } else {
+            flags |= VARIABLE_FLAGS.isValueHere;
+        }
+        if (includeName) {
+            flags |= VARIABLE_FLAGS.isNameHere;
+        }
+        /* eslint-enable no-bitwise */
+        buffer.writeUInt8(flags); // flags
+        buffer.writeUInt8(type); // variable_type
+        if (includeName) {
+            buffer.writeStringNT(variable.name ?? ''); // name
+        }
+        if (isContainer) {
+            buffer.writeUInt8(this.hasIntegerKeys(variable) ? VARIABLE_TYPES.Integer : VARIABLE_TYPES.String); // key_type
+            buffer.writeUInt32LE(variable.children.length); // element_count
+        }
+        switch (type) {
+            case VARIABLE_TYPES.Interface:
+            case VARIABLE_TYPES.Object:
+            case VARIABLE_TYPES.String:
+            case VARIABLE_TYPES.Subroutine:
+            case VARIABLE_TYPES.Function:
+                buffer.writeStringNT(String(variable.value ?? ''));
+                break;
+            case VARIABLE_TYPES.Subtyped_Object: {
+                //the value is the type and the subtype, separated by a semicolon (i.e. `roSGNode; Node`)
+                const [objectType, subtype] = String(variable.value ?? '').split(/;\s*/);
+                buffer.writeStringNT(objectType ?? '');
+                buffer.writeStringNT(subtype ?? '');
+                break;
+            }
+            case VARIABLE_TYPES.Boolean:
+                buffer.writeUInt8(variable.value ? 1 : 0);
+                break;
+            case VARIABLE_TYPES.Double:
+                buffer.writeDoubleLE(Number(variable.value ?? 0));
+                break;
+            case VARIABLE_TYPES.Float:
+                buffer.writeFloatLE(Number(variable.value ?? 0));
+                break;
+            case VARIABLE_TYPES.Integer:
+                buffer.writeInt32LE(Number(variable.value ?? 0));
+                break;
+            case VARIABLE_TYPES.Long_Integer:
+                buffer.writeBigInt64LE(BigInt(variable.value ?? 0));
+                break;
+            default:
+                //containers, invalid and uninitialized values have no value
+                break;
+        }
+    }
+
+    private handleExecuteRequest(requestId: number, reader: SmartBuffer) {
+        if (!this.isStopped) {
+            return this.sendResponse(requestId, ERROR_CODES.NOT_STOPPED);
+        }
+        reader.readUInt32LE(); // thread_index
+        reader.readUInt32LE(); // stack_frame_index
+        const sourceCode = reader.readStringNT(); // source_code
+        const errors = this.scenario?.executeErrors?.[sourceCode] ?? [];
+
+        const buffer = new SmartBuffer();
+        buffer.writeUInt8(errors.length === 0 ? 1 : 0); // execute_success
+        buffer.writeUInt8(0); // runtime_stop_code
+        buffer.writeUInt32LE(errors.length); // num_compile_errors
+        for (const error of errors) {
+            buffer.writeStringNT(error); // compile_errors
+        }
+        buffer.writeUInt32LE(0); // num_runtime_errors
+        buffer.writeUInt32LE(0); // num_other_errors
+        this.sendResponse(requestId, ERROR_CODES.OK, buffer);
+    }
+
+    private handleAddBreakpointsRequest(requestId: number, reader: SmartBuffer, isConditional: boolean) {
+        if (isConditional) {
+            reader.readUInt32LE(); // flags
+        }
+        const count = reader.readUInt32LE(); // num_breakpoints
+        const added = [] as SimulatorBreakpoint[];
+        for (let i = 0; i < count; i++) {
+            const breakpoint: SimulatorBreakpoint = {
+                id: this.nextBreakpointId++,
+                filePath: reader.readStringNT(), // file_path
+                lineNumber: reader.readUInt32LE(), // line_number
+                ignoreCount: reader.readUInt32LE() // ignore_count
+            };
+            if (isConditional) {
+                breakpoint.conditionalExpression = reader.readStringNT(); // cond_expr
+            }
+            added.push(breakpoint);
+        }
+        this.breakpoints.push(...added);
+        this.sendBreakpointsResponse(requestId, added);
+
+        if (this.supportsBreakpointVerification && added.length > 0) {
+            const buffer = new SmartBuffer();
+            buffer.writeUInt32LE(0); // flags
+            buffer.writeUInt32LE(added.length); // num_breakpoints
+            for (const breakpoint of added) {
+                buffer.writeUInt32LE(breakpoint.id); // breakpoint_id
+            }
+            this.sendUpdate(UPDATE_TYPES.BREAKPOINT_VERIFIED, buffer);
+        }
+    }
+
+    private handleRemoveBreakpointsRequest(requestId: number, reader: SmartBuffer) {
+        const count = reader.readUInt32LE(); // num_breakpoints
+        const removed = [] as Array<SimulatorBreakpoint & { errorCode?: ERROR_CODES }>;
+        for (let i = 0; i < count; i++) {
+            const id = reader.readUInt32LE(); // breakpoint_ids
+            const index = this.breakpoints.findIndex(x => x.id === id);
+            if (index >= 0) {
+                removed.push(...this.breakpoints.splice(index, 1));
+            } else {
+                removed.push({ id: id, errorCode: ERROR_CODES.INVALID_ARGS, filePath: undefined, lineNumber: undefined, ignoreCount: 0 });
+            }
+        }
+        this.sendBreakpointsResponse(requestId, removed);
+    }
+
+    private sendBreakpointsResponse(requestId: number, breakpoints: Array<SimulatorBreakpoint & { errorCode?: ERROR_CODES }>) {
+        const buffer = new SmartBuffer();
+        buffer.writeUInt32LE(breakpoints.length); // num_breakpoints
+        for (const breakpoint of breakpoints) {
+            buffer.writeUInt32LE(breakpoint.id); // breakpoint_id
+            buffer.writeUInt32LE(breakpoint.errorCode ?? ERROR_CODES.OK); // error_code
+            buffer.writeUInt32LE(breakpoint.ignoreCount); // ignore_count
+        }
+        this.sendResponse(requestId, ERROR_CODES.OK, buffer);
+    }
+
+    /**
+     * Run the channel to the next stop in the timeline, or exit the channel if there are no more stops
+     * @param isStepping if true, stop at the next stop even if there is no breakpoint there
+     */
+    private run(isStepping: boolean) {
+        this.currentStop = undefined;
+        const stops = this.scenario?.stops ?? [];
+        while (this.nextStopIndex < stops.length) {
+            const stop = stops[this.nextStopIndex++];
+            this.writeOutput(stop.output);
+            if (isStepping || this.shouldStop(stop)) {
+                return this.suspend(stop);
+            }
+        }
+        this.exit();
+    }
+
+    /**
+     * Determine whether the channel should stop at this stop (i.e. a breakpoint is set there, or it's not a breakpoint stop)
+     */
+    private shouldStop(stop: SimulatorStop) {
+        if ((stop.reason ?? 'BREAK') !== 'BREAK') {
+            return true;
+        }
+        const frame = stop.threads[stop.primaryThreadIndex ?? 0]?.frames[0];
+        const breakpoint = this.breakpoints.find(x => {
+            //complib breakpoints are prefixed with `lib:/<libName>/` instead of `pkg:/`
+            const filePath = x.filePath?.toLowerCase().replace(/^lib:\/[^/]+\//, 'pkg:/');
+            return filePath === frame?.fileName?.toLowerCase() && x.lineNumber === frame?.lineNumber;
+        });
+        //conditional expressions are not evaluated, so conditional breakpoints are always hit
+        if (breakpoint?.ignoreCount > 0) {
+            breakpoint.ignoreCount--;
+            return false;
+        }
+        return !!breakpoint;
+    }
+
+    private suspend(stop: SimulatorStop) {
+        this.currentStop = stop;
+        const buffer = new SmartBuffer();
+        buffer.writeInt32LE(stop.primaryThreadIndex ?? 0); // primary_thread_index
+        buffer.writeUInt8(STOP_REASONS[stop.reason ?? 'BREAK']); // stop_reason
+        buffer.writeStringNT(stop.reasonDetail ?? ''); // stop_reason_detail
+        this.sendUpdate(UPDATE_TYPES.ALL_THREADS_STOPPED, buffer);
+        this.emit('suspend', stop);
+    }
+
+    /**
+     * Exit the channel, which closes the connections to the client
+     */
+    private exit() {
+        this.logger.log('Channel exited');
+        this.currentStop = undefined;
+        this.ioSocket?.end();
+        this.controllerSocket?.end();
+        this.emit('exit');
+    }
+
+    private writeOutput(lines: string[]) {
+        if (!lines?.length) {
+            return;
+        }
+        if (this.ioSocket) {
+            this.ioSocket.write(lines.join('\n') + '\n');
+        } else {
+            this.pendingOutput.push(...lines);
+        }
+    }
+
+    private sendHandshake() {
+        const version = semver.parse(this.protocolVersion);
+        const buffer = new SmartBuffer();
+        buffer.writeStringNT(Debugger.DEBUGGER_MAGIC); // magic_number
+        buffer.writeUInt32LE(version.major); // protocol_major_version
+        buffer.writeUInt32LE(version.minor); // protocol_minor_version
+        buffer.writeUInt32LE(version.patch); // protocol_patch_version
+        if (this.isV3) {
+            buffer.writeUInt32LE(12); // remaining_packet_length
+            buffer.writeBigInt64LE(BigInt(Date.now())); // platform_revision_timestamp
+        }
+        this.controllerSocket.write(buffer.toBuffer());
+    }
+
+    private sendResponse(requestId: number, errorCode: ERROR_CODES, data?: SmartBuffer) {
+        const buffer = new SmartBuffer();
+        buffer.writeUInt32LE(requestId); // request_id
+        buffer.writeUInt32LE(errorCode); // error_code
+        if (data && errorCode === ERROR_CODES.OK) {
+            buffer.writeBuffer(data.toBuffer());
+        }
+        this.send(buffer);
+    }
+
+    private sendUpdate(updateType: UPDATE_TYPES, data: SmartBuffer) {
+        const buffer = new SmartBuffer();
+        buffer.writeUInt32LE(0); // request_id
+        buffer.writeUInt32LE(ERROR_CODES.OK); // error_code
+        buffer.writeUInt32LE(updateType); // update_type
+        buffer.writeBuffer(data.toBuffer());
+        this.send(buffer);
+    }
+
+    private send(buffer: SmartBuffer) {
+        //v3 packets are prefixed with the length of the whole packet
+        if (this.isV3) {
+            buffer.insertUInt32LE(buffer.length + 4, 0); // packet_length
+        }
+        if (this.controllerSocket?.writable) {
+            this.controllerSocket.write(buffer.toBuffer());
+        }
+    }
+}
+
+export interface SimulatorScenario {
+    /**
+     * The protocol version reported in the handshake. Versions below 3.0.0 use the v2 handshake and packet format.
+     * Defaults to `3.1.0`
+     */
+    protocolVersion?: string;
+    /**
+     * Lines written to the IO port as soon as the client connects
+     */
+    output?: string[];
+    /**
+     * The stop the channel is paused at as soon as the client connects (i.e. the entry breakpoint).
+     * If omitted, the channel immediately runs to the first stop in `stops`
+     */
+    entry?: SimulatorStop;
+    /**
+     * The timeline of places the channel will stop, in order
+     */
+    stops?: SimulatorStop[];
+    /**
+     * The compile errors returned for `EXECUTE` requests, keyed by the exact source code. Every other execute request succeeds
+     */
+    executeErrors?: Record<string, string[]>;
+}
+
+export interface SimulatorStop {
+    /**
+     * Why the channel stopped. `BREAK` stops are only hit if the client has a breakpoint at the primary thread's current location.
+     * Defaults to `BREAK`
+     */
+    reason?: SimulatorStopReason;
+    /**
+     * Extra details about the stop, such as the runtime error message
+     */
+    reasonDetail?: string;
+    /**
+     * The index of the thread that caused the stop. Defaults to 0
+     */
+    primaryThreadIndex?: number;
+    /**
+     * Lines written to the IO port when the channel reaches this point (whether or not it actually stops here)
+     */
+    output?: string[];
+    threads: SimulatorThread[];
+}
+
+export type SimulatorStopReason = 'BREAK' | 'STOP_STATEMENT' | 'RUNTIME_ERROR';
+
+export interface SimulatorThread {
+    /**
+     * The stack frames for this thread, with the current function first
+     */
+    frames: SimulatorFrame[];
+    /**
+     * The source code at the thread's current location
+     */
+    codeSnippet?: string;
+    /**
+     * Defaults to the stop's reason
+     */
+    stopReason?: SimulatorStopReason;
+    /**
+     * Defaults to the stop's reason detail
+     */
+    stopReasonDetail?: string;
+}
+
+export interface SimulatorFrame {
+    functionName: string;
+    /**
+     * The device path to the file (i.e. `pkg:/source/main.brs`)
+     */
+    fileName: string;
+    /**
+     * The 1-based line number
+     */
+    lineNumber: number;
+    /**
+     * The local variables in scope for this frame
+     */
+    variables?: SimulatorVariable[];
+}
+
+export interface SimulatorVariable {
+    /**
+     * The variable name (or AA key). Ignored for array items
+     */
+    name?: string;
+    type: keyof typeof VARIABLE_TYPES;
+    /**
+     * The value for scalar types. `Object` values are the component name (i.e. `roDateTime`),
+     * and `Subtyped_Object` values are the component name and subtype separated by a semicolon (i.e. `roSGNode; Node`)
+     */
+    value?: string | number | boolean;
+    /**
+     * Variables with children are containers. `Array` and `List` children are keyed by index, and all others are keyed by name
+     */
+    children?: SimulatorVariable[];
+}
+
+export interface SimulatorBreakpoint {
+    id: number;
+    filePath: string;
+    lineNumber: number;
+    ignoreCount: number;
+    conditionalExpression?: string;
+}
@@ -29,6 +29,7 @@ import { util } from '../util';
 import { BreakpointErrorUpdateResponse } from './responses/BreakpointErrorUpdateResponse';
 import type { VerifiedBreakpointsData } from './responses/BreakpointVerifiedUpdateResponse';
 import { BreakpointVerifiedUpdateResponse } from './responses/BreakpointVerifiedUpdateResponse';
+import { DebugProtocolRecorder } from './DebugProtocolRecording';
 
 export class Debugger {
 
@@ -50,6 +51,9 @@ export class Debugger {
             //override the defaults with the options from parameters
             ...options ?? {}
         };
+        if (this.options.debugProtocolRecordingPath) {
+            this.recorder = new DebugProtocolRecorder(this.options.debugProtocolRecordingPath);
+        }
     }
     public static DEBUGGER_MAGIC = 'bsdebug'; // 64-bit = [b'bsdebug\0' little-endian]
 
@@ -69,6 +73,25 @@ export class Debugger {
     private totalRequests = 0;
     private activeRequests = {};
     private options: ConstructorOptions;
+    /**
+     * Records all of the traffic to and from the device (only set when `debugProtocolRecordingPath` is enabled)
+     */
+    private recorder: DebugProtocolRecorder;
+
+    /**
+     * Create a new socket for talking to the device. This can be overridden (i.e. to replay a recorded session)
+     */
+    private createSocket() {
+        return this.options.createSocket?.() ?? new Net.Socket();
+    }
+
+    /**
+     * Send data to the device through the controller port
+     */
+    private writeToController(buffer: Buffer) {
+        this.recorder?.record('controller', 'out', buffer);
+        this.controllerClient.write(buffer);
+    }
 
     /**
      * Prior to protocol v3.1.0, the Roku device would regularly set the wrong thread as "active",
@@ -156,7 +179,7 @@ export class Debugger {
         const pendingSockets = new Set<Net.Socket>();
         const connection = await new Promise<Net.Socket>((resolve) => {
             util.setInterval((cancelInterval) => {
-                const socket = new Net.Socket();
+                const socket = this.createSocket();
                 pendingSockets.add(socket);
                 socket.on('error', (error) => {
                     console.debug(Date.now(), 'Encountered an error connecting to the debug protocol socket. Ignoring and will try again soon', error);
@@ -189,6 +212,7 @@ export class Debugger {
         this.controllerClient = await this.establishControllerConnection();
 
         this.controllerClient.on('data', (buffer) => {
+            this.recorder?.record('controller', 'in', buffer);
             if (this.unhandledData) {
                 this.unhandledData = Buffer.concat([this.unhandledData, buffer]);
             } else {
@@ -205,6 +229,7 @@ export class Debugger {
         });
 
         this.controllerClient.on('end', () => {
+            this.recorder?.record('controller', 'end');
             this.logger.log('TCP connection closed');
             this.shutdown('app-exit');
         });
@@ -227,7 +252,7 @@ export class Debugger {
     private sendMagic() {
         let buffer = new SmartBuffer({ size: Buffer.byteLength(Debugger.DEBUGGER_MAGIC) + 1 }).writeStringNT(Debugger.DEBUGGER_MAGIC).toBuffer();
         this.logger.log('Sending magic to server');
-        this.controllerClient.write(buffer);
+        this.writeToController(buffer);
     }
 
     public async continue() {
@@ -458,7 +483,7 @@ export class Debugger {
 
             this.logger.debug('makeRequest', `requestId=${requestId}`, this.activeRequests[requestId]);
             if (this.controllerClient) {
-                this.controllerClient.write(buffer.toBuffer());
+                this.writeToController(buffer.toBuffer());
             } else {
                 throw new Error(`Controller connection was closed - Command: ${COMMANDS[command]}`);
             }
@@ -649,7 +674,7 @@ export class Debugger {
         this.logger.log('Connecting to IO port. response status success =', connectIoPortResponse.success);
         if (connectIoPortResponse.success) {
             // Create a new TCP client.
-            this.ioClient = new Net.Socket();
+            this.ioClient = this.createSocket();
             // Send a connection request to the server.
             this.logger.log('Connect to IO Port: port', connectIoPortResponse.data, 'host', this.options.host);
             this.ioClient.connect({ port: connectIoPortResponse.data, host: this.options.host }, () => {
@@ -659,6 +684,7 @@ export class Debugger {
 
                 let lastPartialLine = '';
                 this.ioClient.on('data', (buffer) => {
+                    this.recorder?.record('io', 'in', buffer);
                     let responseText = buffer.toString();
                     if (!responseText.endsWith('\n')) {
                         // buffer was split, save the partial line
@@ -675,6 +701,7 @@ export class Debugger {
                 });
 
                 this.ioClient.on('end', () => {
+                    this.recorder?.record('io', 'end');
                     this.ioClient.end();
                     this.logger.log('Requested an end to the IO connection');
                 });
@@ -780,4 +807,12 @@ export interface ConstructorOptions {
      * This is here to prevent infinitely pinging the Roku device.
      */
     controllerConnectMaxTime?: number;
+    /**
+     * If specified, every byte sent to and received from the device is written to this file, so the session can be replayed later using `DebugProtocolReplayer`
+     */
+    debugProtocolRecordingPath?: string;
+    /**
+     * Create the sockets used to talk to the device. Defaults to `new net.Socket()`. This is used to replay recorded sessions with no device attached
+     */
+    createSocket?: () => Net.Socket;
 }
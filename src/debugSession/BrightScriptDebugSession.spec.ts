@@ -8,8 +8,8 @@ import { DebugSession } from 'vscode-debugadapter';
 import { BrightScriptDebugSession } from './BrightScriptDebugSession';
 import { fileUtils } from '../FileUtils';
 import type { EvaluateContainer, StackFrame, TelnetAdapter } from '../adapters/TelnetAdapter';
-import { PrimativeType } from '../adapters/TelnetAdapter';
-import { defer } from '../util';
+import { KeyType, PrimativeType } from '../adapters/TelnetAdapter';
+import { defer, util } from '../util';
 import { HighLevelType } from '../interfaces';
 import type { LaunchConfiguration } from '../LaunchConfiguration';
 import type { SinonStub } from 'sinon';
@@ -17,6 +17,9 @@ import { util as bscUtil, standardizePath as s } from 'brighterscript';
 import { DefaultFiles } from 'roku-deploy';
 import type { AddProjectParams, ComponentLibraryConstructorParams } from '../managers/ProjectManager';
 import { ComponentLibraryProject, Project } from '../managers/ProjectManager';
+import { RendezvousTracker } from '../RendezvousTracker';
+import { SceneGraphDebugCommandController } from '../SceneGraphDebugCommandController';
+import { EcpClient } from '../EcpClient';
 
 const sinon = sinonActual.createSandbox();
 const tempDir = s`${__dirname}/../../.tmp`;
@@ -100,6 +103,7 @@ describe('BrightScriptDebugSession', () => {
             activate: () => Promise.resolve(),
             registerSourceLocator: (a, b) => { },
             setConsoleOutput: (a) => { },
+            setChanperfThresholds: (a) => { },
             evaluate: () => { },
             syncBreakpoints: () => { },
             getVariable: () => { },
@@ -421,6 +425,83 @@ describe('BrightScriptDebugSession', () => {
         });
     });
 
+    describe('exception breakpoints', () => {
+        it('breaks on all runtime errors by default', async () => {
+            expect(await session['shouldBreakOnRuntimeError'](1)).to.be.true;
+        });
+
+        it('only breaks on runtime errors in Task threads when that filter is selected', async () => {
+            session['setExceptionBreakPointsRequest']({} as DebugProtocol.SetExceptionBreakpointsResponse, {
+                filters: ['taskRuntimeErrors']
+            });
+            sinon.stub(rokuAdapter, 'getStackTrace').returns(Promise.resolve([
+                { filePath: 'pkg:/components/LoaderTask.brs' },
+                { filePath: 'pkg:/components/TaskRoot.brs' }
+            ] as any));
+            const stub = sinon.stub(session.projectManager, 'isTaskScript').callsFake((filePath) => {
+                return Promise.resolve(filePath === 'pkg:/components/TaskRoot.brs');
+            });
+            expect(await session['shouldBreakOnRuntimeError'](1)).to.be.true;
+
+            stub.callsFake(() => Promise.resolve(false));
+            expect(await session['shouldBreakOnRuntimeError'](1)).to.be.false;
+        });
+
+        it('does not break on runtime errors when no filters are selected', async () => {
+            session['setExceptionBreakPointsRequest']({} as DebugProtocol.SetExceptionBreakpointsResponse, {
+                filters: []
+            });
+            expect(await session['shouldBreakOnRuntimeError'](1)).to.be.false;
+        });
+
+        it('detects STOP statements that are not breakpoints', async () => {
+            fsExtra.outputFileSync(s`${stagingDir}/source/main.brs`, [
+                'sub main()',
+                '    STOP \' stop here',
+                '    print "stop"',
+                'end sub'
+            ].join('\n'));
+            session.projectManager.mainProject = new Project({
+                rootDir: rootDir,
+                outDir: outDir,
+                stagingFolderPath: stagingDir,
+                files: []
+            });
+            expect(await session['isStopStatement']({ filePath: 'pkg:/source/main.brs', lineNumber: 2 })).to.be.true;
+            expect(await session['isStopStatement']({ filePath: 'pkg:/source/main.brs', lineNumber: 3 })).to.be.false;
+
+            sinon.stub(session.breakpointManager, 'lineHasBreakpoint').returns(Promise.resolve(true));
+            expect(await session['isStopStatement']({ filePath: 'pkg:/source/main.brs', lineNumber: 2 })).to.be.false;
+        });
+
+        it('uses the stop reason from the device for debug protocol STOP statements', async () => {
+            launchConfiguration.enableDebugProtocol = true;
+            //STOP statements that share a line with other code can't be found by looking at the line
+            expect(await session['isStopStatement']({ filePath: 'pkg:/source/main.brs', lineNumber: 2, stopReason: 'STOP_STATEMENT' })).to.be.true;
+            expect(await session['isStopStatement']({ filePath: 'pkg:/source/main.brs', lineNumber: 2, stopReason: 'BREAK' })).to.be.false;
+        });
+
+        it('sends the error details in the exceptionInfo response', () => {
+            session['exception'] = {
+                threadId: 1,
+                errorCode: '&h18',
+                message: 'Type Mismatch.'
+            };
+            session['exceptionInfoRequest']({} as DebugProtocol.ExceptionInfoResponse, { threadId: 1 });
+            expect(responses[0].body).to.eql({
+                exceptionId: '&h18',
+                description: 'Type Mismatch.',
+                breakMode: 'always',
+                details: {
+                    message: 'Type Mismatch.',
+                    typeName: 'ERR_TM',
+                    evaluateName: '&h18',
+                    stackTrace: 'ERR_TM (&h18): Type Mismatch'
+                }
+            });
+        });
+    });
+
     describe('handleEntryBreakpoint', () => {
         it('registers the entry breakpoint when stopOnEntry is enabled', async () => {
             (session as any).launchConfiguration = { stopOnEntry: true };
@@ -462,6 +543,822 @@ describe('BrightScriptDebugSession', () => {
                 'stagingPathB'
             ]);
         });
+
+        it('does not erase the staging folder when attached to a running channel', () => {
+            let stub = sinon.stub(fsExtra, 'removeSync').returns(null);
+            session.projectManager.mainProject = <any>{
+                stagingFolderPath: 'stagingPathA'
+            };
+            (session as any).launchConfiguration = {
+                retainStagingFolder: false
+            };
+            session['isAttached'] = true;
+            sinon.stub(DebugSession.prototype, 'shutdown').returns(null);
+
+            session.shutdown();
+            expect(stub.called).to.be.false;
+        });
+    });
+
+    describe('attachRequest', () => {
+        let publishSpy: sinon.SinonSpy;
+        let connectStub: SinonStub;
+
+        beforeEach(() => {
+            sinon.stub(util, 'dnsLookup').callsFake((host) => Promise.resolve(host));
+            publishSpy = sinon.spy(session.rokuDeploy, 'publish');
+            sinon.stub(session as any, 'createRokuAdapter').callsFake(() => {
+                session['rokuAdapter'] = rokuAdapter;
+            });
+            connectStub = sinon.stub(session as any, 'connectRokuAdapter').callsFake(() => {
+                (rokuAdapter as any).connected = true;
+                return Promise.resolve(rokuAdapter);
+            });
+            fsExtra.outputFileSync(`${rootDir}/manifest`, '');
+            fsExtra.outputFileSync(`${rootDir}/source/main.brs`, 'sub main()\nend sub');
+        });
+
+        afterEach(() => {
+            fsExtra.removeSync(rootDir);
+        });
+
+        it('attaches using the existing staging folder without publishing', async () => {
+            fsExtra.outputFileSync(`${stagingDir}/source/main.brs`, 'sub main()\nend sub');
+
+            await session.attachRequest({} as any, { ...launchConfiguration, host: '192.168.1.2' });
+
+            expect(responses).to.be.lengthOf(1);
+            expect(publishSpy.called).to.be.false;
+            expect(connectStub.getCall(0).args[0]).to.be.true;
+            expect(
+                session.projectManager.mainProject.fileMappings.map(x => s`${x.dest}`)
+            ).to.include(s`${stagingDir}/source/main.brs`);
+            expect(session['entryBreakpointWasHandled']).to.be.true;
+        });
+
+        it('restores and syncs the breakpoints saved by a previous session', async () => {
+            fsExtra.outputFileSync(`${stagingDir}/source/main.brs`, 'sub main()\nend sub');
+            fsExtra.outputJsonSync(s`${outDir}/breakpoints.json`, {
+                sourceBreakpoints: {
+                    [s`${rootDir}/source/main.brs`]: [{ line: 2, condition: 'true', verified: true }]
+                }
+            });
+            const sendEventStub = sinon.stub(session, 'sendEvent');
+            rokuAdapter.syncBreakpoints = sinon.stub().returns(Promise.resolve());
+
+            await session.attachRequest({} as any, { ...launchConfiguration, host: '192.168.1.2', persistBreakpoints: true });
+
+            const breakpointEvent = sendEventStub.getCalls().map(x => x.args[0]).find(x => x.event === 'breakpoint');
+            expect(breakpointEvent.body.reason).to.eql('new');
+            expect(breakpointEvent.body.breakpoint).to.include({ line: 2, verified: true });
+            expect(session.breakpointManager.getBreakpointsAtSourceLocation(s`${rootDir}/source/main.brs`, 2)[0]).to.include({ condition: 'true' });
+            expect((rokuAdapter.syncBreakpoints as SinonStub).called).to.be.true;
+        });
+
+        it('fails when the staging folder does not exist', async () => {
+            sinon.stub(DebugSession.prototype, 'shutdown').returns(null);
+            let error: Error;
+            try {
+                await session.attachRequest({} as any, { ...launchConfiguration, host: '192.168.1.2' });
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.include('Cannot find staging folder');
+            expect(connectStub.called).to.be.false;
+        });
+    });
+
+    describe('customRequest', () => {
+        let rendezvousTracker: RendezvousTracker;
+
+        beforeEach(() => {
+            rendezvousTracker = new RendezvousTracker();
+            rendezvousTracker.registerSourceLocator((debuggerPath, lineNumber) => {
+                return Promise.resolve({ filePath: debuggerPath, lineNumber: lineNumber, columnIndex: 0 });
+            });
+            rokuAdapter.exportRendezvousHistory = (format) => rendezvousTracker.exportHistory(format);
+            rokuAdapter.importRendezvousHistory = (content) => rendezvousTracker.importHistory(content);
+            rokuAdapter.compareRendezvousHistory = () => rendezvousTracker.compareHistory();
+        });
+
+        it('exports the rendezvous history to a file and compares a new run against it', async () => {
+            const log = '[sg.node.BLOCK] Rendezvous[1] at pkg:/source/main.brs(3)\n[sg.node.UNBLOCK] Rendezvous[1] completed in 0.5 s\n';
+            const filePath = s`${outDir}/rendezvous.json`;
+            await rendezvousTracker.processLog(log);
+
+            await session['customRequest']('rendezvous.exportHistory', { body: {} } as any, { filePath: filePath });
+            expect(responses[0].body.content).to.eql(fsExtra.readFileSync(filePath).toString());
+
+            await session['customRequest']('rendezvous.importHistory', { body: {} } as any, { filePath: filePath });
+            expect(responses[1].body.hitCount).to.eql({ baseline: 1, current: 1, difference: 0 });
+
+            await rendezvousTracker.processLog(log);
+            await session['customRequest']('rendezvous.compareHistory', { body: {} } as any);
+            expect(responses[2].body.hitCount).to.eql({ baseline: 1, current: 2, difference: 1 });
+        });
+
+        it('sends an error response when there is no history to compare against', async () => {
+            const stub = sinon.stub(session as any, 'sendErrorResponse');
+            await session['customRequest']('rendezvous.compareHistory', { body: {} } as any);
+            expect(stub.getCall(0).args[2]).to.include('Import a history first');
+        });
+
+        it('sends the chanperf summary for the requested window', async () => {
+            const stub = sinon.stub().returns({ sampleCount: 2 });
+            rokuAdapter.getChanperfSummary = stub;
+            await session['customRequest']('chanperf.getSummary', { body: {} } as any, { windowSeconds: 30 });
+            expect(stub.getCall(0).args[0]).to.equal(30000);
+            expect(responses[0].body).to.eql({ sampleCount: 2 });
+        });
+
+        it('sends an error response when the chanperf requests fail', async () => {
+            const stub = sinon.stub(session as any, 'sendErrorResponse');
+            //the adapter isn't connected yet
+            rokuAdapter.getChanperfSummary = undefined;
+            rokuAdapter.clearChanperfHistory = undefined;
+            await session['customRequest']('chanperf.getSummary', { body: {} } as any, { windowSeconds: 30 });
+            await session['customRequest']('chanperf.clearHistory', { body: {} } as any);
+            expect(stub.callCount).to.equal(2);
+            expect(responses).to.be.empty;
+        });
+
+        it('sends the SceneGraph node tree as a response and an event', async () => {
+            const sgnodesStub = sinon.stub(SceneGraphDebugCommandController.prototype, 'sgnodes').returns(Promise.resolve({
+                command: 'sgnodes roots',
+                result: {
+                    rawResponse: '<Node: roSGNode:HomeScene osref=2 bscref=1 id="homeScene" />',
+                    data: { nodes: [], nodeCount: 1, nodeCountsByType: { HomeScene: 1 }, osrefCount: 2, bscrefCount: 1 }
+                }
+            }));
+            const sendEventStub = sinon.stub(session, 'sendEvent');
+
+            await session['customRequest']('sceneGraph.getNodeTree', { body: {} } as any, { filter: 'roots' });
+            expect(sgnodesStub.getCall(0).args[0]).to.equal('roots');
+            expect(responses[0].body).to.include({ filter: 'roots', nodeCount: 1 });
+            expect(sendEventStub.getCall(0).args[0]).to.include({ event: 'SceneGraphNodeTreeEvent', body: responses[0].body });
+        });
+
+        it('takes leak snapshots and writes the comparison to outDir', async () => {
+            const sgnodesStub = sinon.stub(SceneGraphDebugCommandController.prototype, 'sgnodes');
+            sgnodesStub.onCall(0).returns(Promise.resolve({
+                command: 'sgnodes all',
+                result: { rawResponse: '', data: { nodes: [], nodeCount: 0, nodeCountsByType: {}, osrefCount: 0, bscrefCount: 0 } }
+            }));
+            sgnodesStub.onCall(1).returns(Promise.resolve({
+                command: 'sgnodes all',
+                result: { rawResponse: '', data: { nodes: [{ key: 0, type: 'ContentNode', id: '', children: [] }], nodeCount: 1, nodeCountsByType: {}, osrefCount: 0, bscrefCount: 0 } }
+            }));
+            sinon.stub(SceneGraphDebugCommandController.prototype, 'loadedTextures').returns(Promise.resolve({
+                command: 'loaded_textures',
+                result: { rawResponse: '', data: { textures: [], totalBytes: 0 } }
+            }));
+
+            await session['customRequest']('leaks.takeSnapshot', { body: {} } as any, { name: 'before' });
+            await session['customRequest']('leaks.takeSnapshot', { body: {} } as any, { name: 'after' });
+            await session['customRequest']('leaks.compareSnapshots', { body: {} } as any, { writeToFile: true });
+
+            expect(responses[1].body).to.include({ name: 'after', nodeCount: 1 });
+            expect(responses[2].body.nodes.byType).to.eql([{ key: 'ContentNode', baseline: 0, current: 1, difference: 1 }]);
+            expect(responses[2].body.filePath).to.equal(s`${outDir}/leaks-before-after.json`);
+            expect(fsExtra.readJsonSync(responses[2].body.filePath).nodes.total.difference).to.equal(1);
+        });
+
+        it('runs raw SceneGraph commands through a single shared controller', async () => {
+            const execStub = sinon.stub(SceneGraphDebugCommandController.prototype, 'exec').returns(Promise.resolve({
+                command: 'free',
+                result: { rawResponse: 'Mem: 100' }
+            }));
+            await session['customRequest']('sceneGraph.exec', { body: {} } as any, { command: ' free ' });
+            await session['customRequest']('sceneGraph.exec', { body: {} } as any, { command: 'sgperf report' });
+
+            expect(execStub.getCalls().map(x => x.args[0])).to.eql(['free', 'sgperf report']);
+            expect(execStub.getCall(0).thisValue).to.equal(execStub.getCall(1).thisValue);
+            expect(execStub.getCall(0).thisValue.keepAlive).to.be.true;
+            expect(responses[0].body).to.eql({ rawResponse: 'Mem: 100' });
+        });
+
+        it('sends an error response when no SceneGraph command is provided', async () => {
+            const stub = sinon.stub(session as any, 'sendErrorResponse');
+            await session['customRequest']('sceneGraph.exec', { body: {} } as any, {});
+            expect(stub.getCall(0).args[2]).to.include('command is required');
+        });
+
+        it('presses keys in order and sends ECP query results', async () => {
+            launchConfiguration.host = '192.168.1.2';
+            launchConfiguration.remotePort = 8060;
+            const keypressStub = sinon.stub(EcpClient.prototype, 'keypress').returns(Promise.resolve());
+            sinon.stub(EcpClient.prototype, 'getActiveApp').returns(Promise.resolve({ app: { id: 'dev', name: 'My Channel' } }));
+
+            await session['customRequest']('ecp.keypress', { body: {} } as any, { keys: ['Down', 'Select'] });
+            await session['customRequest']('ecp.getActiveApp', { body: {} } as any);
+
+            expect(keypressStub.getCalls().map(x => x.args[0])).to.eql(['Down', 'Select']);
+            expect(keypressStub.getCall(0).thisValue).to.include({ host: '192.168.1.2', port: 8060 });
+            expect(responses[1].body).to.eql({ app: { id: 'dev', name: 'My Channel' } });
+        });
+
+        it('sends an error response when an ECP request fails', async () => {
+            sinon.stub(EcpClient.prototype, 'launch').returns(Promise.reject(new Error('connect ECONNREFUSED')));
+            const stub = sinon.stub(session as any, 'sendErrorResponse');
+            await session['customRequest']('ecp.launch', { body: {} } as any, { params: { contentId: '12' } });
+            expect(stub.getCall(0).args[2]).to.include('ECONNREFUSED');
+        });
+
+        it('sends an error response when the node tree could not be retrieved', async () => {
+            sinon.stub(SceneGraphDebugCommandController.prototype, 'sgnodes').returns(Promise.resolve({
+                command: 'sgnodes all',
+                error: { message: 'connection refused', type: 'socket' },
+                result: { rawResponse: '' }
+            }));
+            const stub = sinon.stub(session as any, 'sendErrorResponse');
+            await session['customRequest']('sceneGraph.getNodeTree', { body: {} } as any);
+            expect(stub.getCall(0).args[2]).to.include('connection refused');
+        });
+    });
+
+    describe('scopesRequest', () => {
+        let getVariableStub: SinonStub;
+
+        beforeEach(() => {
+            launchConfiguration.enableDebugProtocol = true;
+            rokuAdapter.isAtDebuggerPrompt = true;
+            getVariableStub = sinon.stub().callsFake((expression: string) => {
+                if (expression === 'm.top') {
+                    return Promise.resolve(undefined);
+                }
+                return Promise.resolve(<EvaluateContainer>{
+                    name: expression,
+                    evaluateName: expression,
+                    type: '',
+                    value: null,
+                    keyType: KeyType.string,
+                    elementCount: 1,
+                    children: [{
+                        name: 'name',
+                        evaluateName: `${expression}["name"]`,
+                        type: 'String',
+                        value: '"bob"'
+                    }]
+                });
+            });
+            rokuAdapter.getVariable = getVariableStub;
+        });
+
+        it('returns the local and component scopes', async () => {
+            await session['scopesRequest']({} as DebugProtocol.ScopesResponse, { frameId: 1 });
+            const scopes = responses[0].body.scopes as DebugProtocol.Scope[];
+            expect(scopes.map(x => x.name)).to.eql(['Local', 'm', 'm.top', 'Global']);
+            //only the locals are looked up right away
+            expect(getVariableStub.getCalls().map(x => x.args[0])).to.eql(['']);
+        });
+
+        it('looks up the component scope variables when they are expanded', async () => {
+            await session['scopesRequest']({} as DebugProtocol.ScopesResponse, { frameId: 1 });
+            const scopes = responses[0].body.scopes as DebugProtocol.Scope[];
+
+            await session.variablesRequest({} as DebugProtocol.VariablesResponse, { variablesReference: scopes[3].variablesReference });
+            expect(getVariableStub.getCall(1).args.slice(0, 2)).to.eql(['m.global', 1]);
+            expect(responses[1].body.variables.map(x => [x.name, x.value])).to.eql([['name', '"bob"']]);
+        });
+
+        it('shows an empty scope when the expression does not exist in this frame', async () => {
+            await session['scopesRequest']({} as DebugProtocol.ScopesResponse, { frameId: 1 });
+            const scopes = responses[0].body.scopes as DebugProtocol.Scope[];
+
+            await session.variablesRequest({} as DebugProtocol.VariablesResponse, { variablesReference: scopes[2].variablesReference });
+            expect(responses[1].success).not.to.be.false;
+            expect(responses[1].body.variables).to.eql([]);
+        });
+
+        it('does not add the component scopes when the telnet variables panel is disabled', async () => {
+            launchConfiguration.enableDebugProtocol = false;
+            launchConfiguration.enableVariablesPanel = false;
+            await session['scopesRequest']({} as DebugProtocol.ScopesResponse, { frameId: 1 });
+            expect(responses[0].body.scopes.map(x => x.name)).to.eql(['Local']);
+        });
+    });
+
+    describe('setVariableRequest', () => {
+        let evaluateStub: SinonStub;
+        let getVariableValue: EvaluateContainer;
+
+        beforeEach(() => {
+            launchConfiguration.enableDebugProtocol = true;
+            rokuAdapter.isAtDebuggerPrompt = true;
+            evaluateStub = sinon.stub().returns(Promise.resolve({ message: undefined, type: 'message' }));
+            rokuAdapter.evaluate = evaluateStub;
+            rokuAdapter.getVariable = () => Promise.resolve(getVariableValue);
+            session['initRequestArgs'] = { supportsInvalidatedEvent: true } as any;
+        });
+
+        function getIntegerEvaluateContainer(evaluateName: string, name: string, value: string) {
+            return <EvaluateContainer>{
+                name: name,
+                evaluateName: evaluateName,
+                type: 'Integer',
+                value: value
+            };
+        }
+
+        it('assigns the new value to the child of a variable', async () => {
+            const sendEventStub = sinon.stub(session, 'sendEvent');
+            getVariableValue = {
+                name: 'person',
+                evaluateName: 'person',
+                type: 'AssociativeArray',
+                value: null,
+                keyType: KeyType.string,
+                elementCount: 1,
+                children: [getIntegerEvaluateContainer('person["age"]', 'age', '42')]
+            } as EvaluateContainer;
+            const person = session['getVariableFromResult'](getVariableValue, 1);
+
+            getVariableValue = getIntegerEvaluateContainer('person["age"]', 'age', '43');
+            await session['setVariableRequest']({} as DebugProtocol.SetVariableResponse, {
+                variablesReference: person.variablesReference,
+                name: 'age',
+                value: '43'
+            });
+            expect(evaluateStub.getCall(0).args).to.eql(['person["age"] = 43', 1]);
+            expect(responses[0].body.value).to.eql('43');
+            expect(sendEventStub.getCalls().map(x => x.args[0].event)).to.eql(['invalidated']);
+            //the cached variables were cleared
+            expect(session['variables'][person.variablesReference]).to.be.undefined;
+        });
+
+        it('fails when the assignment fails on the device', async () => {
+            evaluateStub.returns(Promise.resolve({ message: 'Type Mismatch.', type: 'error' }));
+            await session['setExpressionRequest']({} as DebugProtocol.SetExpressionResponse, {
+                expression: 'm.count',
+                value: '"text"',
+                frameId: 1
+            });
+            expect(responses[0].success).to.be.false;
+            expect(responses[0].message).to.eql('Type Mismatch.');
+        });
+
+        it('treats telnet output as an error', async () => {
+            launchConfiguration.enableDebugProtocol = false;
+            evaluateStub.returns(Promise.resolve({ message: 'Syntax Error. (compile error &h02) in $LIVECOMPILE(1)\r\nBrightscript Debugger> ', type: 'message' }));
+            await session['setExpressionRequest']({} as DebugProtocol.SetExpressionResponse, {
+                expression: 'm.count',
+                value: '1 +'
+            });
+            expect(evaluateStub.getCall(0).args).to.eql(['m.count = 1 +', -1]);
+            expect(responses[0].message).to.eql('Syntax Error. (compile error &h02) in $LIVECOMPILE(1)');
+        });
+
+        it('does not assign to expressions that are not variables', async () => {
+            await session['setExpressionRequest']({} as DebugProtocol.SetExpressionResponse, {
+                expression: 'getCount()',
+                value: '1',
+                frameId: 1
+            });
+            expect(evaluateStub.called).to.be.false;
+            expect(responses[0].success).to.be.false;
+        });
+    });
+
+    describe('completionsRequest', () => {
+        beforeEach(() => {
+            launchConfiguration.enableDebugProtocol = true;
+            rokuAdapter.isAtDebuggerPrompt = true;
+            rokuAdapter.getVariable = (expression: string) => {
+                const containers = {
+                    '': { name: '', type: '', children: [{ name: 'person' }, { name: 'count' }] },
+                    'm.top': { name: 'm.top', type: 'roSGNode (Group)', children: [{ name: 'visible' }, { name: 'id' }] },
+                    'list': { name: 'list', type: 'roArray', children: [{ name: '0' }] }
+                };
+                return Promise.resolve(containers[expression]);
+            };
+        });
+
+        async function getCompletions(text: string) {
+            await session['completionsRequest']({} as DebugProtocol.CompletionsResponse, { text: text, column: text.length + 1, frameId: 1 });
+            return (responses[responses.length - 1].body.targets as DebugProtocol.CompletionItem[]).map(x => x.label);
+        }
+
+        it('suggests the variables in scope and the global functions', async () => {
+            expect(await getCompletions('print c')).to.eql(['count', 'CDbl', 'Chr', 'CInt', 'CopyFile', 'Cos', 'CreateDirectory', 'CreateObject', 'CSng']);
+        });
+
+        it('suggests the fields and methods of a node', async () => {
+            const labels = await getCompletions('print m.top.');
+            expect(labels.slice(0, 3)).to.eql(['visible', 'id', 'addField']);
+            expect(await getCompletions('print m.top.getCh')).to.eql(['getChild', 'getChildCount', 'getChildren']);
+        });
+
+        it('does not suggest array indexes', async () => {
+            expect(await getCompletions('print list.')).to.eql([]);
+        });
+
+        it('only uses the text before the cursor', async () => {
+            await session['completionsRequest']({} as DebugProtocol.CompletionsResponse, { text: 'print pe + count', column: 9, frameId: 1 });
+            expect(responses[0].body.targets.map(x => x.label)).to.eql(['person']);
+        });
+    });
+
+    describe('step-in targets', () => {
+        const mainPath = s`${rootDir}/source/main.brs`;
+
+        beforeEach(() => {
+            launchConfiguration.enableDebugProtocol = true;
+            fsExtra.outputFileSync(mainPath, [
+                'sub main()',
+                '    print getName(getPerson())',
+                'end sub',
+                'function getPerson()',
+                '    return {}',
+                'end function',
+                'function getName(person)',
+                '    return "bob"',
+                'end function'
+            ].join('\n'));
+            session.projectManager.mainProject = new Project({
+                rootDir: rootDir,
+                outDir: stagingDir
+            } as Partial<AddProjectParams> as any);
+            session.projectManager.mainProject.fileMappings = [{
+                src: mainPath,
+                dest: s`${stagingDir}/source/main.brs`
+            }];
+            rokuAdapter.continue = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.stepInto = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.syncBreakpoints = sinon.stub().returns(Promise.resolve());
+        });
+
+        afterEach(() => {
+            fsExtra.removeSync(rootDir);
+        });
+
+        it('steps into the selected call on the current line', async () => {
+            session['stackFrameLocations'].set(5, { filePath: mainPath, lineNumber: 2 });
+            session['stepInTargetsRequest']({} as DebugProtocol.StepInTargetsResponse, { frameId: 5 });
+            const targets = responses[0].body.targets as DebugProtocol.StepInTarget[];
+            expect(targets.map(x => x.label)).to.eql(['getPerson', 'getName']);
+
+            await session['stepInRequest']({} as DebugProtocol.StepInResponse, { threadId: 1, targetId: targets[1].id });
+            expect(session.breakpointManager.clearRunToLocations().map(x => [x.srcPath, x.line])).to.eql([[mainPath, 8]]);
+            expect((rokuAdapter.continue as SinonStub).called).to.be.true;
+            expect((rokuAdapter.stepInto as SinonStub).called).to.be.false;
+        });
+
+        it('does a regular step in when the target function is not in the project', async () => {
+            session['stackFrameLocations'].set(5, { filePath: mainPath, lineNumber: 2 });
+            session['stepInTargets'] = [{ id: 100, label: 'node.callFunc', name: 'callFunc' }];
+            await session['stepInRequest']({} as DebugProtocol.StepInResponse, { threadId: 1, targetId: 100 });
+            expect((rokuAdapter.stepInto as SinonStub).called).to.be.true;
+        });
+
+        it('reports the one-shot breakpoint that caused the stop', async () => {
+            sinon.stub(session.projectManager, 'getSourceLocation').returns(Promise.resolve({ filePath: mainPath, lineNumber: 3, columnIndex: 0 }));
+            const runToLocations = session.breakpointManager.setRunToLocations([{ srcPath: mainPath, line: 3 }]);
+            const result = await session['getBreakpointsForThread']({ filePath: 'pkg:/source/main.brs', lineNumber: 3 }, runToLocations);
+            expect(result.runToBreakpoints.map(x => x.line)).to.eql([3]);
+        });
+    });
+
+    describe('logpoints', () => {
+        const mainPath = s`${rootDir}/source/main.brs`;
+
+        beforeEach(() => {
+            sinon.stub(session.projectManager, 'getSourceLocation').returns(Promise.resolve({ filePath: mainPath, lineNumber: 2, columnIndex: 0 }));
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2, logMessage: 'name is {person.name}' });
+        });
+
+        it('finds the logpoints at the stop location when using the debug protocol', async () => {
+            launchConfiguration.enableDebugProtocol = true;
+            const result = await session['getBreakpointsForThread']({ filePath: 'pkg:/source/main.brs', lineNumber: 2 });
+            expect(result.logpoints.map(x => x.logMessage)).to.eql(['name is {person.name}']);
+        });
+
+        it('ignores logpoints for telnet sessions', async () => {
+            const result = await session['getBreakpointsForThread']({ filePath: 'pkg:/source/main.brs', lineNumber: 2 });
+            expect(result.logpoints).to.eql([]);
+        });
+
+        it('prints the interpolated message using the top stack frame', async () => {
+            launchConfiguration.enableDebugProtocol = true;
+            rokuAdapter.getStackTrace = () => Promise.resolve([{ frameId: 7 }, { frameId: 3 }] as any);
+            const getLogpointMessage = sinon.stub().returns(Promise.resolve('name is bob'));
+            (rokuAdapter as any).getLogpointMessage = getLogpointMessage;
+            const sendLogOutput = sinon.stub(session as any, 'sendLogOutput');
+
+            const { logpoints } = await session['getBreakpointsForThread']({ filePath: 'pkg:/source/main.brs', lineNumber: 2 });
+            await session['printLogpointMessages']({ threadId: 1 }, logpoints);
+
+            expect(getLogpointMessage.getCall(0).args).to.eql(['name is {person.name}', 7, '__rokudebug_eval']);
+            expect(sendLogOutput.getCall(0).args[0]).to.equal('name is bob');
+        });
+    });
+
+    describe('hit conditions', () => {
+        const mainPath = s`${rootDir}/source/main.brs`;
+
+        beforeEach(() => {
+            sinon.stub(session.projectManager, 'getSourceLocation').returns(Promise.resolve({ filePath: mainPath, lineNumber: 2, columnIndex: 0 }));
+        });
+
+        it('finds the breakpoints whose hits are counted by the session', async () => {
+            launchConfiguration.enableDebugProtocol = true;
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2, hitCondition: '%100' });
+            const result = await session['getBreakpointsForThread']({ filePath: 'pkg:/source/main.brs', lineNumber: 2 });
+            expect(result.hitCountedBreakpoints.map(x => x.hitCondition)).to.eql(['%100']);
+        });
+
+        it('leaves the hit conditions the device can evaluate to the device', async () => {
+            launchConfiguration.enableDebugProtocol = true;
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2, hitCondition: '>100' });
+            const result = await session['getBreakpointsForThread']({ filePath: 'pkg:/source/main.brs', lineNumber: 2 });
+            expect(result.hitCountedBreakpoints).to.eql([]);
+        });
+
+        it('does not count hits for telnet sessions', async () => {
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2, hitCondition: '%100' });
+            const result = await session['getBreakpointsForThread']({ filePath: 'pkg:/source/main.brs', lineNumber: 2 });
+            expect(result.hitCountedBreakpoints).to.eql([]);
+        });
+    });
+
+    describe('steps that land on breakpoints', () => {
+        const mainPath = s`${rootDir}/source/main.brs`;
+        let handlers: Record<string, () => Promise<void>>;
+        let sendEventStub: SinonStub;
+
+        beforeEach(async () => {
+            launchConfiguration.enableDebugProtocol = true;
+            session['entryBreakpointWasHandled'] = true;
+            handlers = {};
+            rokuAdapter.on = ((eventName: string, handler: () => Promise<void>) => {
+                handlers[eventName] = handler;
+                return () => { };
+            }) as any;
+            rokuAdapter.connect = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.continue = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.stepOver = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.syncBreakpoints = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.getThreads = () => Promise.resolve([{ isSelected: true, threadId: 1, filePath: 'pkg:/source/main.brs', lineNumber: 2 }] as any);
+            rokuAdapter.getStackTrace = () => Promise.resolve([{ frameId: 7, filePath: 'pkg:/source/main.brs', lineNumber: 2 }] as any);
+            sinon.stub(session.projectManager, 'getSourceLocation').returns(Promise.resolve({ filePath: mainPath, lineNumber: 2, columnIndex: 0 }));
+            sinon.stub(session as any, 'printLogpointMessages').returns(Promise.resolve());
+            sendEventStub = sinon.stub(session, 'sendEvent');
+            await BrightScriptDebugSession.prototype['connectRokuAdapter'].call(session);
+        });
+
+        function getStoppedEvent() {
+            return sendEventStub.getCalls().map(x => x.args[0]).find(x => x.event === 'stopped') as DebugProtocol.StoppedEvent;
+        }
+
+        it('prints the logpoint and stops when a step lands on it', async () => {
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2, logMessage: 'hello' });
+            await session['nextRequest']({} as DebugProtocol.NextResponse, { threadId: 1 });
+            await handlers.suspend();
+
+            expect(session['printLogpointMessages']['called']).to.be.true;
+            expect((rokuAdapter.continue as SinonStub).called).to.be.false;
+            expect(getStoppedEvent().body.reason).to.equal('step');
+        });
+
+        it('continues past the logpoint when it was hit while running', async () => {
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2, logMessage: 'hello' });
+            await handlers.suspend();
+
+            expect(session['printLogpointMessages']['called']).to.be.true;
+            expect((rokuAdapter.continue as SinonStub).called).to.be.true;
+            expect(getStoppedEvent()).to.be.undefined;
+        });
+
+        it('does not count a hit when a step lands on a hit-counted breakpoint', async () => {
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2, hitCondition: '%5' });
+            const recordHitSpy = sinon.spy(session.breakpointManager, 'recordHit');
+            await session['nextRequest']({} as DebugProtocol.NextResponse, { threadId: 1 });
+            await handlers.suspend();
+
+            expect(recordHitSpy.called).to.be.false;
+            expect((rokuAdapter.continue as SinonStub).called).to.be.false;
+            expect(getStoppedEvent().body.reason).to.equal('step');
+
+            //the next stop is not caused by a step, so it counts as a hit again
+            await handlers.suspend();
+            expect(recordHitSpy.calledOnce).to.be.true;
+            expect((rokuAdapter.continue as SinonStub).called).to.be.true;
+        });
+
+        it('runs to a line and removes the one-shot breakpoint when it stops', async () => {
+            await session['customRequest']('runToLine', { body: {} } as any, { path: mainPath, line: 2 });
+            expect(session.breakpointManager['runToLocations'].map(x => [x.srcPath, x.line])).to.eql([[mainPath, 2]]);
+            expect((rokuAdapter.syncBreakpoints as SinonStub).calledBefore(rokuAdapter.continue as SinonStub)).to.be.true;
+            expect(responses).to.have.length(1);
+
+            await handlers.suspend();
+            expect(session.breakpointManager['runToLocations']).to.be.empty;
+            expect(getStoppedEvent().body.reason).to.equal('step');
+        });
+
+        it('does not run to a line when using telnet', async () => {
+            launchConfiguration.enableDebugProtocol = false;
+            const stub = sinon.stub(session as any, 'sendErrorResponse');
+            await session['customRequest']('runToLine', { body: {} } as any, { path: mainPath, line: 2 });
+            expect(stub.getCall(0).args[2]).to.include('debug protocol');
+            expect((rokuAdapter.continue as SinonStub).called).to.be.false;
+        });
+
+        it('does not treat a step that lands on a STOP statement as hitting it', async () => {
+            //telnet can only tell a STOP statement by looking at the line
+            launchConfiguration.enableDebugProtocol = false;
+            const isStopStatementStub = sinon.stub(session as any, 'isStopStatement').returns(Promise.resolve(true));
+            await session['nextRequest']({} as DebugProtocol.NextResponse, { threadId: 1 });
+            await handlers.suspend();
+
+            expect(isStopStatementStub.called).to.be.false;
+            expect(getStoppedEvent().body.reason).to.equal('step');
+
+            //continuing runs the STOP statement, which stops like an exception
+            sendEventStub.resetHistory();
+            await handlers.suspend();
+            expect(getStoppedEvent().body.reason).to.equal('exception');
+        });
+
+        describe('inside a call the step ran', () => {
+            beforeEach(async () => {
+                await session['nextRequest']({} as DebugProtocol.NextResponse, { threadId: 1 });
+                //the breakpoint is inside a function called from the line being stepped over
+                rokuAdapter.getStackTrace = () => Promise.resolve([
+                    { frameId: 8, filePath: 'pkg:/source/main.brs', lineNumber: 2 },
+                    { frameId: 7, filePath: 'pkg:/source/main.brs', lineNumber: 10 }
+                ] as any);
+            });
+
+            it('continues past a logpoint', async () => {
+                session.breakpointManager.setBreakpoint(mainPath, { line: 2, logMessage: 'hello' });
+                await handlers.suspend();
+
+                expect(session['printLogpointMessages']['called']).to.be.true;
+                expect((rokuAdapter.continue as SinonStub).called).to.be.true;
+                expect(getStoppedEvent()).to.be.undefined;
+            });
+
+            it('counts the hit of a hit-counted breakpoint', async () => {
+                session.breakpointManager.setBreakpoint(mainPath, { line: 2, hitCondition: '%5' });
+                const recordHitSpy = sinon.spy(session.breakpointManager, 'recordHit');
+                await handlers.suspend();
+
+                expect(recordHitSpy.calledOnce).to.be.true;
+                expect((rokuAdapter.continue as SinonStub).called).to.be.true;
+                expect(getStoppedEvent()).to.be.undefined;
+            });
+
+            it('stops there when stepping in', async () => {
+                rokuAdapter.stepInto = sinon.stub().returns(Promise.resolve());
+                //start over from the caller's frame
+                rokuAdapter.getStackTrace = () => Promise.resolve([{ frameId: 7, filePath: 'pkg:/source/main.brs', lineNumber: 10 }] as any);
+                await handlers.suspend();
+                sendEventStub.resetHistory();
+                await session['stepInRequest']({} as DebugProtocol.StepInResponse, { threadId: 1 });
+                rokuAdapter.getStackTrace = () => Promise.resolve([
+                    { frameId: 8, filePath: 'pkg:/source/main.brs', lineNumber: 2 },
+                    { frameId: 7, filePath: 'pkg:/source/main.brs', lineNumber: 10 }
+                ] as any);
+                session.breakpointManager.setBreakpoint(mainPath, { line: 2, logMessage: 'hello' });
+                (rokuAdapter.continue as SinonStub).resetHistory();
+                await handlers.suspend();
+
+                expect((rokuAdapter.continue as SinonStub).called).to.be.false;
+                expect(getStoppedEvent().body.reason).to.equal('step');
+            });
+        });
+    });
+
+    describe('component library breakpoints', () => {
+        beforeEach(() => {
+            launchConfiguration.enableDebugProtocol = true;
+            session.projectManager.componentLibraryProjects.push(Object.assign(
+                new ComponentLibraryProject({ rootDir: rootDir, files: [], outDir: outDir, outFile: 'lib1.zip', libraryIndex: 0 }),
+                { name: 'lib1' }
+            ));
+            rokuAdapter.syncBreakpoints = sinon.stub().returns(Promise.resolve());
+        });
+
+        it('re-sends the breakpoints when the device downloads the library again', async () => {
+            const resetStub = sinon.stub(session.breakpointManager, 'resetComponentLibraryBreakpoints');
+
+            await session['onComponentLibraryDownloaded'](s`${outDir}/component-libraries/LIB1.zip`);
+            expect(resetStub.getCall(0).args[0]).to.equal('lib1');
+            expect((rokuAdapter.syncBreakpoints as SinonStub).called).to.be.true;
+
+            //other files are ignored
+            resetStub.resetHistory();
+            await session['onComponentLibraryDownloaded'](s`${outDir}/component-libraries/other.zip`);
+            expect(resetStub.called).to.be.false;
+        });
+
+        it('reports pending breakpoints to the client', () => {
+            const sendEventStub = sinon.stub(session, 'sendEvent');
+            session['onDeviceVerifiedBreakpoints']({
+                breakpoints: [{
+                    id: 1,
+                    srcPath: s`${rootDir}/source/main.brs`,
+                    line: 2,
+                    hash: 'abc',
+                    verified: false,
+                    pendingComponentLibraryName: 'lib1'
+                }]
+            });
+            expect(sendEventStub.getCall(0).args[0].body.breakpoint).to.include({
+                verified: false,
+                message: `Waiting for component library 'lib1' to be loaded`
+            });
+        });
+    });
+
+    describe('hotReload', () => {
+        const mainPath = s`${rootDir}/source/main.brs`;
+        let publishSpy: sinon.SinonSpy;
+        let createAdapterStub: SinonStub;
+
+        beforeEach(async () => {
+            publishSpy = sinon.spy(session.rokuDeploy, 'publish');
+            rokuAdapter.destroy = () => Promise.resolve();
+            rokuAdapter.removeAllListeners = () => { };
+            createAdapterStub = sinon.stub(session as any, 'createRokuAdapter').callsFake(() => {
+                session['rokuAdapter'] = rokuAdapter;
+            });
+            sinon.stub(session as any, 'connectAndPublish').callsFake(() => session.rokuDeploy.publish({}));
+            fsExtra.outputFileSync(`${rootDir}/manifest`, '');
+            fsExtra.outputFileSync(mainPath, 'sub main()\n    print 1\nend sub');
+            fsExtra.outputFileSync(`${rootDir}/source/lib.brs`, 'sub lib()\n    print 1\nend sub');
+            session.projectManager.mainProject = new Project({
+                rootDir: rootDir,
+                outDir: outDir,
+                stagingFolderPath: stagingDir,
+                files: ['manifest', 'source/**/*']
+            });
+            await session.projectManager.mainProject.stage();
+        });
+
+        afterEach(() => {
+            fsExtra.removeSync(rootDir);
+        });
+
+        it('restages the changed files, rewrites their breakpoints and republishes', async () => {
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2 });
+            await session.breakpointManager.writeBreakpointsForProject(session.projectManager.mainProject);
+            fsExtra.outputFileSync(`${rootDir}/source/lib.brs`, 'sub lib()\n    print 2\nend sub');
+            fsExtra.outputFileSync(`${stagingDir}/source/lib.brs.map`, '{}');
+
+            await session.hotReload([s`${rootDir}/source/lib.brs`]);
+
+            expect(fsExtra.readFileSync(`${stagingDir}/source/lib.brs`).toString()).to.equal('sub lib()\n    print 2\nend sub');
+            //the breakpoint was written exactly once
+            expect(fsExtra.readFileSync(`${stagingDir}/source/main.brs`).toString()).to.equal('sub main()\nSTOP\n    print 1\nend sub');
+            expect(createAdapterStub.called).to.be.true;
+            expect(publishSpy.calledOnce).to.be.true;
+        });
+
+        it('does not republish when none of the files are part of the project', async () => {
+            await session.hotReload([s`${tempDir}/other/file.brs`]);
+            expect(publishSpy.called).to.be.false;
+            expect(createAdapterStub.called).to.be.false;
+        });
+
+        it('sends every breakpoint to the republished channel when using the debug protocol', async () => {
+            launchConfiguration.enableDebugProtocol = true;
+            (rokuAdapter as any).watchCompileOutput = () => Promise.resolve();
+            session.breakpointManager.setBreakpoint(mainPath, { line: 2 });
+            expect((await session.breakpointManager.getDiff([session.projectManager.mainProject])).added).to.be.lengthOf(1);
+
+            fsExtra.outputFileSync(mainPath, 'sub main()\n    print 2\nend sub');
+            await session.hotReload([mainPath]);
+
+            expect(fsExtra.readFileSync(`${stagingDir}/source/main.brs`).toString()).to.equal('sub main()\n    print 2\nend sub');
+            expect((await session.breakpointManager.getDiff([session.projectManager.mainProject])).added).to.be.lengthOf(1);
+            expect(publishSpy.calledOnce).to.be.true;
+        });
+
+        it('continues past the entry stop of the republished channel', async () => {
+            launchConfiguration.enableDebugProtocol = true;
+            (rokuAdapter as any).watchCompileOutput = () => Promise.resolve();
+            session['entryBreakpointWasHandled'] = true;
+            await session.hotReload([mainPath]);
+
+            const handlers = {} as Record<string, () => Promise<void>>;
+            rokuAdapter.on = ((eventName: string, handler: () => Promise<void>) => {
+                handlers[eventName] = handler;
+                return () => { };
+            }) as any;
+            rokuAdapter.connect = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.continue = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.syncBreakpoints = sinon.stub().returns(Promise.resolve());
+            rokuAdapter.getThreads = () => Promise.resolve([{ isSelected: true, threadId: 1, filePath: 'pkg:/source/main.brs', lineNumber: 1 }] as any);
+            rokuAdapter.getStackTrace = () => Promise.resolve([{ frameId: 7, filePath: 'pkg:/source/main.brs', lineNumber: 1 }] as any);
+            sinon.stub(session.breakpointManager, 'lineHasBreakpoint').returns(Promise.resolve(false));
+            const sendEventStub = sinon.stub(session, 'sendEvent');
+            await BrightScriptDebugSession.prototype['connectRokuAdapter'].call(session);
+            await handlers.suspend();
+
+            expect((rokuAdapter.continue as SinonStub).calledOnce).to.be.true;
+            expect(sendEventStub.getCalls().map(x => x.args[0]).find(x => x.event === 'stopped')).to.be.undefined;
+        });
     });
 
     describe('handleDiagnostics', () => {
@@ -646,6 +1543,119 @@ describe('BrightScriptDebugSession', () => {
                 });
                 expect(getVarStub.calledWith('person.name', frameId, true));
             });
+
+            it('sends `>>` expressions to the SceneGraph debug server', async () => {
+                const execStub = sinon.stub(SceneGraphDebugCommandController.prototype, 'exec').returns(Promise.resolve({
+                    command: 'sgnodes roots',
+                    result: { rawResponse: '<Node: roSGNode:HomeScene />' }
+                }));
+                await expectResponse({
+                    context: 'repl',
+                    expression: '>> sgnodes roots'
+                }, {
+                    result: '<Node: roSGNode:HomeScene />',
+                    variablesReference: 0
+                });
+                expect(execStub.getCall(0).args[0]).to.equal('sgnodes roots');
+                expect(evalStub.called).to.be.false;
+            });
+        });
+
+        describe('debug protocol expressions', () => {
+            beforeEach(() => {
+                launchConfiguration.enableDebugProtocol = true;
+            });
+
+            it('returns the value of the expression', async () => {
+                getVarStub.callsFake((expression: string) => Promise.resolve({
+                    name: expression,
+                    evaluateName: expression,
+                    type: 'Integer',
+                    value: '3'
+                }));
+                await expectResponse({
+                    context: 'repl',
+                    expression: 'm.items.count() + 1'
+                }, {
+                    result: '3',
+                    type: 'Integer',
+                    variablesReference: 0,
+                    namedVariables: 0,
+                    indexedVariables: 0
+                });
+                const variableName = evalStub.getCall(0).args[0].split(' = ')[0];
+                expect(evalStub.getCall(0).args[0]).to.eql(`${variableName} = m.items.count() + 1`);
+                expect(getVarStub.getCall(0).args).to.eql([variableName, frameId, true]);
+            });
+
+            it('returns expandable results that are hidden from the locals', async () => {
+                getVarStub.callsFake((expression: string) => Promise.resolve({
+                    name: expression,
+                    evaluateName: expression,
+                    type: 'roSGNode (Group)',
+                    keyType: KeyType.string,
+                    elementCount: 1,
+                    children: [{ name: 'visible', evaluateName: `${expression}["visible"]`, type: 'Boolean', value: 'true' }]
+                }));
+                await session.evaluateRequest({} as any, { frameId: frameId, context: 'watch', expression: 'm.top.getChild(0)' });
+                expect(responses[0].body.variablesReference).to.be.greaterThan(0);
+                expect(responses[0].body.namedVariables).to.equal(1);
+
+                const variableName = evalStub.getCall(0).args[0].split(' = ')[0];
+                const locals = session['getVariableFromResult']({
+                    name: '',
+                    evaluateName: '',
+                    keyType: KeyType.string,
+                    children: [{ name: 'a', evaluateName: 'a', value: '1' }, { name: variableName.toLowerCase(), evaluateName: variableName, value: '2' }]
+                } as EvaluateContainer, frameId);
+                expect(locals.childVariables.map(x => x.name)).to.eql(['a']);
+            });
+
+            it('runs statements as-is when they cannot be assigned to a variable', async () => {
+                evalStub.onCall(0).returns(Promise.resolve({ message: 'Syntax Error.', type: 'error', errorType: 'compile' }));
+                await expectResponse({
+                    context: 'repl',
+                    expression: 'print "hello"'
+                }, {
+                    result: 'invalid',
+                    variablesReference: 0
+                });
+                expect(evalStub.getCall(1).args[0]).to.eql('print "hello"');
+            });
+
+            it('runs assignments as-is instead of comparing them', async () => {
+                for (const expression of ['x = 5', 'm.top.title = "a"', 'items[0] += 1']) {
+                    evalStub.resetHistory();
+                    await expectResponse({
+                        context: 'repl',
+                        expression: expression
+                    }, {
+                        result: 'invalid',
+                        variablesReference: 0
+                    });
+                    expect(evalStub.getCalls().map(x => x.args[0])).to.eql([expression]);
+                }
+            });
+
+            it('reuses the same temporary variable for every expression', async () => {
+                await session.evaluateRequest({} as any, { frameId: frameId, context: 'watch', expression: 'm.a + 1' });
+                await session.evaluateRequest({} as any, { frameId: frameId, context: 'watch', expression: 'm.b + 1' });
+                expect(evalStub.getCalls().map(x => x.args[0])).to.eql(['__rokudebug_eval = m.a + 1', '__rokudebug_eval = m.b + 1']);
+            });
+
+            it('does not run the expression again after a runtime error', async () => {
+                const sendEventStub = sinon.stub(session, 'sendEvent');
+                evalStub.onCall(0).returns(Promise.resolve({ message: 'Divide by Zero.', type: 'error', errorType: 'runtime' }));
+                await expectResponse({
+                    context: 'repl',
+                    expression: '1 / 0'
+                }, {
+                    result: 'invalid',
+                    variablesReference: 0
+                });
+                expect(evalStub.callCount).to.equal(1);
+                expect(sendEventStub.getCalls().map(x => x.args[0].body?.output)).to.include('Divide by Zero.');
+            });
         });
     });
 });
@@ -4,6 +4,7 @@ import * as path from 'path';
 import * as request from 'request';
 import { rokuDeploy, CompileError } from 'roku-deploy';
 import type { RokuDeploy, RokuDeployOptions } from 'roku-deploy';
+import { isAssignmentStatement, isDottedSetStatement, isIndexedSetStatement, Parser } from 'brighterscript';
 import {
     BreakpointEvent,
     DebugSession as BaseDebugSession,
@@ -19,12 +20,14 @@ import {
     Thread,
     Variable
 } from 'vscode-debugadapter';
-import type { SceneGraphCommandResponse } from '../SceneGraphDebugCommandController';
+import type { SceneGraphCommandResponse, SceneGraphNodeTree } from '../SceneGraphDebugCommandController';
 import { SceneGraphDebugCommandController } from '../SceneGraphDebugCommandController';
 import type { DebugProtocol } from 'vscode-debugprotocol';
 import { defer, util } from '../util';
 import { fileUtils, standardizePath as s } from '../FileUtils';
 import { ComponentLibraryServer } from '../ComponentLibraryServer';
+import { LeakDetector } from '../LeakDetector';
+import { EcpClient } from '../EcpClient';
 import { ProjectManager, Project, ComponentLibraryProject } from '../managers/ProjectManager';
 import type { EvaluateContainer } from '../adapters/DebugProtocolAdapter';
 import { DebugProtocolAdapter } from '../adapters/DebugProtocolAdapter';
@@ -37,16 +40,21 @@ import {
     DiagnosticsEvent,
     StoppedEventReason,
     ChanperfEvent,
+    ChanperfAlertEvent,
     DebugServerLogOutputEvent,
     ChannelPublishedEvent,
-    PopupMessageEvent
+    PopupMessageEvent,
+    SceneGraphNodeTreeEvent
 } from './Events';
 import type { LaunchConfiguration, ComponentLibraryConfiguration } from '../LaunchConfiguration';
 import { FileManager } from '../managers/FileManager';
 import { SourceMapManager } from '../managers/SourceMapManager';
 import { LocationManager } from '../managers/LocationManager';
-import type { AugmentedSourceBreakpoint } from '../managers/BreakpointManager';
+import type { AugmentedDataBreakpoint, AugmentedFunctionBreakpoint, AugmentedSourceBreakpoint } from '../managers/BreakpointManager';
 import { BreakpointManager } from '../managers/BreakpointManager';
+import { getRuntimeErrorInfo } from '../BrightScriptRuntimeErrors';
+import { getCompletionTarget, globalFunctions, sceneGraphNodeMethods } from '../BrightScriptCompletions';
+import type { RendezvousExportFormat } from '../RendezvousTracker';
 import type { LogMessage } from '../logging';
 import { logger, debugServerLogOutputEventTransport } from '../logging';
 import { waitForDebugger } from 'inspector';
@@ -64,20 +72,34 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         this.fileManager = new FileManager();
         this.sourceMapManager = new SourceMapManager();
         this.locationManager = new LocationManager(this.sourceMapManager);
-        this.breakpointManager = new BreakpointManager(this.sourceMapManager, this.locationManager);
+        this.breakpointManager = new BreakpointManager(this.sourceMapManager, this.locationManager, this.fileManager);
         //send newly-verified breakpoints to vscode
         this.breakpointManager.on('breakpoints-verified', (data) => this.onDeviceVerifiedBreakpoints(data));
+        //re-send the component library breakpoints whenever the device downloads a component library
+        this.componentLibraryServer.on('download', (data) => {
+            void this.onComponentLibraryDownloaded(data.filePath);
+        });
         this.projectManager = new ProjectManager(this.breakpointManager, this.locationManager);
     }
 
-    private onDeviceVerifiedBreakpoints(data: { breakpoints: AugmentedSourceBreakpoint[] }) {
+    private onDeviceVerifiedBreakpoints(data: { breakpoints: Array<AugmentedSourceBreakpoint | AugmentedDataBreakpoint | AugmentedFunctionBreakpoint> }) {
         this.logger.info('Sending verified device breakpoints to client', data);
         //send all verified breakpoints to the client
         for (const breakpoint of data.breakpoints) {
+            //data breakpoints and function breakpoints don't have a location
+            if (!('srcPath' in breakpoint)) {
+                const locationlessBreakpoint: DebugProtocol.Breakpoint = {
+                    id: breakpoint.id,
+                    verified: breakpoint.verified
+                };
+                this.sendEvent(new BreakpointEvent('changed', locationlessBreakpoint));
+                continue;
+            }
             const event: DebugProtocol.Breakpoint = {
                 line: breakpoint.line,
                 column: breakpoint.column,
-                verified: true,
+                verified: breakpoint.verified,
+                message: breakpoint.pendingComponentLibraryName ? `Waiting for component library '${breakpoint.pendingComponentLibraryName}' to be loaded` : undefined,
                 id: breakpoint.id,
                 source: {
                     path: breakpoint.srcPath
@@ -87,6 +109,24 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         }
     }
 
+    /**
+     * Whenever the device downloads a component library, it loads a fresh copy of that library. So (for debug protocol sessions) the breakpoints
+     * in that library are sent to the device again, and stay pending until the device verifies them against the new copy
+     * @param filePath the path to the file that was downloaded
+     */
+    private async onComponentLibraryDownloaded(filePath: string) {
+        const fileName = path.basename(filePath).toLowerCase();
+        const project = this.projectManager.componentLibraryProjects.find(x => {
+            const outFile = path.basename(x.outFile).toLowerCase();
+            return fileName === outFile || fileName === `${outFile}.zip`;
+        });
+        if (!project || !this.enableDebugProtocol) {
+            return;
+        }
+        this.breakpointManager.resetComponentLibraryBreakpoints(project.name);
+        await this.rokuAdapter?.syncBreakpoints();
+    }
+
     public logger = logger.createLogger(`[${BrightScriptDebugSession.name}]`);
 
     /**
@@ -109,6 +149,8 @@ export class BrightScriptDebugSession extends BaseDebugSession {
 
     private componentLibraryServer = new ComponentLibraryServer();
 
+    private leakDetector = new LeakDetector();
+
     private rokuAdapterDeferred = defer<DebugProtocolAdapter | TelnetAdapter>();
     /**
      * A promise that is resolved whenever the app has started running for the first time
@@ -132,8 +174,28 @@ export class BrightScriptDebugSession extends BaseDebugSession {
     }
 
     private launchConfiguration: LaunchConfiguration;
+
+    /**
+     * Values used for any launch configuration properties that were not provided by the client (i.e. from the `roku-debug --config` file)
+     */
+    public defaultLaunchConfiguration: Partial<LaunchConfiguration>;
+
     private initRequestArgs: DebugProtocol.InitializeRequestArguments;
 
+    /**
+     * The exception breakpoint filters selected by the client. Until the client sends its selection, break on everything that used to stop the debugger
+     */
+    private exceptionBreakpointFilters: string[] = [ExceptionBreakpointFilter.runtimeErrors, ExceptionBreakpointFilter.stopStatements];
+
+    /**
+     * Info about the runtime error (or STOP statement) that the debugger is currently stopped on
+     */
+    private exception: {
+        threadId: number;
+        errorCode: string;
+        message: string;
+    };
+
     /**
      * The 'initialize' request is the first request called by the frontend
      * to interrogate the features the debug adapter provides.
@@ -169,6 +231,44 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         // This debug adapter supports log points by interpreting the 'logMessage' attribute of the SourceBreakpoint
         response.body.supportsLogPoints = true;
 
+        // This debug adapter supports data breakpoints on AA keys and node fields
+        response.body.supportsDataBreakpoints = true;
+
+        // This debug adapter supports breaking on functions by name
+        response.body.supportsFunctionBreakpoints = true;
+
+        // This debug adapter supports choosing which kinds of runtime errors to break on
+        response.body.exceptionBreakpointFilters = [{
+            filter: ExceptionBreakpointFilter.runtimeErrors,
+            label: 'Runtime errors',
+            description: 'Break on every runtime error',
+            default: true
+        }, {
+            filter: ExceptionBreakpointFilter.taskRuntimeErrors,
+            label: 'Uncaught runtime errors in Task threads',
+            description: 'Break on runtime errors that happen in Task threads (only needed when "Runtime errors" is disabled)',
+            default: false
+        }, {
+            filter: ExceptionBreakpointFilter.stopStatements,
+            label: 'STOP statements',
+            description: 'Break on STOP statements in the code',
+            default: true
+        }];
+
+        // This debug adapter supports getting the details of the current runtime error
+        response.body.supportsExceptionInfoRequest = true;
+
+        // This debug adapter supports editing primitives, AA keys and array elements from the variables panel and watch expressions
+        response.body.supportsSetVariable = true;
+        response.body.supportsSetExpression = true;
+
+        // This debug adapter supports completions in the debug console
+        response.body.supportsCompletionsRequest = true;
+        response.body.completionTriggerCharacters = ['.'];
+
+        // This debug adapter supports stepping into a specific call on the current line
+        response.body.supportsStepInTargetsRequest = true;
+
         this.sendResponse(response);
 
         //register the debug output log transport writer
@@ -186,9 +286,14 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         this.sendEvent(new PopupMessageEvent(message, severity));
     }
 
-    public async launchRequest(response: DebugProtocol.LaunchResponse, config: LaunchConfiguration) {
-        this.logger.log('[launchRequest] begin');
-        this.launchConfiguration = config;
+    /**
+     * Store the launch configuration (merged with any defaults) and share it with the managers
+     */
+    private async initializeLaunchConfiguration(config: LaunchConfiguration) {
+        this.launchConfiguration = {
+            ...this.defaultLaunchConfiguration ?? {},
+            ...config
+        };
 
         //set the logLevel provided by the launch config
         if (this.launchConfiguration.logLevel) {
@@ -207,6 +312,35 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         this.projectManager.launchConfiguration = this.launchConfiguration;
         this.breakpointManager.launchConfiguration = this.launchConfiguration;
 
+        await this.restoreBreakpoints();
+    }
+
+    /**
+     * Restore the breakpoints saved by a previous session (see `persistBreakpoints`), and tell the client about them
+     */
+    private async restoreBreakpoints() {
+        const breakpoints = await this.breakpointManager.restoreBreakpoints();
+        if (breakpoints.length > 0) {
+            util.log(`Restored ${breakpoints.length} breakpoint(s) from '${this.breakpointManager.getBreakpointStateFilePath()}'`);
+        }
+        for (const breakpoint of breakpoints) {
+            const event: DebugProtocol.Breakpoint = {
+                line: breakpoint.line,
+                column: breakpoint.column,
+                verified: breakpoint.verified,
+                id: breakpoint.id,
+                source: {
+                    path: breakpoint.srcPath
+                }
+            };
+            this.sendEvent(new BreakpointEvent('new', event));
+        }
+    }
+
+    public async launchRequest(response: DebugProtocol.LaunchResponse, config: LaunchConfiguration) {
+        this.logger.log('[launchRequest] begin');
+        await this.initializeLaunchConfiguration(config);
+
         this.sendEvent(new LaunchStartEvent(this.launchConfiguration));
 
         let error: Error;
@@ -237,34 +371,7 @@ export class BrightScriptDebugSession extends BaseDebugSession {
             //press the home button to ensure we're at the home screen
             await this.rokuDeploy.pressHomeButton(this.launchConfiguration.host, this.launchConfiguration.remotePort);
 
-            //pass the debug functions used to locate the client files and lines thought the adapter to the RendezvousTracker
-            this.rokuAdapter.registerSourceLocator(async (debuggerPath: string, lineNumber: number) => {
-                return this.projectManager.getSourceLocation(debuggerPath, lineNumber);
-            });
-
-            //pass the log level down thought the adapter to the RendezvousTracker and ChanperfTracker
-            this.rokuAdapter.setConsoleOutput(this.launchConfiguration.consoleOutput);
-
-            //pass along the console output
-            if (this.launchConfiguration.consoleOutput === 'full') {
-                this.rokuAdapter.on('console-output', (data) => {
-                    this.sendLogOutput(data);
-                });
-            } else {
-                this.rokuAdapter.on('unhandled-console-output', (data) => {
-                    this.sendLogOutput(data);
-                });
-            }
-
-            // Send chanperf events to the extension
-            this.rokuAdapter.on('chanperf', (output) => {
-                this.sendEvent(new ChanperfEvent(output));
-            });
-
-            // Send rendezvous events to the extension
-            this.rokuAdapter.on('rendezvous', (output) => {
-                this.sendEvent(new RendezvousEvent(output));
-            });
+            this.registerRokuAdapterOutputHandlers();
 
             //listen for a closed connection (shut down when received)
             this.rokuAdapter.on('close', (reason = '') => {
@@ -280,29 +387,6 @@ export class BrightScriptDebugSession extends BaseDebugSession {
                 void this.handleDiagnostics(diagnostics);
             });
 
-            // close disconnect if required when the app is exited
-            // eslint-disable-next-line @typescript-eslint/no-misused-promises
-            this.rokuAdapter.on('app-exit', async () => {
-                if (this.launchConfiguration.stopDebuggerOnAppExit || !this.rokuAdapter.supportsMultipleRuns) {
-                    let message = `App exit event detected${this.rokuAdapter.supportsMultipleRuns ? ' and launchConfiguration.stopDebuggerOnAppExit is true' : ''}`;
-                    message += ' - shutting down debug session';
-
-                    this.logger.log('on app-exit', message);
-                    this.sendEvent(new LogOutputEvent(message));
-                    if (this.rokuAdapter) {
-                        void this.rokuAdapter.destroy();
-                    }
-                    //return to the home screen
-                    await this.rokuDeploy.pressHomeButton(this.launchConfiguration.host, this.launchConfiguration.remotePort);
-                    this.shutdown();
-                    this.sendEvent(new TerminatedEvent());
-                } else {
-                    const message = 'App exit detected; but launchConfiguration.stopDebuggerOnAppExit is set to false, so keeping debug session running.';
-                    this.logger.log('[launchRequest]', message);
-                    this.sendEvent(new LogOutputEvent(message));
-                }
-            });
-
             //ignore the compile error failure from within the publish
             (this.launchConfiguration as any).failOnCompileError = false;
             // Set the remote debug flag on the args to be passed to roku deploy so the socket debugger can be started if needed.
@@ -349,23 +433,315 @@ export class BrightScriptDebugSession extends BaseDebugSession {
             return;
         }
 
+        if (this.launchConfiguration.hotReload) {
+            this.watchForHotReload();
+        }
+
         //at this point, the project has been deployed. If we need to use a deep link, launch it now.
         if (this.launchConfiguration.deepLinkUrl) {
-            //wait until the first entry breakpoint has been hit
-            await this.firstRunDeferred.promise;
-            //if we are at a breakpoint, continue
-            await this.rokuAdapter.continue();
-            //kill the app on the roku
+            await this.launchDeepLink();
+        }
+    }
+
+    /**
+     * Relaunch the channel using `deepLinkUrl` once it has started running
+     */
+    private async launchDeepLink() {
+        //wait until the first entry breakpoint has been hit
+        await this.firstRunDeferred.promise;
+        //if we are at a breakpoint, continue
+        await this.rokuAdapter.continue();
+        //kill the app on the roku
+        await this.rokuDeploy.pressHomeButton(this.launchConfiguration.host, this.launchConfiguration.remotePort);
+        //convert a hostname to an ip address
+        const deepLinkUrl = await util.resolveUrl(this.launchConfiguration.deepLinkUrl);
+        //send the deep link http request
+        await new Promise((resolve, reject) => {
+            request.post(deepLinkUrl, (err, response) => {
+                return err ? reject(err) : resolve(response);
+            });
+        });
+    }
+
+    /**
+     * The watchers for every folder that contains files from the main project (see `hotReload`)
+     */
+    private hotReloadWatchers = [] as fsExtra.FSWatcher[];
+
+    /**
+     * The files that have changed since the last hot reload
+     */
+    private hotReloadFilePaths = new Set<string>();
+
+    private hotReloadTimer: NodeJS.Timeout;
+
+    /**
+     * Hot reloads run one at a time, so changes made during a reload are picked up by the next one
+     */
+    private hotReloadPromise = Promise.resolve();
+
+    /**
+     * Watch the `.brs` and `.xml` files of the main project, and hot reload the channel whenever they change
+     */
+    private watchForHotReload() {
+        const directories = new Set(
+            this.projectManager.mainProject.fileMappings.map(x => path.dirname(x.src))
+        );
+        for (const directory of directories) {
+            try {
+                this.hotReloadWatchers.push(
+                    fsExtra.watch(directory, (eventType, fileName) => {
+                        if (fileName && /\.(brs|xml)$/i.test(fileName)) {
+                            this.queueHotReload(s`${directory}/${fileName}`);
+                        }
+                    })
+                );
+            } catch (e) {
+                this.logger.warn(`Unable to watch '${directory}' for hot reload`, e);
+            }
+        }
+    }
+
+    /**
+     * Hot reload the given file once no more changes have arrived for `hotReloadDelay` milliseconds
+     */
+    private queueHotReload(filePath: string) {
+        this.hotReloadFilePaths.add(filePath);
+        clearTimeout(this.hotReloadTimer);
+        this.hotReloadTimer = setTimeout(() => {
+            const filePaths = [...this.hotReloadFilePaths];
+            this.hotReloadFilePaths.clear();
+            this.hotReloadPromise = this.hotReloadPromise.then(() => this.hotReload(filePaths));
+        }, this.launchConfiguration.hotReloadDelay ?? 300);
+    }
+
+    private stopWatchingForHotReload() {
+        clearTimeout(this.hotReloadTimer);
+        for (const watcher of this.hotReloadWatchers) {
+            watcher.close();
+        }
+        this.hotReloadWatchers = [];
+    }
+
+    /**
+     * Copy the changed files into the existing staging folder, then republish the channel and re-apply the breakpoints.
+     * This skips re-staging the rest of the project, as well as the component libraries
+     * @param filePaths the paths to the files that changed
+     */
+    public async hotReload(filePaths: string[]) {
+        const project = this.projectManager.mainProject;
+        try {
+            let stagingFilePaths = await project.restageFiles(filePaths);
+            if (stagingFilePaths.length === 0) {
+                return;
+            }
+            util.log(`Hot reloading ${stagingFilePaths.length} changed file(s)`);
+
+            if (!this.enableDebugProtocol) {
+                //the staging files that already have `stop` statements need a fresh copy too, so every current breakpoint is written exactly once
+                stagingFilePaths = [
+                    ...stagingFilePaths,
+                    ...await project.restageFiles(this.breakpointManager.getPermanentBreakpointStagingFilePaths())
+                ];
+            }
+            for (const stagingFilePath of stagingFilePaths) {
+                this.sourceMapManager.remove(`${stagingFilePath}.map`);
+            }
+            if (!this.enableDebugProtocol) {
+                await this.breakpointManager.writeBreakpointsForProject(project, stagingFilePaths);
+            } else {
+                //the republished channel has none of the breakpoints, so they all need to be sent again
+                this.breakpointManager.clearLastState();
+            }
+            await project.zipPackage({ retainStagingFolder: true });
+
+            //the channel is about to restart, so replace the adapter with one that is connected to the new instance
+            if (!this.enableDebugProtocol) {
+                this.rokuAdapter.removeAllListeners();
+            }
+            await this.rokuAdapter.destroy();
+            this.rokuAdapterDeferred = defer();
+            this.firstRunDeferred = defer();
+            //the republished channel stops on entry again
+            this.entryBreakpointWasHandled = false;
+            this.clearState();
+
+            this.createRokuAdapter(this.launchConfiguration.host);
+            if (!this.enableDebugProtocol) {
+                await this.connectRokuAdapter();
+            } else {
+                await (this.rokuAdapter as DebugProtocolAdapter).watchCompileOutput();
+            }
             await this.rokuDeploy.pressHomeButton(this.launchConfiguration.host, this.launchConfiguration.remotePort);
-            //convert a hostname to an ip address
-            const deepLinkUrl = await util.resolveUrl(this.launchConfiguration.deepLinkUrl);
-            //send the deep link http request
-            await new Promise((resolve, reject) => {
-                request.post(deepLinkUrl, (err, response) => {
-                    return err ? reject(err) : resolve(response);
-                });
+            this.registerRokuAdapterOutputHandlers();
+            this.rokuAdapter.on('diagnostics', (diagnostics: BSDebugDiagnostic[]) => {
+                void this.handleDiagnostics(diagnostics);
+            });
+
+            await this.connectAndPublish();
+            this.sendEvent(new ChannelPublishedEvent(
+                this.launchConfiguration
+            ));
+            await this.rokuAdapter.activate();
+
+            if (this.launchConfiguration.deepLinkUrl) {
+                await this.launchDeepLink();
+            }
+        } catch (e) {
+            const message = `Hot reload failed: ${(e as Error)?.message}`;
+            util.log(message);
+            this.logger.error(message, e);
+            this.showPopupMessage(message, 'error');
+        }
+    }
+
+    /**
+     * Attach to a channel that is already running on the device (i.e. one that was sideloaded by a previous debug session).
+     * Nothing is staged, packaged or published. Source locations are resolved using the staging folder left behind by that previous session.
+     */
+    public async attachRequest(response: DebugProtocol.AttachResponse, config: LaunchConfiguration) {
+        this.logger.log('[attachRequest] begin');
+        this.isAttached = true;
+        await this.initializeLaunchConfiguration(config);
+
+        try {
+            await this.loadStagedProjects();
+
+            util.log(`Attaching to Roku via ${this.enableDebugProtocol ? 'the BrightScript debug protocol' : 'telnet'} at ${this.launchConfiguration.host}`);
+
+            this.createRokuAdapter(this.launchConfiguration.host);
+            this.registerRokuAdapterOutputHandlers();
+
+            //the channel is already running, so there is no entry breakpoint to skip
+            this.entryBreakpointWasHandled = true;
+
+            await this.connectRokuAdapter(true);
+            if (!this.rokuAdapter.connected) {
+                throw new Error(`Unable to attach to the channel running on ${this.launchConfiguration.host}. ${this.enableDebugProtocol ? 'Was it sideloaded with the debug protocol enabled?' : 'Is another client already connected?'}`);
+            }
+
+            //pass along any breakpoints the client already sent us
+            await this.rokuAdapter.syncBreakpoints();
+
+            await this.rokuAdapter.activate();
+            this.logger.log(`attached to Roku@${this.launchConfiguration.host}`);
+            this.sendResponse(response);
+        } catch (e) {
+            util.log('Encountered an issue while attaching');
+            util.log((e as Error).message);
+            this.logger.error('Error. Shutting down.', e);
+            this.sendErrorResponse(response, -1, (e as Error).message);
+            if (this.rokuAdapter) {
+                void this.rokuAdapter.destroy();
+            }
+            this.shutdown();
+        }
+    }
+
+    /**
+     * Is this session attached to an already-running channel (rather than one that this session launched)
+     */
+    private isAttached = false;
+
+    /**
+     * Load the main project and component libraries from the staging folders created by the session that launched the channel
+     */
+    private async loadStagedProjects() {
+        this.projectManager.mainProject = new Project({
+            rootDir: this.launchConfiguration.rootDir,
+            files: this.launchConfiguration.files,
+            outDir: this.launchConfiguration.outDir,
+            sourceDirs: this.launchConfiguration.sourceDirs,
+            stagingFolderPath: this.launchConfiguration.stagingFolderPath
+        });
+
+        const componentLibrariesOutDir = s`${this.launchConfiguration.outDir}/component-libraries`;
+        const componentLibraries = this.launchConfiguration.componentLibraries ?? [];
+        for (let libraryIndex = 0; libraryIndex < componentLibraries.length; libraryIndex++) {
+            const componentLibrary = componentLibraries[libraryIndex];
+            this.projectManager.addComponentLibraryProject(
+                new ComponentLibraryProject({
+                    rootDir: componentLibrary.rootDir,
+                    files: componentLibrary.files,
+                    outDir: componentLibrariesOutDir,
+                    outFile: componentLibrary.outFile,
+                    sourceDirs: componentLibrary.sourceDirs,
+                    libraryIndex: libraryIndex
+                })
+            );
+        }
+
+        util.log('Loading file mappings from the existing staging folder');
+        await Promise.all(
+            this.projectManager.getAllProjects().map(x => x.loadStagedFileMappings())
+        );
+    }
+
+    /**
+     * Forward the console output, chanperf, rendezvous and app-exit events from the roku adapter to the client
+     */
+    private registerRokuAdapterOutputHandlers() {
+        //pass the debug functions used to locate the client files and lines thought the adapter to the RendezvousTracker
+        this.rokuAdapter.registerSourceLocator(async (debuggerPath: string, lineNumber: number) => {
+            return this.projectManager.getSourceLocation(debuggerPath, lineNumber);
+        });
+
+        //pass the log level down thought the adapter to the RendezvousTracker and ChanperfTracker
+        this.rokuAdapter.setConsoleOutput(this.launchConfiguration.consoleOutput);
+
+        //pass along the console output
+        if (this.launchConfiguration.consoleOutput === 'full') {
+            this.rokuAdapter.on('console-output', (data) => {
+                this.sendLogOutput(data);
+            });
+        } else {
+            this.rokuAdapter.on('unhandled-console-output', (data) => {
+                this.sendLogOutput(data);
             });
         }
+
+        // Send chanperf events to the extension
+        this.rokuAdapter.on('chanperf', (output) => {
+            this.sendEvent(new ChanperfEvent(output));
+        });
+
+        // Send chanperf alerts to the extension, and pause the channel if requested
+        this.rokuAdapter.setChanperfThresholds(this.launchConfiguration.chanperfThresholds);
+        this.rokuAdapter.on('chanperf-alert', (alert) => {
+            this.logger.warn(`Chanperf ${alert.type} threshold exceeded`, alert);
+            this.sendEvent(new ChanperfAlertEvent(alert));
+            if (this.launchConfiguration.chanperfThresholds?.pauseDebugger) {
+                void this.rokuAdapter.pause();
+            }
+        });
+
+        // Send rendezvous events to the extension
+        this.rokuAdapter.on('rendezvous', (output) => {
+            this.sendEvent(new RendezvousEvent(output));
+        });
+
+        // close disconnect if required when the app is exited
+        // eslint-disable-next-line @typescript-eslint/no-misused-promises
+        this.rokuAdapter.on('app-exit', async () => {
+            if (this.launchConfiguration.stopDebuggerOnAppExit || !this.rokuAdapter.supportsMultipleRuns) {
+                let message = `App exit event detected${this.rokuAdapter.supportsMultipleRuns ? ' and launchConfiguration.stopDebuggerOnAppExit is true' : ''}`;
+                message += ' - shutting down debug session';
+
+                this.logger.log('on app-exit', message);
+                this.sendEvent(new LogOutputEvent(message));
+                if (this.rokuAdapter) {
+                    void this.rokuAdapter.destroy();
+                }
+                //return to the home screen
+                await this.rokuDeploy.pressHomeButton(this.launchConfiguration.host, this.launchConfiguration.remotePort);
+                this.shutdown();
+                this.sendEvent(new TerminatedEvent());
+            } else {
+                const message = 'App exit detected; but launchConfiguration.stopDebuggerOnAppExit is set to false, so keeping debug session running.';
+                this.logger.log('[launchRequest]', message);
+                this.sendEvent(new LogOutputEvent(message));
+            }
+        });
     }
 
     /**
@@ -441,12 +817,35 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         }
     }
 
+    /**
+     * The port 8080 connection shared by everything in this session (automatic commands, custom requests and the REPL)
+     */
+    private sceneGraphDebugCommandController: SceneGraphDebugCommandController;
+
+    /**
+     * Get the session's port 8080 controller, creating it if it does not exist yet (or if the host changed).
+     * It keeps its connection open between commands and runs them one at a time, so callers never trample each other
+     */
+    private getSceneGraphDebugCommandController() {
+        const host = this.launchConfiguration.host;
+        if (!this.sceneGraphDebugCommandController || this.sceneGraphDebugCommandController.host !== host) {
+            void this.sceneGraphDebugCommandController?.end();
+            const controller = new SceneGraphDebugCommandController(host);
+            controller.keepAlive = true;
+            //forward anything the device sends between commands (such as the output of `chanperf -r`)
+            controller.on('output', (output) => {
+                this.sendLogOutput(output);
+            });
+            this.sceneGraphDebugCommandController = controller;
+        }
+        return this.sceneGraphDebugCommandController;
+    }
+
     private async runAutomaticSceneGraphCommands(commands: string[]) {
         if (commands) {
-            let connection = new SceneGraphDebugCommandController(this.launchConfiguration.host);
+            let connection = this.getSceneGraphDebugCommandController();
 
             try {
-                await connection.connect();
                 for (let command of this.launchConfiguration.autoRunSgDebugCommands) {
                     let response: SceneGraphCommandResponse;
                     switch (command) {
@@ -483,7 +882,6 @@ export class BrightScriptDebugSession extends BaseDebugSession {
                             break;
                     }
                 }
-                await connection.end();
             } catch (error) {
                 util.log(`Error connecting to port 8080: ${error.message}`);
             }
@@ -532,14 +930,197 @@ export class BrightScriptDebugSession extends BaseDebugSession {
      * Accepts custom events and requests from the extension
      * @param command name of the command to execute
      */
-    protected customRequest(command: string) {
+    protected async customRequest(command: string, response?: DebugProtocol.Response, args?: any) {
         if (command === 'rendezvous.clearHistory') {
             this.rokuAdapter.clearRendezvousHistory();
         }
 
         if (command === 'chanperf.clearHistory') {
-            this.rokuAdapter.clearChanperfHistory();
+            try {
+                this.rokuAdapter.clearChanperfHistory();
+                this.sendResponse(response);
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+        }
+
+        if (command === 'chanperf.getSummary') {
+            try {
+                const windowSeconds = (args as { windowSeconds?: number })?.windowSeconds;
+                response.body = this.rokuAdapter.getChanperfSummary(windowSeconds > 0 ? windowSeconds * 1000 : undefined);
+                this.sendResponse(response);
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+        }
+
+        if (command === 'rendezvous.exportHistory' || command === 'rendezvous.importHistory' || command === 'rendezvous.compareHistory') {
+            try {
+                response.body = await this.handleRendezvousHistoryRequest(command, (args ?? {}) as RendezvousHistoryRequestArguments);
+                this.sendResponse(response);
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+        }
+
+        if (command === 'sceneGraph.getNodeTree') {
+            try {
+                const tree = await this.getSceneGraphNodeTree((args as { filter?: string })?.filter);
+                response.body = tree;
+                this.sendResponse(response);
+                this.sendEvent(new SceneGraphNodeTreeEvent(tree));
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+        }
+
+        if (command === 'sceneGraph.exec') {
+            try {
+                response.body = await this.execSceneGraphCommand((args as { command?: string })?.command);
+                this.sendResponse(response);
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+        }
+
+        if (ecpCommands.includes(command)) {
+            try {
+                response.body = await this.handleEcpRequest(command, (args ?? {}) as EcpRequestArguments);
+                this.sendResponse(response);
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+        }
+
+        if (command === 'runToLine') {
+            try {
+                const { path, line } = (args ?? {}) as RunToLineRequestArguments;
+                if (!this.enableDebugProtocol) {
+                    throw new Error('Run to line is only supported when using the debug protocol');
+                }
+                await this.runToLocations([{ srcPath: path, line: line }]);
+                this.sendResponse(response);
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+        }
+
+        if (command === 'leaks.takeSnapshot' || command === 'leaks.compareSnapshots' || command === 'leaks.clearSnapshots') {
+            try {
+                response.body = await this.handleLeakRequest(command, (args ?? {}) as LeakRequestArguments);
+                this.sendResponse(response);
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+        }
+    }
+
+    /**
+     * Press remote keys, launch the channel, or query the state of the device through ECP (port 8060)
+     */
+    private async handleEcpRequest(command: string, args: EcpRequestArguments) {
+        const client = new EcpClient(this.launchConfiguration.host, this.launchConfiguration.remotePort);
+        if (command === 'ecp.keypress' || command === 'ecp.keydown' || command === 'ecp.keyup') {
+            const keys = args.keys ?? (args.key ? [args.key] : []);
+            if (keys.length === 0) {
+                throw new Error('At least one key is required');
+            }
+            //keys are sent one at a time so they arrive in order
+            for (const key of keys) {
+                if (command === 'ecp.keypress') {
+                    await client.keypress(key);
+                } else if (command === 'ecp.keydown') {
+                    await client.keydown(key);
+                } else {
+                    await client.keyup(key);
+                }
+            }
+        } else if (command === 'ecp.launch') {
+            await client.launch(args.appId, args.params);
+        } else if (command === 'ecp.input') {
+            await client.input(args.params);
+        } else if (command === 'ecp.getDeviceInfo') {
+            return client.getDeviceInfo();
+        } else if (command === 'ecp.getActiveApp') {
+            return client.getActiveApp();
+        } else if (command === 'ecp.getMediaPlayer') {
+            return client.getMediaPlayer();
+        } else {
+            return client.getInstalledApps();
+        }
+    }
+
+    /**
+     * Take a snapshot of the nodes and textures on the device, compare two snapshots (optionally writing the report to `outDir`), or clear the snapshots
+     */
+    private async handleLeakRequest(command: string, args: LeakRequestArguments) {
+        if (command === 'leaks.takeSnapshot') {
+            const connection = this.getSceneGraphDebugCommandController();
+            const nodes = await connection.sgnodes('all');
+            const textures = await connection.loadedTextures();
+            const error = nodes.error ?? textures.error;
+            if (error) {
+                throw new Error(`Unable to take a snapshot: ${error.message}`);
+            }
+            return this.leakDetector.addSnapshot(args.name, nodes.result.data, textures.result.data);
+        } else if (command === 'leaks.compareSnapshots') {
+            const report = this.leakDetector.compare(args.baseline, args.current);
+            if (args.writeToFile) {
+                const fileName = `leaks-${report.baseline}-${report.current}.json`.replace(/[^\w.-]+/g, '_');
+                report.filePath = s`${this.launchConfiguration.outDir}/${fileName}`;
+                await fsExtra.outputJson(report.filePath, report, { spaces: 4 });
+            }
+            return report;
+        } else {
+            this.leakDetector.clearSnapshots();
+        }
+    }
+
+    /**
+     * Run a raw SceneGraph debug command on port 8080 (after any commands already in flight)
+     */
+    private async execSceneGraphCommand(command: string) {
+        if (!command?.trim()) {
+            throw new Error('A SceneGraph debug command is required');
+        }
+        const response = await this.getSceneGraphDebugCommandController().exec(command.trim());
+        if (response.error) {
+            throw new Error(`Unable to run SceneGraph debug command '${command.trim()}': ${response.error.message}`);
+        }
+        return response.result;
+    }
+
+    /**
+     * Run `sgnodes` on the device to get a fresh snapshot of the SceneGraph node hierarchy
+     * @param filter `all` (the default), `roots`, or the id of the node(s) to print
+     */
+    private async getSceneGraphNodeTree(filter = 'all'): Promise<SceneGraphNodeTree> {
+        const response = await this.getSceneGraphDebugCommandController().sgnodes(filter);
+        if (response.error) {
+            throw new Error(`Unable to get the SceneGraph node tree: ${response.error.message}`);
+        }
+        return {
+            ...response.result.data,
+            filter: filter,
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Export the rendezvous history (optionally to a file), or import a previously exported history and compare the current history against it
+     */
+    private async handleRendezvousHistoryRequest(command: string, args: RendezvousHistoryRequestArguments) {
+        if (command === 'rendezvous.exportHistory') {
+            const content = this.rokuAdapter.exportRendezvousHistory(args.format);
+            if (args.filePath) {
+                await fsExtra.outputFile(args.filePath, content);
+            }
+            return { content: content };
+        } else if (command === 'rendezvous.importHistory') {
+            const content = args.content ?? (await fsExtra.readFile(args.filePath)).toString();
+            this.rokuAdapter.importRendezvousHistory(content);
         }
+        return this.rokuAdapter.compareRendezvousHistory();
     }
 
     /**
@@ -612,31 +1193,133 @@ export class BrightScriptDebugSession extends BaseDebugSession {
             old.apply(this, args);
             this.sendResponse = old;
         };
-        super.sourceRequest(response, args);
-    }
+        super.sourceRequest(response, args);
+    }
+
+    protected configurationDoneRequest(response: DebugProtocol.ConfigurationDoneResponse, args: DebugProtocol.ConfigurationDoneArguments) {
+        this.logger.log('configurationDoneRequest');
+    }
+
+    /**
+     * Called every time a breakpoint is created, modified, or deleted, for each file. This receives the entire list of breakpoints every time.
+     */
+    public async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments) {
+        let sanitizedBreakpoints = this.breakpointManager.replaceBreakpoints(args.source.path, args.breakpoints);
+        //sort the breakpoints
+        let sortedAndFilteredBreakpoints = orderBy(sanitizedBreakpoints, [x => x.line, x => x.column]);
+
+        response.body = {
+            breakpoints: sortedAndFilteredBreakpoints
+        };
+        this.sendResponse(response);
+
+        await this.rokuAdapter?.syncBreakpoints();
+    }
+
+    /**
+     * Called by the client to find out if a data breakpoint can be set on the given variable
+     */
+    protected dataBreakpointInfoRequest(response: DebugProtocol.DataBreakpointInfoResponse, args: DebugProtocol.DataBreakpointInfoArguments) {
+        let expression = args.name;
+        //find the full expression for this child variable
+        const parent = args.variablesReference ? this.variables[args.variablesReference] : undefined;
+        if (parent) {
+            const child = parent.childVariables?.find(x => x.name === args.name);
+            expression = child?.evaluateName ?? `${parent.evaluateName}.${args.name}`;
+        }
+
+        const key = this.breakpointManager.getDataBreakpointKey(expression);
+        if (key) {
+            //the writes are found by scanning the source code, so be clear about what will actually stop
+            const receiver = this.breakpointManager.getDataBreakpointReceiver(expression);
+            const objectDescription = receiver ? `'${receiver}' (or on an object that is only known at runtime)` : 'any object';
+            response.body = {
+                dataId: expression,
+                description: `Break on every statement that sets '${key}' on ${objectDescription}, even if the value does not change`,
+                accessTypes: ['write'],
+                canPersist: true
+            };
+        } else {
+            response.body = {
+                dataId: null,
+                description: 'Data breakpoints are only supported on AA keys and node fields (i.e. `m.top.someField`)'
+            };
+        }
+        this.sendResponse(response);
+    }
+
+    /**
+     * Called every time a data breakpoint is created, modified, or deleted. This receives the entire list of data breakpoints every time.
+     * Every statement that writes to the watched key is turned into a regular breakpoint, so (like regular breakpoints)
+     * telnet sessions only pick up changes on the next launch.
+     */
+    protected async setDataBreakpointsRequest(response: DebugProtocol.SetDataBreakpointsResponse, args: DebugProtocol.SetDataBreakpointsArguments) {
+        const projects = this.projectManager.getAllProjects();
+        const dataBreakpoints = await this.breakpointManager.replaceDataBreakpoints(args.breakpoints, projects);
+        const unverifiedMessage = projects.length > 0 ? 'No statements were found that write to' : 'Waiting for the channel to be staged to find statements that write to';
+
+        response.body = {
+            breakpoints: dataBreakpoints.map(x => ({
+                id: x.id,
+                verified: x.verified,
+                message: x.verified ? undefined : `${unverifiedMessage} '${x.dataId}'`
+            }))
+        };
+        this.sendResponse(response);
 
-    protected configurationDoneRequest(response: DebugProtocol.ConfigurationDoneResponse, args: DebugProtocol.ConfigurationDoneArguments) {
-        this.logger.log('configurationDoneRequest');
+        await this.rokuAdapter?.syncBreakpoints();
     }
 
     /**
-     * Called every time a breakpoint is created, modified, or deleted, for each file. This receives the entire list of breakpoints every time.
+     * Called every time a function breakpoint is created, modified, or deleted. This receives the entire list of function breakpoints every time.
+     * Every matching function declaration is turned into a regular breakpoint, so (like regular breakpoints)
+     * telnet sessions only pick up changes on the next launch.
      */
-    public async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments) {
-        let sanitizedBreakpoints = this.breakpointManager.replaceBreakpoints(args.source.path, args.breakpoints);
-        //sort the breakpoints
-        let sortedAndFilteredBreakpoints = orderBy(sanitizedBreakpoints, [x => x.line, x => x.column]);
+    protected async setFunctionBreakPointsRequest(response: DebugProtocol.SetFunctionBreakpointsResponse, args: DebugProtocol.SetFunctionBreakpointsArguments) {
+        const projects = this.projectManager.getAllProjects();
+        const functionBreakpoints = this.breakpointManager.replaceFunctionBreakpoints(args.breakpoints, projects);
+        const unverifiedMessage = projects.length > 0 ? 'No function declarations were found for' : 'Waiting for the channel to be staged to find function declarations for';
 
         response.body = {
-            breakpoints: sortedAndFilteredBreakpoints
+            breakpoints: functionBreakpoints.map(x => ({
+                id: x.id,
+                verified: x.verified,
+                message: x.verified ? undefined : `${unverifiedMessage} '${x.name}'`
+            }))
         };
         this.sendResponse(response);
 
         await this.rokuAdapter?.syncBreakpoints();
     }
 
+    /**
+     * Called by the client with the full list of selected exception breakpoint filters
+     */
+    protected setExceptionBreakPointsRequest(response: DebugProtocol.SetExceptionBreakpointsResponse, args: DebugProtocol.SetExceptionBreakpointsArguments) {
+        this.logger.log('setExceptionBreakPointsRequest', args);
+        this.exceptionBreakpointFilters = args.filters ?? [];
+        this.sendResponse(response);
+    }
+
     protected exceptionInfoRequest(response: DebugProtocol.ExceptionInfoResponse, args: DebugProtocol.ExceptionInfoArguments) {
         this.logger.log('exceptionInfoRequest');
+        if (!this.exception || this.exception.threadId !== args.threadId) {
+            return this.sendErrorResponse(response, 1001, 'There is no exception on this thread');
+        }
+        const errorInfo = getRuntimeErrorInfo(this.exception.errorCode, this.exception.message);
+        const errorCode = errorInfo?.errorCode ?? this.exception.errorCode;
+        response.body = {
+            exceptionId: errorCode,
+            description: this.exception.message,
+            breakMode: 'always',
+            details: {
+                message: this.exception.message,
+                typeName: errorInfo?.name,
+                evaluateName: errorCode,
+                stackTrace: errorInfo ? `${errorInfo.name} (${errorInfo.errorCode}): ${errorInfo.description}` : undefined
+            }
+        };
+        this.sendResponse(response);
     }
 
     protected async threadsRequest(response: DebugProtocol.ThreadsResponse) {
@@ -698,6 +1381,10 @@ export class BrightScriptDebugSession extends BaseDebugSession {
                         this.logger.error('Error correcting function identifier case', { error, sourceLocation, debugFrame });
                     }
                     const filePath = sourceLocation?.filePath ?? debugFrame.filePath;
+                    this.stackFrameLocations.set(debugFrame.frameId, {
+                        filePath: filePath,
+                        lineNumber: sourceLocation?.lineNumber ?? debugFrame.lineNumber
+                    });
 
                     const frame: DebugProtocol.StackFrame = new StackFrame(
                         debugFrame.frameId,
@@ -755,6 +1442,15 @@ export class BrightScriptDebugSession extends BaseDebugSession {
                 scopes.push(new Scope('Local', this.variableHandles.create('local'), false));
             }
 
+            //the component scopes are only looked up once the client expands them
+            if (this.enableDebugProtocol || this.launchConfiguration.enableVariablesPanel) {
+                scopes.push(
+                    this.createLazyScope('m', 'm', args.frameId, false),
+                    this.createLazyScope('m.top', 'm.top', args.frameId, false),
+                    this.createLazyScope('Global', 'm.global', args.frameId, true)
+                );
+            }
+
             response.body = {
                 scopes: scopes
             };
@@ -766,6 +1462,25 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         }
     }
 
+    /**
+     * Create a scope for the given expression. The scope's variables are fetched by `variablesRequest` the first time it gets expanded
+     */
+    private createLazyScope(name: string, expression: string, frameId: number, expensive: boolean) {
+        //use a dedicated key so the scope doesn't collide with an evaluated (or hovered) variable of the same name
+        const refId = this.getEvaluateRefId(`scope:${expression}`, frameId);
+        if (!this.variables[refId]) {
+            this.variables[refId] = {
+                name: name,
+                value: '',
+                evaluateName: expression,
+                variablesReference: refId,
+                frameId: frameId,
+                childVariables: []
+            };
+        }
+        return new Scope(name, refId, expensive);
+    }
+
     protected async continueRequest(response: DebugProtocol.ContinueResponse, args: DebugProtocol.ContinueArguments) {
         this.logger.log('continueRequest');
         await this.rokuAdapter.continue();
@@ -791,9 +1506,11 @@ export class BrightScriptDebugSession extends BaseDebugSession {
     protected async nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments) {
         this.logger.log('[nextRequest] begin');
         try {
+            await this.setPendingStep('over', args.threadId);
             await this.rokuAdapter.stepOver(args.threadId);
             this.logger.info('[nextRequest] end');
         } catch (error) {
+            this.pendingStep = undefined;
             this.logger.error(`[nextRequest] Error running '${BrightScriptDebugSession.prototype.nextRequest.name}()'`, error);
         }
         this.sendResponse(response);
@@ -801,13 +1518,104 @@ export class BrightScriptDebugSession extends BaseDebugSession {
 
     protected async stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments) {
         this.logger.log('[stepInRequest]');
-        await this.rokuAdapter.stepInto(args.threadId);
+        const target = this.stepInTargets.find(x => x.id === args.targetId);
+        //step into a specific call by stopping at the start of every function with that name
+        const locations = target && this.enableDebugProtocol ? this.breakpointManager.getFunctionEntryLocations(target.name, this.projectManager.getAllProjects()) : [];
+        if (locations.length > 0) {
+            await this.runToLocations(locations);
+        } else {
+            await this.setPendingStep('in', args.threadId);
+            await this.rokuAdapter.stepInto(args.threadId);
+        }
         this.sendResponse(response);
         this.logger.info('[stepInRequest] end');
     }
 
+    /**
+     * The source location of every stack frame sent to the client, indexed by frameId
+     */
+    private stackFrameLocations = new Map<number, { filePath: string; lineNumber: number }>();
+
+    /**
+     * The most recent step-in targets sent to the client
+     */
+    private stepInTargets = [] as Array<DebugProtocol.StepInTarget & { name: string }>;
+
+    private stepInTargetIdSequence = 1;
+
+    /**
+     * Get the function calls on the current line of the given stack frame
+     */
+    protected stepInTargetsRequest(response: DebugProtocol.StepInTargetsResponse, args: DebugProtocol.StepInTargetsArguments) {
+        this.logger.log('[stepInTargetsRequest]', { args });
+        const location = this.stackFrameLocations.get(args.frameId);
+        const line = this.fileManager.getCodeFile(location?.filePath)?.lines[location?.lineNumber - 1];
+        this.stepInTargets = util.getFunctionCalls(line ?? '').map(call => ({
+            id: this.stepInTargetIdSequence++,
+            label: call.label,
+            name: call.name
+        }));
+        response.body = {
+            targets: this.stepInTargets.map(x => ({ id: x.id, label: x.label }))
+        };
+        this.sendResponse(response);
+    }
+
+    /**
+     * Set when the client asks to step, and cleared on the next suspend. A step that lands on a logpoint or
+     * a hit-counted breakpoint must still stop there, rather than being continued like a hit of that breakpoint
+     */
+    private pendingStep: { type: 'over' | 'in' | 'out'; threadId: number; stackDepth: number };
+
+    /**
+     * Remember the step the client asked for, and how deep the thread's stack was when it started
+     */
+    private async setPendingStep(type: 'over' | 'in' | 'out', threadId: number) {
+        let stackDepth: number;
+        try {
+            stackDepth = (await this.rokuAdapter.getStackTrace(threadId))?.length;
+        } catch (e) {
+            this.logger.warn('Could not get the stack trace before stepping', e);
+        }
+        this.pendingStep = { type: type, threadId: threadId, stackDepth: stackDepth };
+    }
+
+    /**
+     * Determine whether the pending step is what stopped the thread. Stepping over a call (or out of a function) never stops deeper
+     * than where the step started, and stepping in goes at most one call deeper, so a deeper stop is a breakpoint inside a call the step ran
+     */
+    private isStepLanding(step: BrightScriptDebugSession['pendingStep'], threadId: number, stackDepth: number) {
+        if (!step) {
+            return false;
+        }
+        //without both stack depths there's no telling where the step was going to land, so assume it landed
+        if (step.stackDepth === undefined || stackDepth === undefined) {
+            return true;
+        }
+        if (threadId !== step.threadId) {
+            return false;
+        }
+        let maxStackDepth = step.stackDepth;
+        if (step.type === 'in') {
+            maxStackDepth++;
+        } else if (step.type === 'out') {
+            maxStackDepth--;
+        }
+        return stackDepth <= maxStackDepth;
+    }
+
+    /**
+     * Set one-shot breakpoints at the given locations and continue. They are removed the next time the debugger suspends
+     */
+    private async runToLocations(locations: Array<{ srcPath: string; line: number }>) {
+        this.breakpointManager.setRunToLocations(locations);
+        await this.rokuAdapter.syncBreakpoints();
+        await this.rokuAdapter.continue();
+    }
+
     protected async stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments) {
         this.logger.log('[stepOutRequest] begin');
+        await this.setPendingStep('out', args.threadId);
         await this.rokuAdapter.stepOut(args.threadId);
         this.sendResponse(response);
         this.logger.info('[stepOutRequest] end');
@@ -861,8 +1669,8 @@ export class BrightScriptDebugSession extends BaseDebugSession {
                 if (v.childVariables.length === 0) {
                     let result = await this.rokuAdapter.getVariable(v.evaluateName, v.frameId);
                     let tempVar = this.getVariableFromResult(result, v.frameId);
-                    tempVar.frameId = v.frameId;
-                    v.childVariables = tempVar.childVariables;
+                    //the lookup comes back empty when the expression doesn't exist here (i.e. `m.top` outside of a component)
+                    v.childVariables = tempVar?.childVariables ?? [];
                 }
                 childVariables = v.childVariables;
             }
@@ -885,10 +1693,233 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         this.sendResponse(response);
     }
 
+    /**
+     * Called when the user edits a value in the variables panel
+     */
+    protected async setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments) {
+        const logger = this.logger.createLogger('[setVariableRequest]');
+        logger.log('begin', { args });
+        try {
+            let evaluateName: string;
+            let frameId: number;
+            // NOTE: Legacy telnet support for local vars
+            if (this.variableHandles.get(args.variablesReference)) {
+                evaluateName = args.name;
+                frameId = -1;
+            } else {
+                const parent = this.variables[args.variablesReference];
+                const variable = parent?.childVariables?.find(x => x.name === args.name);
+                if (!variable) {
+                    throw new Error(`Variable reference has expired`);
+                }
+                evaluateName = variable.evaluateName;
+                frameId = variable.frameId;
+            }
+            response.body = await this.assignVariable(evaluateName, args.value, frameId);
+        } catch (error) {
+            logger.error('Error during setVariableRequest', error, { args });
+            response.success = false;
+            response.message = error?.message ?? 'Error during setVariableRequest';
+        }
+        this.sendResponse(response);
+        logger.info('end', { response });
+    }
+
+    /**
+     * Called when the user edits the value of a watch expression
+     */
+    protected async setExpressionRequest(response: DebugProtocol.SetExpressionResponse, args: DebugProtocol.SetExpressionArguments) {
+        const logger = this.logger.createLogger('[setExpressionRequest]');
+        logger.log('begin', { args });
+        try {
+            //only variables (and their keys and indexes) can be assigned to
+            if (!util.getVariablePath(args.expression)) {
+                throw new Error(`Cannot assign a value to "${args.expression}"`);
+            }
+            response.body = await this.assignVariable(args.expression, args.value, args.frameId ?? -1);
+        } catch (error) {
+            logger.error('Error during setExpressionRequest', error, { args });
+            response.success = false;
+            response.message = error?.message ?? 'Error during setExpressionRequest';
+        }
+        this.sendResponse(response);
+        logger.info('end', { response });
+    }
+
+    /**
+     * Run an assignment statement on the device, then look the variable up again so the client gets its new value
+     * @param evaluateName the full path to the variable (i.e. `m.person["name"]`)
+     * @param value the brightscript expression to assign to the variable
+     */
+    private async assignVariable(evaluateName: string, value: string, frameId: number) {
+        //wait for any `evaluate` commands to finish so we have a higher likely hood of being at a debugger prompt
+        await this.evaluateRequestPromise;
+        if (!this.rokuAdapter.isAtDebuggerPrompt) {
+            throw new Error('Debug session is not paused');
+        }
+        const result = await this.rokuAdapter.evaluate(`${evaluateName} = ${value}`, frameId);
+        //a successful assignment prints nothing, so any telnet output is an error message
+        const message = typeof result?.message === 'string' ? util.trimDebugPrompt(result.message).trim() : undefined;
+        if (result?.type === 'error' || message) {
+            throw new Error(message || `Unable to set "${evaluateName}"`);
+        }
+
+        //the assignment could have changed any other variable (i.e. a reference to the same AA), so refresh them all
+        this.clearState();
+        this.sendInvalidatedEvent(null, frameId);
+
+        const variable = this.getVariableFromResult(
+            await this.rokuAdapter.getVariable(evaluateName, frameId, true),
+            frameId
+        );
+        return {
+            value: variable?.value ?? value,
+            type: variable?.type,
+            variablesReference: variable?.variablesReference ?? 0,
+            namedVariables: variable?.namedVariables ?? 0,
+            indexedVariables: variable?.indexedVariables ?? 0
+        };
+    }
+
+    /**
+     * Called when the user types in the debug console. Suggests the variables in scope, the members of the expression before the dot,
+     * and the BrightScript global functions
+     */
+    protected async completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments) {
+        const logger = this.logger.createLogger('[completionsRequest]');
+        logger.log('begin', { args });
+        let targets: DebugProtocol.CompletionItem[] = [];
+        try {
+            const column = this.initRequestArgs?.columnsStartAt1 === false ? args.column : args.column - 1;
+            const { parentExpression, partialName } = getCompletionTarget(args.text.substring(0, column));
+
+            //wait for any `evaluate` commands to finish so we have a higher likely hood of being at a debugger prompt
+            await this.evaluateRequestPromise;
+            if (parentExpression) {
+                targets = await this.getMemberCompletions(parentExpression, args.frameId);
+            } else {
+                targets = [
+                    ...await this.getScopeCompletions(args.frameId),
+                    ...globalFunctions.map(x => ({ label: x, type: 'function' } as DebugProtocol.CompletionItem))
+                ];
+            }
+            const lowerPartialName = partialName.toLowerCase();
+            targets = targets.filter(x => x.label.toLowerCase().startsWith(lowerPartialName));
+        } catch (error) {
+            logger.error('Error during completionsRequest', error, { args });
+            targets = [];
+        }
+        response.body = {
+            targets: targets
+        };
+        this.sendResponse(response);
+        logger.info('end', { response });
+    }
+
+    /**
+     * Get the names of the variables in scope for the given frame
+     */
+    private async getScopeCompletions(frameId: number): Promise<DebugProtocol.CompletionItem[]> {
+        if (!this.rokuAdapter?.isAtDebuggerPrompt) {
+            return [];
+        }
+        let names: string[];
+        if (this.enableDebugProtocol) {
+            const result = await this.rokuAdapter.getVariable('', frameId, true);
+            names = result?.children?.map(x => x.name).filter(x => !this.isEvaluateVariable(x)) ?? [];
+        } else {
+            // NOTE: Legacy telnet support for local vars
+            names = await (this.rokuAdapter as TelnetAdapter).getScopeVariables();
+        }
+        return names.map(x => ({ label: x, type: 'variable' }));
+    }
+
+    /**
+     * Get the keys (and node methods) of the given expression
+     */
+    private async getMemberCompletions(expression: string, frameId: number): Promise<DebugProtocol.CompletionItem[]> {
+        if (!this.rokuAdapter?.isAtDebuggerPrompt || !util.getVariablePath(expression)) {
+            return [];
+        }
+        const result = await this.rokuAdapter.getVariable(expression, frameId, true);
+        const targets: DebugProtocol.CompletionItem[] = [];
+        //array indexes can't be accessed with a dot, and things like `[[count]]` aren't real keys
+        for (const child of result?.children ?? []) {
+            if (/^[a-z_][\w$%!#&]*$/i.test(child.name)) {
+                targets.push({ label: child.name, type: 'property' });
+            }
+        }
+        if (/^rosgnode/i.test(result?.type)) {
+            targets.push(...sceneGraphNodeMethods.map(x => ({ label: x, type: 'method' } as DebugProtocol.CompletionItem)));
+        }
+        return targets;
+    }
+
+    /**
+     * The temporary variable that holds the result of `evaluateExpression`
+     */
+    private evaluateVariableName = '__rokudebug_eval';
+
+    /**
+     * Run an expression on the device by assigning it to a temporary variable, then read that variable back so the result can be expanded like any other variable.
+     * Statements (i.e. `print a`) fail to compile as an assignment, so the caller can still run those as-is.
+     * @returns undefined for assignments, which would compile as a comparison (i.e. `tmp = x = 5`) and need to be run as-is too
+     */
+    private async evaluateExpression(expression: string, frameId: number, context: string) {
+        if (this.isAssignment(expression)) {
+            return undefined;
+        }
+        //every expression uses the same variable, so evaluating doesn't keep adding new variables to the function on the device
+        const variableName = this.evaluateVariableName;
+        const result = await this.rokuAdapter.evaluate(`${variableName} = ${expression}`, frameId);
+        const didRun = result?.type !== 'error' || result.errorType === 'runtime';
+        if (didRun && context !== 'watch') {
+            //clear variable cache since this action could have side-effects
+            this.clearState();
+            this.sendInvalidatedEvent(null, frameId);
+        }
+        if (result?.type === 'error') {
+            return { failure: result };
+        }
+        const container = await this.rokuAdapter.getVariable(variableName, frameId, true);
+        return {
+            variable: this.getVariableFromResult(container, frameId)
+        };
+    }
+
+    /**
+     * Is this the temporary variable created by `evaluateExpression`
+     */
+    private isEvaluateVariable(name: string) {
+        return name?.toLowerCase() === this.evaluateVariableName;
+    }
+
+    /**
+     * Does the text contain an assignment statement (i.e. `x = 5`, `m.a = 1` or `a[0] = 1`)
+     */
+    private isAssignment(text: string) {
+        const { ast } = Parser.parse(text);
+        return ast.statements.some(x => isAssignmentStatement(x) || isDottedSetStatement(x) || isIndexedSetStatement(x));
+    }
+
     private evaluateRequestPromise = Promise.resolve();
 
     public async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments) {
         let deferred = defer<void>();
+        //`>>` sends the rest of the line to the SceneGraph debug server on port 8080
+        if (args.context === 'repl' && args.expression.trim().startsWith('>>')) {
+            try {
+                const result = await this.execSceneGraphCommand(args.expression.replace(/^\s*>>\s*/, ''));
+                response.body = {
+                    result: result.rawResponse,
+                    variablesReference: 0
+                };
+                this.sendResponse(response);
+            } catch (e) {
+                this.sendErrorResponse(response, -1, (e as Error).message);
+            }
+            return;
+        }
         if (args.context === 'repl' && !this.enableDebugProtocol && args.expression.trim().startsWith('>')) {
             this.clearState();
             const expression = args.expression.replace(/^\s*>\s*/, '');
@@ -951,7 +1982,27 @@ export class BrightScriptDebugSession extends BaseDebugSession {
 
                     //run an `evaluate` call
                 } else {
-                    if (args.context === 'repl' || !this.enableDebugProtocol) {
+                    //over the debug protocol, any expression that can be assigned to a variable gets a real (expandable) result
+                    const expressionResult = this.enableDebugProtocol && args.context !== 'hover' ? await this.evaluateExpression(args.expression, args.frameId, args.context) : undefined;
+                    if (expressionResult?.variable) {
+                        const v = expressionResult.variable;
+                        response.body = {
+                            result: v.value,
+                            type: v.type,
+                            variablesReference: v.variablesReference,
+                            namedVariables: v.namedVariables || 0,
+                            indexedVariables: v.indexedVariables || 0
+                        };
+                    } else if (expressionResult?.failure?.errorType === 'runtime') {
+                        //the expression already ran, so don't run it again as a statement
+                        if (args.context === 'repl') {
+                            this.sendEvent(new OutputEvent(expressionResult.failure.message, 'stderr'));
+                        }
+                        response.body = {
+                            result: 'invalid',
+                            variablesReference: 0
+                        };
+                    } else if (args.context === 'repl' || !this.enableDebugProtocol) {
                         let commandResults = await this.rokuAdapter.evaluate(args.expression, args.frameId);
 
                         commandResults.message = util.trimDebugPrompt(commandResults.message);
@@ -1000,14 +2051,16 @@ export class BrightScriptDebugSession extends BaseDebugSession {
      * @param args
      */
     protected async disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments, request?: DebugProtocol.Request) {
+        this.stopWatchingForHotReload();
         if (this.rokuAdapter) {
             await this.rokuAdapter.destroy();
         }
-        //return to the home screen
-        if (!this.enableDebugProtocol) {
+        //return to the home screen (unless we attached to the channel, in which case leave it running)
+        if (!this.enableDebugProtocol && !this.isAttached) {
             await this.rokuDeploy.pressHomeButton(this.launchConfiguration.host, this.launchConfiguration.remotePort);
         }
         this.componentLibraryServer.stop();
+        await this.sceneGraphDebugCommandController?.end();
         this.sendResponse(response);
     }
 
@@ -1021,6 +2074,7 @@ export class BrightScriptDebugSession extends BaseDebugSession {
 
     protected async restartRequest(response: DebugProtocol.RestartResponse, args: DebugProtocol.RestartArguments, request?: DebugProtocol.Request) {
         this.logger.log('[restartRequest] begin');
+        this.stopWatchingForHotReload();
         if (this.rokuAdapter) {
             if (!this.enableDebugProtocol) {
                 this.rokuAdapter.removeAllListeners();
@@ -1028,6 +2082,8 @@ export class BrightScriptDebugSession extends BaseDebugSession {
             await this.rokuAdapter.destroy();
             this.rokuAdapterDeferred = defer();
         }
+        //the relaunched channel starts without any breakpoints, so they all need to be sent again
+        this.breakpointManager.clearLastState();
         await this.launchRequest(response, args.arguments as LaunchConfiguration);
     }
 
@@ -1037,9 +2093,10 @@ export class BrightScriptDebugSession extends BaseDebugSession {
     private entryBreakpointWasHandled = false;
 
     /**
-     * Registers the main events for the RokuAdapter
+     * Registers the main events for the RokuAdapter and connects it to the device
+     * @param attach - if true, connect to a channel that is already running rather than one that is about to be launched
      */
-    private async connectRokuAdapter() {
+    private async connectRokuAdapter(attach = false) {
         this.rokuAdapter.on('start', () => {
             if (!this.firstRunDeferred.isCompleted) {
                 this.firstRunDeferred.resolve();
@@ -1049,18 +2106,26 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         //when the debugger suspends (pauses for debugger input)
         // eslint-disable-next-line @typescript-eslint/no-misused-promises
         this.rokuAdapter.on('suspend', async () => {
+            const pendingStep = this.pendingStep;
+            this.pendingStep = undefined;
+            //the one-shot breakpoints have done their job (or been bypassed by another stop), so remove them
+            const runToLocations = this.breakpointManager.clearRunToLocations();
             //sync breakpoints
             await this.rokuAdapter?.syncBreakpoints();
             this.logger.info('received "suspend" event from adapter');
 
             const threads = await this.rokuAdapter.getThreads();
             const activeThread = threads.find(x => x.isSelected);
+            let activeStackDepth: number;
 
             //TODO remove this once Roku fixes their threads off-by-one line number issues
             //look up the correct line numbers for each thread from the StackTrace
             await Promise.all(
                 threads.map(async (thread) => {
                     const stackTrace = await this.rokuAdapter.getStackTrace(thread.threadId);
+                    if (thread === activeThread) {
+                        activeStackDepth = stackTrace?.length;
+                    }
                     const stackTraceLineNumber = stackTrace[0]?.lineNumber;
                     if (stackTraceLineNumber !== thread.lineNumber) {
                         this.logger.warn(`Thread ${thread.threadId} reported incorrect line (${thread.lineNumber}). Using line from stack trace instead (${stackTraceLineNumber})`, thread, stackTrace);
@@ -1079,13 +2144,71 @@ export class BrightScriptDebugSession extends BaseDebugSession {
                 }
             }
 
+            //a breakpoint hit inside a call that a step ran over is handled like any other breakpoint hit
+            const isStep = this.isStepLanding(pendingStep, activeThread?.threadId, activeStackDepth);
+
+            //STOP statements are handled like exceptions, so the client can choose whether to break on them. A step that lands on one hasn't run it yet
+            if (!isStep && await this.isStopStatement(activeThread)) {
+                if (!this.exceptionBreakpointFilters.includes(ExceptionBreakpointFilter.stopStatements)) {
+                    this.logger.info('Encountered a STOP statement and the STOP statements filter is disabled. Continuing...');
+                    return this.rokuAdapter.continue();
+                }
+                this.clearState();
+                const threadId = activeThread.threadId ?? 0;
+                this.exception = {
+                    threadId: threadId,
+                    errorCode: '&hf7',
+                    message: 'STOP Statement'
+                };
+                const event: StoppedEvent = new StoppedEvent(StoppedEventReason.exception, threadId, this.exception.message);
+                (event.body as any).allThreadsStopped = this.enableDebugProtocol;
+                this.sendEvent(event);
+                return;
+            }
+
             this.clearState();
+            const { dataBreakpoints, functionBreakpoints, runToBreakpoints, logpoints, hitCountedBreakpoints } = await this.getBreakpointsForThread(activeThread, runToLocations);
+            //the device stops on every hit of a breakpoint whose hit condition it can't express, so count the hits here and keep going until the condition is met
+            if (hitCountedBreakpoints.length > 0 && !isStep) {
+                const hitConditionsMet = hitCountedBreakpoints.map(x => this.breakpointManager.recordHit(x));
+                const hasOtherBreakpoints = runToBreakpoints.length > 0 || [...dataBreakpoints, ...functionBreakpoints].some(x => !hitCountedBreakpoints.includes(x));
+                if (!hitConditionsMet.includes(true) && !hasOtherBreakpoints) {
+                    this.logger.info('Encountered a breakpoint whose hit condition is not met yet. Continuing...');
+                    return this.rokuAdapter.continue();
+                }
+            }
+            //logpoints are regular device breakpoints when using the debug protocol, so print their messages and keep going (unless a step ended here)
+            if (logpoints.length > 0 && (isStep || (dataBreakpoints.length === 0 && functionBreakpoints.length === 0 && runToBreakpoints.length === 0))) {
+                await this.printLogpointMessages(activeThread, logpoints);
+                if (!isStep) {
+                    return this.rokuAdapter.continue();
+                }
+            }
+            let reason = StoppedEventReason.breakpoint;
+            if (isStep) {
+                reason = StoppedEventReason.step;
+            } else if (dataBreakpoints.length > 0) {
+                reason = StoppedEventReason.dataBreakpoint;
+            } else if (functionBreakpoints.length > 0) {
+                reason = StoppedEventReason.functionBreakpoint;
+            } else if (runToBreakpoints.length > 0) {
+                //one-shot breakpoints are only used for running to a line or stepping into a specific call
+                reason = StoppedEventReason.step;
+            }
             const event: StoppedEvent = new StoppedEvent(
-                StoppedEventReason.breakpoint,
+                reason,
                 //Not sure why, but sometimes there is no active thread. Just pick thread 0 to prevent the app from totally crashing
                 activeThread?.threadId ?? 0,
                 '' //exception text
             );
+            //when a step caused this stop, the breakpoints on this line were not hit
+            if (dataBreakpoints.length > 0 && !isStep) {
+                (event.body as DebugProtocol.StoppedEvent['body']).description = `About to write to ${dataBreakpoints.map(x => `'${x.dataId}'`).join(', ')}`;
+                (event.body as DebugProtocol.StoppedEvent['body']).hitBreakpointIds = dataBreakpoints.map(x => x.id);
+            } else if (functionBreakpoints.length > 0 && !isStep) {
+                (event.body as DebugProtocol.StoppedEvent['body']).description = `Entered ${functionBreakpoints.map(x => `'${x.name}'`).join(', ')}`;
+                (event.body as DebugProtocol.StoppedEvent['body']).hitBreakpointIds = functionBreakpoints.map(x => x.id);
+            }
             // Socket debugger will always stop all threads and supports multi thread inspection.
             (event.body as any).allThreadsStopped = this.enableDebugProtocol;
             this.sendEvent(event);
@@ -1097,6 +2220,15 @@ export class BrightScriptDebugSession extends BaseDebugSession {
             let rokuAdapter = await this.getRokuAdapter();
             let threads = await rokuAdapter.getThreads();
             let threadId = threads[0]?.threadId;
+            if (!await this.shouldBreakOnRuntimeError(threadId)) {
+                this.logger.info('Encountered a runtime error, but the selected exception breakpoint filters exclude it. Continuing...', exception);
+                return rokuAdapter.continue();
+            }
+            this.exception = {
+                threadId: threadId,
+                errorCode: exception.errorCode,
+                message: exception.message
+            };
             this.sendEvent(new StoppedEvent(StoppedEventReason.exception, threadId, exception.message));
         });
 
@@ -1106,11 +2238,107 @@ export class BrightScriptDebugSession extends BaseDebugSession {
         });
 
         //make the connection
-        await this.rokuAdapter.connect();
+        if (attach) {
+            await this.rokuAdapter.attach();
+        } else {
+            await this.rokuAdapter.connect();
+        }
         this.rokuAdapterDeferred.resolve(this.rokuAdapter);
         return this.rokuAdapter;
     }
 
+    /**
+     * Determine if a runtime error on the given thread should stop the debugger, based on the selected exception breakpoint filters
+     */
+    private async shouldBreakOnRuntimeError(threadId: number) {
+        if (this.exceptionBreakpointFilters.includes(ExceptionBreakpointFilter.runtimeErrors)) {
+            return true;
+        }
+        if (this.exceptionBreakpointFilters.includes(ExceptionBreakpointFilter.taskRuntimeErrors)) {
+            try {
+                //a Task thread starts in the Task's function, so look at the bottom frame of the stack
+                const stackTrace = await this.rokuAdapter.getStackTrace(threadId);
+                const rootFrame = stackTrace[stackTrace.length - 1];
+                return rootFrame ? await this.projectManager.isTaskScript(rootFrame.filePath) : false;
+            } catch (e) {
+                this.logger.error('Error determining if the runtime error happened in a Task thread', e);
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Determine if the thread is stopped on a STOP statement from the code (rather than on a breakpoint or a step)
+     */
+    private async isStopStatement(thread: { filePath: string; lineNumber: number; stopReason?: string }) {
+        if (!thread) {
+            return false;
+        }
+        //the debug protocol says why it stopped. Telnet doesn't, so look at the code instead
+        if (this.enableDebugProtocol) {
+            return thread.stopReason === 'STOP_STATEMENT';
+        }
+        //telnet breakpoints are written as STOP statements, so exclude those
+        if (await this.breakpointManager.lineHasBreakpoint(this.projectManager.getAllProjects(), thread.filePath, thread.lineNumber - 1)) {
+            return false;
+        }
+        try {
+            const stagingFileInfo = await this.projectManager.getStagingFileInfo(thread.filePath);
+            const line = this.fileManager.getCodeFile(stagingFileInfo?.absolutePath)?.lines[thread.lineNumber - 1];
+            return /^\s*stop\s*(?:'.*)?$/i.test(line ?? '');
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Get the data breakpoints, function breakpoints and one-shot breakpoints that caused the thread to stop at its current location (if any)
+     * @param runToLocations the one-shot breakpoints that were active when the thread stopped
+     */
+    private async getBreakpointsForThread(thread: { filePath: string; lineNumber: number }, runToLocations: AugmentedSourceBreakpoint[] = []) {
+        const result = {
+            dataBreakpoints: [] as AugmentedDataBreakpoint[],
+            functionBreakpoints: [] as AugmentedFunctionBreakpoint[],
+            runToBreakpoints: [] as AugmentedSourceBreakpoint[],
+            logpoints: [] as AugmentedSourceBreakpoint[],
+            //the breakpoints whose hit condition the device can't evaluate, so this session counts their hits (debug protocol only)
+            hitCountedBreakpoints: [] as Array<AugmentedSourceBreakpoint | AugmentedDataBreakpoint | AugmentedFunctionBreakpoint>
+        };
+        if (!thread) {
+            return result;
+        }
+        const sourceLocation = await this.projectManager.getSourceLocation(thread.filePath, thread.lineNumber);
+        if (!sourceLocation) {
+            return result;
+        }
+        result.dataBreakpoints = this.breakpointManager.getDataBreakpointsAtSourceLocation(sourceLocation.filePath, sourceLocation.lineNumber);
+        result.functionBreakpoints = this.breakpointManager.getFunctionBreakpointsAtSourceLocation(sourceLocation.filePath, sourceLocation.lineNumber);
+        const srcPath = s`${sourceLocation.filePath}`.toLowerCase();
+        result.runToBreakpoints = runToLocations.filter(x => x.srcPath.toLowerCase() === srcPath && x.line === sourceLocation.lineNumber);
+        //telnet logpoints are written into the code as PRINT statements, so the debugger never stops on them
+        if (this.enableDebugProtocol) {
+            result.logpoints = this.breakpointManager.getLogpointsAtSourceLocation(sourceLocation.filePath, sourceLocation.lineNumber);
+            result.hitCountedBreakpoints = [
+                ...this.breakpointManager.getBreakpointsAtSourceLocation(sourceLocation.filePath, sourceLocation.lineNumber),
+                ...result.dataBreakpoints,
+                ...result.functionBreakpoints
+            ].filter(x => this.breakpointManager.isHitCountedByDebugger(x));
+        }
+        return result;
+    }
+
+    /**
+     * Print the interpolated message of each logpoint, using the values from the thread's current frame
+     */
+    private async printLogpointMessages(thread: { threadId: number }, logpoints: AugmentedSourceBreakpoint[]) {
+        const stackTrace = await this.rokuAdapter.getStackTrace(thread.threadId);
+        for (const logpoint of logpoints) {
+            this.sendLogOutput(
+                await (this.rokuAdapter as DebugProtocolAdapter).getLogpointMessage(logpoint.logMessage, stackTrace[0]?.frameId, this.evaluateVariableName)
+            );
+        }
+    }
+
     private getVariableFromResult(result: EvaluateContainer, frameId: number) {
         let v: AugmentedVariable;
 
@@ -1159,6 +2387,10 @@ export class BrightScriptDebugSession extends BaseDebugSession {
             if (result.children) {
                 let childVariables = [];
                 for (let childContainer of result.children) {
+                    //hide the variables that only exist to hold evaluate results
+                    if (this.isEvaluateVariable(childContainer.name)) {
+                        continue;
+                    }
                     let childVar = this.getVariableFromResult(childContainer, frameId);
                     childVariables.push(childVar);
                 }
@@ -1180,6 +2412,7 @@ export class BrightScriptDebugSession extends BaseDebugSession {
     private clearState() {
         //erase all cached variables
         this.variables = {};
+        this.exception = undefined;
     }
 
     /**
@@ -1210,8 +2443,8 @@ export class BrightScriptDebugSession extends BaseDebugSession {
      * Called when the debugger is terminated
      */
     public shutdown() {
-        //if configured, delete the staging directory
-        if (!this.launchConfiguration.retainStagingFolder) {
+        //if configured, delete the staging directory (but never delete a staging directory that we attached to)
+        if (this.launchConfiguration && !this.launchConfiguration.retainStagingFolder && !this.isAttached) {
             let stagingFolderPaths = this.projectManager.getStagingFolderPaths();
             for (let stagingFolderPath of stagingFolderPaths) {
                 try {
@@ -1225,9 +2458,81 @@ export class BrightScriptDebugSession extends BaseDebugSession {
     }
 }
 
+export enum ExceptionBreakpointFilter {
+    runtimeErrors = 'runtimeErrors',
+    taskRuntimeErrors = 'taskRuntimeErrors',
+    stopStatements = 'stopStatements'
+}
+
 interface AugmentedVariable extends DebugProtocol.Variable {
     childVariables?: AugmentedVariable[];
     // eslint-disable-next-line camelcase
     request_seq?: number;
     frameId?: number;
 }
+
+const ecpCommands = ['ecp.keypress', 'ecp.keydown', 'ecp.keyup', 'ecp.launch', 'ecp.input', 'ecp.getDeviceInfo', 'ecp.getActiveApp', 'ecp.getMediaPlayer', 'ecp.getApps'];
+
+interface EcpRequestArguments {
+    /**
+     * The key to press or release (i.e. `Home`, `Select`, `Down`, `Lit_a`)
+     */
+    key?: string;
+    /**
+     * Several keys to press or release, in order
+     */
+    keys?: string[];
+    /**
+     * The id of the channel to launch. Defaults to `dev` (the sideloaded channel)
+     */
+    appId?: string;
+    /**
+     * The deep link params to pass to the channel
+     */
+    params?: Record<string, string>;
+}
+
+interface RunToLineRequestArguments {
+    /**
+     * The source file to stop in
+     */
+    path: string;
+    /**
+     * The 1-based line to stop at
+     */
+    line: number;
+}
+
+interface LeakRequestArguments {
+    /**
+     * The name of the snapshot to take
+     */
+    name?: string;
+    /**
+     * The name of the snapshot to compare against. Defaults to the first snapshot
+     */
+    baseline?: string;
+    /**
+     * The name of the snapshot to compare. Defaults to the most recent snapshot
+     */
+    current?: string;
+    /**
+     * If true, the report is also written to a json file in `outDir`
+     */
+    writeToFile?: boolean;
+}
+
+interface RendezvousHistoryRequestArguments {
+    /**
+     * The format of the exported history. Defaults to `json`
+     */
+    format?: RendezvousExportFormat;
+    /**
+     * The file to write the exported history to, or to read the imported history from
+     */
+    filePath?: string;
+    /**
+     * The json content of the history to import. Takes precedence over `filePath`
+     */
+    content?: string;
+}
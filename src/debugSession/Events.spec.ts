@@ -1,5 +1,5 @@
 import { expect } from 'chai';
-import { isDiagnosticsEvent, DiagnosticsEvent, isLogOutputEvent, LogOutputEvent, isDebugServerLogOutputEvent, DebugServerLogOutputEvent, isRendezvousEvent, RendezvousEvent, isChanperfEvent, ChanperfEvent, isLaunchStartEvent, LaunchStartEvent, isPopupMessageEvent, PopupMessageEvent, isChannelPublishedEvent, ChannelPublishedEvent } from './Events';
+import { isDiagnosticsEvent, DiagnosticsEvent, isLogOutputEvent, LogOutputEvent, isDebugServerLogOutputEvent, DebugServerLogOutputEvent, isRendezvousEvent, RendezvousEvent, isChanperfEvent, ChanperfEvent, isLaunchStartEvent, LaunchStartEvent, isPopupMessageEvent, PopupMessageEvent, isChannelPublishedEvent, ChannelPublishedEvent, isSceneGraphNodeTreeEvent, SceneGraphNodeTreeEvent } from './Events';
 
 describe('Events', () => {
     it('is* methods work properly', () => {
@@ -12,6 +12,7 @@ describe('Events', () => {
         expect(isLaunchStartEvent(new LaunchStartEvent(null))).to.be.true;
         expect(isPopupMessageEvent(new PopupMessageEvent(null, 'error'))).to.be.true;
         expect(isChannelPublishedEvent(new ChannelPublishedEvent(null))).to.be.true;
+        expect(isSceneGraphNodeTreeEvent(new SceneGraphNodeTreeEvent(null))).to.be.true;
 
         //not match
         expect(isDiagnosticsEvent(null)).to.be.false;
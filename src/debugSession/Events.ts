@@ -2,8 +2,9 @@
 import type { DebugProtocol } from 'vscode-debugprotocol';
 import type { BSDebugDiagnostic } from '../CompileErrorProcessor';
 import type { LaunchConfiguration } from '../LaunchConfiguration';
-import type { ChanperfData } from '../ChanperfTracker';
+import type { ChanperfAlert, ChanperfData } from '../ChanperfTracker';
 import type { RendezvousHistory } from '../RendezvousTracker';
+import type { SceneGraphNodeTree } from '../SceneGraphDebugCommandController';
 
 export class CustomEvent<T> implements DebugProtocol.Event {
     public constructor(body: T) {
@@ -106,6 +107,38 @@ export function isChanperfEvent(event: any): event is ChanperfEvent {
     return !!event && event.event === ChanperfEvent.name;
 }
 
+/**
+ * Emitted when a chanperf sample exceeds one of the `chanperfThresholds` from the launch configuration
+ */
+export class ChanperfAlertEvent extends CustomEvent<ChanperfAlert> {
+    constructor(alert: ChanperfAlert) {
+        super(alert);
+    }
+}
+
+/**
+ * Is the object a `ChanperfAlertEvent`
+ */
+export function isChanperfAlertEvent(event: any): event is ChanperfAlertEvent {
+    return !!event && event.event === ChanperfAlertEvent.name;
+}
+
+/**
+ * Emitted whenever the SceneGraph node tree is refreshed (see the `sceneGraph.getNodeTree` custom request)
+ */
+export class SceneGraphNodeTreeEvent extends CustomEvent<SceneGraphNodeTree> {
+    constructor(tree: SceneGraphNodeTree) {
+        super(tree);
+    }
+}
+
+/**
+ * Is the object a `SceneGraphNodeTreeEvent`
+ */
+export function isSceneGraphNodeTreeEvent(event: any): event is SceneGraphNodeTreeEvent {
+    return !!event && event.event === SceneGraphNodeTreeEvent.name;
+}
+
 
 /**
  * Emitted when the launch sequence first starts. This is right after the debug session receives the `launch` request,
@@ -12,6 +12,13 @@ export * from './FileUtils';
 export * from './managers/ProjectManager';
 export * from './RendezvousTracker';
 export * from './ChanperfTracker';
+export * from './LeakDetector';
+export * from './EcpClient';
 export * from './SceneGraphDebugCommandController';
 export * from './adapters/TelnetAdapter';
 export * from './managers/LocationManager';
+export * from './BrightScriptRuntimeErrors';
+export * from './BrightScriptCompletions';
+export * from './debugProtocol/DebugProtocolRecording';
+export * from './debugProtocol/DebugProtocolSimulator';
+export * from './adapters/TelnetSimulator';
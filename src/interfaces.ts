@@ -13,6 +13,10 @@ export enum HighLevelType {
 export interface RokuAdapterEvaluateResponse {
     type: 'message' | 'error';
     message: string;
+    /**
+     * When `type` is `error`, whether the command failed to compile or failed while it was running (debug protocol only)
+     */
+    errorType?: 'compile' | 'runtime' | 'other';
 }
 
 export interface AdapterOptions {
@@ -24,3 +28,11 @@ export interface AdapterOptions {
      */
     stopOnEntry?: boolean;
 }
+
+export interface HitCondition {
+    /**
+     * How the hit count is compared against `count`. `%` means every `count`th hit
+     */
+    operator: '>' | '>=' | '<' | '<=' | '==' | '%';
+    count: number;
+}
@@ -3,6 +3,7 @@ import * as fsExtra from 'fs-extra';
 import { SourceMapConsumer, SourceNode } from 'source-map';
 import type { BreakpointWorkItem } from './BreakpointManager';
 import { BreakpointManager } from './BreakpointManager';
+import { FileManager } from './FileManager';
 import { fileUtils, standardizePath as s } from '../FileUtils';
 import { ComponentLibraryProject, Project, ProjectManager } from './ProjectManager';
 let n = fileUtils.standardizePath.bind(fileUtils);
@@ -10,6 +11,7 @@ import type { SourceLocation } from '../managers/LocationManager';
 import { LocationManager } from '../managers/LocationManager';
 import { SourceMapManager } from './SourceMapManager';
 import { expectPickEquals, pickArray } from '../testHelpers.spec';
+import { util } from '../util';
 
 describe('BreakpointManager', () => {
     let cwd = fileUtils.standardizePath(process.cwd());
@@ -41,7 +43,7 @@ describe('BreakpointManager', () => {
 
         sourceMapManager = new SourceMapManager();
         locationManager = new LocationManager(sourceMapManager);
-        bpManager = new BreakpointManager(sourceMapManager, locationManager);
+        bpManager = new BreakpointManager(sourceMapManager, locationManager, new FileManager());
         projectManager = new ProjectManager(bpManager, locationManager);
         projectManager.mainProject = new Project({
             rootDir: rootDir,
@@ -124,12 +126,29 @@ describe('BreakpointManager', () => {
                     line: 3,
                     hitCondition: '1'
                 }]).code).to.equal(`
-                function Main()\nif Invalid = m.vscode_bp OR Invalid = m.vscode_bp.bp1 then if Invalid = m.vscode_bp then m.vscode_bp = {bp1: 0} else m.vscode_bp.bp1 = 0 else m.vscode_bp.bp1 ++ : if m.vscode_bp.bp1 >= 1 then STOP
+                function Main()\nif Invalid = m.vscode_bp then m.vscode_bp = {bp1: 1} else if Invalid = m.vscode_bp.bp1 then m.vscode_bp.bp1 = 1 else m.vscode_bp.bp1 ++ : if m.vscode_bp.bp1 > 1 then STOP
                     print "Hello world"
                 end function
             `);
         });
 
+        it('injects hit conditions with operators', () => {
+            function getHitConditionLine(hitCondition: string) {
+                return bpManager.getSourceAndMapWithBreakpoints(`sub main()\n    print 1\nend sub`, 'main.brs', <any>[{
+                    line: 2,
+                    hitCondition: hitCondition
+                }]).code.split('\n')[1];
+            }
+            expect(getHitConditionLine('==10')).to.equal('if Invalid = m.vscode_bp then m.vscode_bp = {bp1: 1} else if Invalid = m.vscode_bp.bp1 then m.vscode_bp.bp1 = 1 else m.vscode_bp.bp1 ++ : if m.vscode_bp.bp1 = 10 then STOP');
+            expect(getHitConditionLine('%100')).to.equal('if Invalid = m.vscode_bp then m.vscode_bp = {bp2: 1} else if Invalid = m.vscode_bp.bp2 then m.vscode_bp.bp2 = 1 else m.vscode_bp.bp2 ++ : if m.vscode_bp.bp2 MOD 100 = 0 then STOP');
+            //the first hit already satisfies the condition, so it stops right away
+            expect(getHitConditionLine('<= 3')).to.equal('if Invalid = m.vscode_bp then m.vscode_bp = {bp3: 1} : STOP else if Invalid = m.vscode_bp.bp3 then m.vscode_bp.bp3 = 1 : STOP else m.vscode_bp.bp3 ++ : if m.vscode_bp.bp3 <= 3 then STOP');
+            expect(getHitConditionLine('>=1')).to.equal('STOP');
+            expect(getHitConditionLine('%1')).to.equal('STOP');
+            //`%0` never stops, and `MOD 0` would be a divide by zero on the device
+            expect(getHitConditionLine('%0')).to.equal('    print 1');
+        });
+
         it('injects regular stop when hit condition is 0', () => {
             expect(bpManager.getSourceAndMapWithBreakpoints(`
                 function Main()
@@ -278,6 +297,140 @@ describe('BreakpointManager', () => {
         });
     });
 
+    describe('hit conditions', () => {
+        it('computes the number of hits the device should ignore', () => {
+            expect(bpManager.getDeviceIgnoreCount('5')).to.equal(5);
+            expect(bpManager.getDeviceIgnoreCount('> 5')).to.equal(5);
+            expect(bpManager.getDeviceIgnoreCount('>=5')).to.equal(4);
+            expect(bpManager.getDeviceIgnoreCount('>=0')).to.equal(0);
+            expect(bpManager.getDeviceIgnoreCount('==5')).to.be.undefined;
+            expect(bpManager.getDeviceIgnoreCount('%5')).to.be.undefined;
+            expect(bpManager.getDeviceIgnoreCount('abc')).to.be.undefined;
+        });
+
+        it('counts the hits of the breakpoints the device cannot evaluate', () => {
+            const everyThird = bpManager.setBreakpoint(srcPath, { line: 2, hitCondition: '%3' });
+            expect(bpManager.isHitCountedByDebugger(everyThird)).to.be.true;
+            expect(bpManager.isHitCountedByDebugger({ hitCondition: '>3' })).to.be.false;
+            expect(bpManager.isHitCountedByDebugger({ hitCondition: undefined })).to.be.false;
+            expect(
+                [1, 2, 3, 4, 5, 6].map(() => bpManager.recordHit(everyThird))
+            ).to.eql([false, false, true, false, false, true]);
+
+            //changing the hit condition starts the count over
+            const secondHit = bpManager.setBreakpoint(srcPath, { line: 2, hitCondition: '==2' });
+            expect(
+                [1, 2, 3].map(() => bpManager.recordHit(secondHit))
+            ).to.eql([false, true, false]);
+        });
+
+        it('starts counting hits over when the channel is relaunched', () => {
+            const tenthHit = bpManager.setBreakpoint(srcPath, { line: 2, hitCondition: '==10' });
+            for (let i = 0; i < 10; i++) {
+                bpManager.recordHit(tenthHit);
+            }
+            bpManager.clearLastState();
+            expect(
+                [...Array(10)].map(() => bpManager.recordHit(tenthHit))
+            ).to.eql([false, false, false, false, false, false, false, false, false, true]);
+        });
+    });
+
+    describe('persistence', () => {
+        function createManager(persistBreakpoints = true) {
+            const manager = new BreakpointManager(sourceMapManager, locationManager, new FileManager());
+            manager.launchConfiguration = {
+                rootDir: rootDir,
+                sourceDirs: [],
+                outDir: outDir,
+                persistBreakpoints: persistBreakpoints
+            };
+            return manager;
+        }
+
+        it('saves breakpoints whenever they change and restores them in the next session', async () => {
+            bpManager = createManager();
+            bpManager.replaceBreakpoints(srcPath, [
+                { line: 2, condition: 'a = 1' },
+                { line: 4, hitCondition: '>=3' },
+                { line: 6, logMessage: 'a is {a}' }
+            ]);
+            bpManager.replaceFunctionBreakpoints([{ name: 'main' }], []);
+            await bpManager.replaceDataBreakpoints([{ dataId: 'm.top.title', accessType: 'write' }], []);
+
+            const state = fsExtra.readJsonSync(bpManager.getBreakpointStateFilePath());
+            expect(state.sourceBreakpoints[srcPath]).to.eql([
+                { line: 2, column: 0, condition: 'a = 1', verified: false },
+                { line: 4, column: 0, hitCondition: '>=3', verified: false },
+                { line: 6, column: 0, logMessage: 'a is {a}', verified: false }
+            ]);
+
+            const restoredManager = createManager();
+            const restored = await restoredManager.restoreBreakpoints();
+            expect(restored.map(x => ({ srcPath: x.srcPath, line: x.line, condition: x.condition, hitCondition: x.hitCondition, logMessage: x.logMessage }))).to.eql([
+                { srcPath: srcPath, line: 2, condition: 'a = 1', hitCondition: undefined, logMessage: undefined },
+                { srcPath: srcPath, line: 4, condition: undefined, hitCondition: '>=3', logMessage: undefined },
+                { srcPath: srcPath, line: 6, condition: undefined, hitCondition: undefined, logMessage: 'a is {a}' }
+            ]);
+            expect(restoredManager.getLogpointsAtSourceLocation(srcPath, 6)).to.be.lengthOf(1);
+            expect(restoredManager['functionBreakpoints'].map(x => x.name)).to.eql(['main']);
+            expect(restoredManager['dataBreakpoints'].map(x => x.dataId)).to.eql(['m.top.title']);
+        });
+
+        it('restores the last known verified state', async () => {
+            bpManager = createManager();
+            const [breakpoint] = bpManager.replaceBreakpoints(srcPath, [{ line: 2 }]);
+            bpManager.setBreakpointDeviceId(breakpoint.hash, 7);
+            bpManager.verifyBreakpoint(7, true);
+            //the state file is written once the verify event is sent
+            await util.sleep(0);
+
+            const [restored] = await createManager().restoreBreakpoints();
+            expect(restored).to.include({ line: 2, verified: true });
+            expect(restored.deviceId).to.be.undefined;
+        });
+
+        it('keeps the breakpoints the client already sent', async () => {
+            bpManager = createManager();
+            bpManager.replaceBreakpoints(srcPath, [{ line: 2 }]);
+            bpManager.replaceBreakpoints(s`${rootDir}/source/lib.brs`, [{ line: 3 }]);
+
+            //the client can send breakpoints before the launch configuration arrives
+            const restoredManager = new BreakpointManager(sourceMapManager, locationManager, new FileManager());
+            restoredManager.replaceBreakpoints(srcPath, [{ line: 10 }]);
+            restoredManager.launchConfiguration = createManager().launchConfiguration;
+            const restored = await restoredManager.restoreBreakpoints();
+            expect(restored.map(x => x.line)).to.eql([3]);
+            expect(restoredManager.getBreakpointsAtSourceLocation(srcPath, 2)).to.be.empty;
+            expect(restoredManager.getBreakpointsAtSourceLocation(srcPath, 10)).to.be.lengthOf(1);
+        });
+
+        it('does nothing unless enabled', async () => {
+            bpManager = createManager(false);
+            bpManager.replaceBreakpoints(srcPath, [{ line: 2 }]);
+            expect(fsExtra.pathExistsSync(bpManager.getBreakpointStateFilePath())).to.be.false;
+
+            fsExtra.outputJsonSync(bpManager.getBreakpointStateFilePath(), {
+                sourceBreakpoints: { [srcPath]: [{ line: 2 }] }
+            });
+            expect(await createManager(false).restoreBreakpoints()).to.be.empty;
+        });
+
+        it('ignores a corrupt state file', async () => {
+            bpManager = createManager();
+            fsExtra.outputFileSync(bpManager.getBreakpointStateFilePath(), '{ not json');
+            expect(await bpManager.restoreBreakpoints()).to.be.empty;
+        });
+
+        it('forgets the device ids when the device state is cleared', () => {
+            bpManager = createManager();
+            const [breakpoint] = bpManager.replaceBreakpoints(srcPath, [{ line: 2 }]);
+            bpManager.setBreakpointDeviceId(breakpoint.hash, 3);
+            bpManager.clearLastState();
+            expect(breakpoint.deviceId).to.be.undefined;
+        });
+    });
+
     describe('writeBreakpointsForProject', () => {
         let tmpDir = s`${cwd}/.tmp`;
         let rootDir = s`${tmpDir}/rokuProject`;
@@ -335,6 +488,41 @@ describe('BreakpointManager', () => {
             });
         });
 
+        it('only rewrites the restaged files that already had breakpoints written to them', async () => {
+            fsExtra.writeFileSync(`${rootDir}/source/main.brs`, `sub main()\n    print 1\n    print 2\nend sub`);
+            fsExtra.writeFileSync(`${rootDir}/source/lib.brs`, `sub lib()\n    print 1\n    print 2\nend sub`);
+            fsExtra.writeFileSync(`${rootDir}/source/util.brs`, `sub util()\n    print 1\n    print 2\nend sub`);
+            bpManager.replaceBreakpoints(s`${rootDir}/source/main.brs`, [{ line: 2 }]);
+            bpManager.replaceBreakpoints(s`${rootDir}/source/lib.brs`, [{ line: 2 }]);
+            for (const fileName of ['main.brs', 'lib.brs', 'util.brs']) {
+                fsExtra.copyFileSync(`${rootDir}/source/${fileName}`, `${stagingDir}/source/${fileName}`);
+            }
+            const project = new Project(<any>{
+                rootDir: rootDir,
+                outDir: outDir,
+                stagingFolderPath: stagingDir
+            });
+            await bpManager.writeBreakpointsForProject(project);
+
+            //add a breakpoint to a file that has never had any, then restage main.brs
+            bpManager.replaceBreakpoints(s`${rootDir}/source/main.brs`, [{ line: 3 }]);
+            bpManager.replaceBreakpoints(s`${rootDir}/source/util.brs`, [{ line: 3 }]);
+            fsExtra.copyFileSync(`${rootDir}/source/main.brs`, `${stagingDir}/source/main.brs`);
+            fsExtra.removeSync(`${stagingDir}/source/main.brs.map`);
+            sourceMapManager.remove(`${stagingDir}/source/main.brs.map`);
+            await bpManager.writeBreakpointsForProject(project, [s`${stagingDir}/source/main.brs`]);
+
+            expect(fsExtra.readFileSync(`${stagingDir}/source/main.brs`).toString()).to.equal(`sub main()\n    print 1\nSTOP\n    print 2\nend sub`);
+            //lib.brs was not restaged, so its breakpoint was not written a second time
+            expect(fsExtra.readFileSync(`${stagingDir}/source/lib.brs`).toString()).to.equal(`sub lib()\nSTOP\n    print 1\n    print 2\nend sub`);
+            expect(fsExtra.readFileSync(`${stagingDir}/source/util.brs`).toString()).to.equal(`sub util()\n    print 1\nSTOP\n    print 2\nend sub`);
+            expect(bpManager.getPermanentBreakpointStagingFilePaths().sort()).to.eql([
+                s`${stagingDir}/source/lib.brs`,
+                s`${stagingDir}/source/main.brs`,
+                s`${stagingDir}/source/util.brs`
+            ]);
+        });
+
         it('works with sourceDir1', async () => {
             //create file
             fsExtra.writeFileSync(`${sourceDir1}/source/main.brs`, `sub main()\n    print 1\n    print 2\nend sub`);
@@ -447,7 +635,7 @@ describe('BreakpointManager', () => {
             expect(fsExtra.readFileSync(`${stagingDir}/source/main.brs`).toString()).to.equal(`
                 sub main()\nif true = true then : STOP : end if
                     firstName="john"\nPRINT "Hello "; lastName;""
-                    print lastName="smith"\nif Invalid = m.vscode_bp OR Invalid = m.vscode_bp.bp1 then if Invalid = m.vscode_bp then m.vscode_bp = {bp1: 0} else m.vscode_bp.bp1 = 0 else m.vscode_bp.bp1 ++ : if m.vscode_bp.bp1 >= 3 then STOP
+                    print lastName="smith"\nif Invalid = m.vscode_bp then m.vscode_bp = {bp1: 1} else if Invalid = m.vscode_bp.bp1 then m.vscode_bp.bp1 = 1 else m.vscode_bp.bp1 ++ : if m.vscode_bp.bp1 > 3 then STOP
                     print firstName + " " + lastName
                 end sub
             `);
@@ -1041,5 +1229,325 @@ describe('BreakpointManager', () => {
             });
         });
 
+        it('re-sends the breakpoints of a component library once it is reset', async () => {
+            projectManager.componentLibraryProjects[0].name = 'lib1';
+            projectManager.componentLibraryProjects[1].name = 'lib2';
+            const [breakpoint] = bpManager.replaceBreakpoints(s`${complib1RootDir}/source/main.brs`, [{
+                line: 2
+            }]);
+            bpManager.replaceBreakpoints(s`${complib2RootDir}/source/main.brs`, [{
+                line: 3
+            }]);
+            await bpManager.getDiff(projectManager.getAllProjects());
+            bpManager.setBreakpointDeviceId(breakpoint.hash, 5);
+            bpManager.verifyBreakpoint(5, true);
+
+            bpManager.resetComponentLibraryBreakpoints('lib1');
+            expect(breakpoint).to.include({
+                verified: false,
+                pendingComponentLibraryName: 'lib1'
+            });
+
+            await testDiffEquals({
+                added: [{
+                    line: 2,
+                    componentLibraryName: 'lib1'
+                }],
+                removed: [{
+                    line: 2,
+                    componentLibraryName: 'lib1',
+                    deviceId: 5
+                }],
+                unchanged: [{
+                    line: 3,
+                    componentLibraryName: 'lib2'
+                }]
+            });
+
+            //the device verifies the breakpoint once it loads the library
+            bpManager.setBreakpointDeviceId(breakpoint.hash, 6);
+            bpManager.verifyBreakpoint(6, true);
+            expect(breakpoint.verified).to.be.true;
+            expect(breakpoint.pendingComponentLibraryName).to.be.undefined;
+        });
+
+    });
+
+    describe('data breakpoints', () => {
+        const mainPath = s`${rootDir}/source/main.brs`;
+
+        beforeEach(() => {
+            fsExtra.outputFileSync(mainPath, [
+                'sub main()',
+                '    m.top.title = "a"',
+                '    if m.top.title = "b" then print "compare"',
+                '    node.setField("Title", "c")',
+                '    node.setFields({ title: "d", other: 1 })',
+                '    config["title"] = "e"',
+                '    m.count++',
+                '    m.top.other = 1',
+                'end sub'
+            ].join('\n'));
+            projectManager.mainProject.fileMappings = [{
+                src: mainPath,
+                dest: s`${projectManager.mainProject.stagingFolderPath}/source/main.brs`
+            }];
+        });
+
+        it('computes the watched key', () => {
+            expect(bpManager.getDataBreakpointKey('m.top.someField')).to.equal('somefield');
+            expect(bpManager.getDataBreakpointKey('m.config["Some Key"]')).to.equal('some key');
+            expect(bpManager.getDataBreakpointKey('count')).to.be.undefined;
+            expect(bpManager.getDataBreakpointKey('m.items[0]')).to.be.undefined;
+            expect(bpManager.getDataBreakpointKey('m.top.')).to.be.undefined;
+        });
+
+        it('finds every statement that writes to the key', async () => {
+            const [dataBreakpoint] = await bpManager.replaceDataBreakpoints([{
+                dataId: 'm.top.title'
+            }], [projectManager.mainProject]);
+            expect(dataBreakpoint.verified).to.be.true;
+
+            const diff = await bpManager.getDiff([projectManager.mainProject]);
+            expect(diff.added.map(x => x.line)).to.eql([2, 4, 5, 6]);
+        });
+
+        it('skips writes to a different known object', async () => {
+            fsExtra.outputFileSync(mainPath, [
+                'sub main()',
+                '    m.title = "a"',
+                '    m.top.title = "b"',
+                '    m.global.setField("title", "c")',
+                '    m.top.update({ title: "d" })',
+                '    node.title = "e"',
+                'end sub'
+            ].join('\n'));
+            expect(bpManager.getDataBreakpointReceiver('m.top.title')).to.equal('m.top');
+            expect(bpManager.getDataBreakpointReceiver('node.title')).to.be.undefined;
+
+            await bpManager.replaceDataBreakpoints([{ dataId: 'm.top.title' }], [projectManager.mainProject]);
+            //writes to objects that are only known at runtime (like `node`) could still be the watched object
+            expect((await bpManager.getDiff([projectManager.mainProject])).added.map(x => x.line)).to.eql([3, 5, 6]);
+        });
+
+        it('matches every object when the watched object is not known', async () => {
+            await bpManager.replaceDataBreakpoints([{ dataId: 'node.title' }], [projectManager.mainProject]);
+            expect((await bpManager.getDiff([projectManager.mainProject])).added.map(x => x.line)).to.eql([2, 4, 5, 6]);
+        });
+
+        it('does not verify data breakpoints with no writes', async () => {
+            const [dataBreakpoint] = await bpManager.replaceDataBreakpoints([{
+                dataId: 'm.top.notUsedAnywhere'
+            }], [projectManager.mainProject]);
+            expect(dataBreakpoint.verified).to.be.false;
+        });
+
+        it('keeps the id of unchanged data breakpoints', async () => {
+            const [first] = await bpManager.replaceDataBreakpoints([{ dataId: 'm.top.title' }], []);
+            const [second] = await bpManager.replaceDataBreakpoints([{ dataId: 'm.top.title' }], []);
+            expect(second.id).to.equal(first.id);
+        });
+
+        it('removes the derived breakpoints when the data breakpoint is removed', async () => {
+            await bpManager.replaceDataBreakpoints([{ dataId: 'm.count' }], [projectManager.mainProject]);
+            expect((await bpManager.getDiff([projectManager.mainProject])).added.map(x => x.line)).to.eql([7]);
+
+            await bpManager.replaceDataBreakpoints([], [projectManager.mainProject]);
+            expect((await bpManager.getDiff([projectManager.mainProject])).removed.map(x => x.line)).to.eql([7]);
+        });
+
+        it('drops the derived breakpoints of writes that were removed', async () => {
+            await bpManager.replaceDataBreakpoints([{ dataId: 'm.count' }], [projectManager.mainProject]);
+            expect((await bpManager.getDiff([projectManager.mainProject])).added.map(x => x.line)).to.eql([7]);
+
+            fsExtra.outputFileSync(mainPath, [
+                'sub main()',
+                '    m.count++',
+                'end sub'
+            ].join('\n'));
+            //make sure the file looks modified even if it was written within the same millisecond
+            fsExtra.utimesSync(mainPath, new Date(), new Date(Date.now() + 10000));
+
+            const diff = await bpManager.getDiff([projectManager.mainProject]);
+            expect(diff.added.map(x => x.line)).to.eql([2]);
+            expect(diff.removed.map(x => x.line)).to.eql([7]);
+        });
+
+        it('finds data breakpoints by source location', async () => {
+            const [dataBreakpoint] = await bpManager.replaceDataBreakpoints([{ dataId: 'm.top.other' }], [projectManager.mainProject]);
+            expect(bpManager.getDataBreakpointsAtSourceLocation(mainPath, 5)).to.eql([dataBreakpoint]);
+            expect(bpManager.getDataBreakpointsAtSourceLocation(mainPath, 8)).to.eql([dataBreakpoint]);
+            expect(bpManager.getDataBreakpointsAtSourceLocation(mainPath, 2)).to.eql([]);
+        });
+
+        it('injects breakpoints for telnet sessions', async () => {
+            const stagingFolderPath = projectManager.mainProject.stagingFolderPath;
+            fsExtra.copySync(mainPath, s`${stagingFolderPath}/source/main.brs`);
+            await bpManager.replaceDataBreakpoints([{ dataId: 'm.top.other', condition: 'm.top.other <> 1' }], []);
+
+            await bpManager.writeBreakpointsForProject(projectManager.mainProject);
+
+            const lines = fsExtra.readFileSync(s`${stagingFolderPath}/source/main.brs`).toString().split('\n');
+            expect(lines[4]).to.equal('if m.top.other <> 1 then : STOP : end if');
+            expect(lines[5]).to.equal('    node.setFields({ title: "d", other: 1 })');
+            expect(lines[8]).to.equal('if m.top.other <> 1 then : STOP : end if');
+            expect(lines[9]).to.equal('    m.top.other = 1');
+        });
+    });
+
+    describe('function breakpoints', () => {
+        const mainPath = s`${rootDir}/source/main.brs`;
+        const componentPath = s`${rootDir}/components/MyComponent.brs`;
+
+        beforeEach(() => {
+            fsExtra.outputFileSync(mainPath, [
+                'sub main()',
+                '    print "main"',
+                'end sub',
+                'sub init()',
+                '',
+                '    \' comment',
+                '    print "main init"',
+                'end sub'
+            ].join('\n'));
+            fsExtra.outputFileSync(componentPath, [
+                'sub init()',
+                '    print "component init"',
+                'end sub',
+                'function onKeyEvent(key, press)',
+                'end function'
+            ].join('\n'));
+            fsExtra.outputFileSync(s`${rootDir}/components/MyComponent.xml`, '<component name="MyCustomComponent" extends="Group"></component>');
+            projectManager.mainProject.fileMappings = [{
+                src: mainPath,
+                dest: s`${projectManager.mainProject.stagingFolderPath}/source/main.brs`
+            }, {
+                src: componentPath,
+                dest: s`${projectManager.mainProject.stagingFolderPath}/components/MyComponent.brs`
+            }];
+        });
+
+        it('finds every matching function declaration', async () => {
+            const [functionBreakpoint] = bpManager.replaceFunctionBreakpoints([{ name: 'INIT' }], [projectManager.mainProject]);
+            expect(functionBreakpoint.verified).to.be.true;
+
+            const diff = await bpManager.getDiff([projectManager.mainProject]);
+            expect(
+                diff.added.map(x => [x.srcPath, x.line])
+            ).to.eql([
+                [mainPath, 7],
+                [componentPath, 2]
+            ]);
+        });
+
+        it('moves the derived breakpoints when the function moves', async () => {
+            bpManager.replaceFunctionBreakpoints([{ name: 'MyComponent.init' }], [projectManager.mainProject]);
+            expect((await bpManager.getDiff([projectManager.mainProject])).added.map(x => x.line)).to.eql([2]);
+
+            fsExtra.outputFileSync(componentPath, [
+                'function onKeyEvent(key, press)',
+                'end function',
+                'sub init()',
+                '    print "component init"',
+                'end sub'
+            ].join('\n'));
+            //make sure the file looks modified even if it was written within the same millisecond
+            fsExtra.utimesSync(componentPath, new Date(), new Date(Date.now() + 10000));
+
+            const diff = await bpManager.getDiff([projectManager.mainProject]);
+            expect(diff.added.map(x => x.line)).to.eql([4]);
+            expect(diff.removed.map(x => x.line)).to.eql([2]);
+            expect(bpManager.getFunctionBreakpointsAtSourceLocation(componentPath, 2)).to.eql([]);
+        });
+
+        it('supports names qualified by the file or component name', () => {
+            bpManager.replaceFunctionBreakpoints([{ name: 'MyComponent.init' }, { name: 'MyCustomComponent.onKeyEvent' }], [projectManager.mainProject]);
+            expect(bpManager.getFunctionBreakpointsAtSourceLocation(componentPath, 2).map(x => x.name)).to.eql(['MyComponent.init']);
+            //empty functions use the `end function` line
+            expect(bpManager.getFunctionBreakpointsAtSourceLocation(componentPath, 5).map(x => x.name)).to.eql(['MyCustomComponent.onKeyEvent']);
+            expect(bpManager.getFunctionBreakpointsAtSourceLocation(mainPath, 7)).to.eql([]);
+        });
+
+        it('does not verify function breakpoints with no matches', () => {
+            const [functionBreakpoint] = bpManager.replaceFunctionBreakpoints([{ name: 'notAFunction' }], [projectManager.mainProject]);
+            expect(functionBreakpoint.verified).to.be.false;
+        });
+
+        it('re-resolves the function locations when the file changes', async () => {
+            bpManager.replaceFunctionBreakpoints([{ name: 'main' }], [projectManager.mainProject]);
+            expect((await bpManager.getDiff([projectManager.mainProject])).added.map(x => x.line)).to.eql([2]);
+
+            fsExtra.outputFileSync(mainPath, [
+                'sub main()',
+                '',
+                '    print "main"',
+                'end sub'
+            ].join('\n'));
+            //make sure the modified time changes
+            fsExtra.utimesSync(mainPath, new Date(), new Date(Date.now() + 10000));
+
+            const diff = await bpManager.getDiff([projectManager.mainProject]);
+            expect(diff.added.map(x => x.line)).to.eql([3]);
+            expect(diff.removed.map(x => x.line)).to.eql([2]);
+        });
+
+        it('removes the derived breakpoints when the function breakpoint is removed', async () => {
+            bpManager.replaceFunctionBreakpoints([{ name: 'main' }], [projectManager.mainProject]);
+            expect((await bpManager.getDiff([projectManager.mainProject])).added.map(x => x.line)).to.eql([2]);
+
+            bpManager.replaceFunctionBreakpoints([], [projectManager.mainProject]);
+            expect((await bpManager.getDiff([projectManager.mainProject])).removed.map(x => x.line)).to.eql([2]);
+        });
+    });
+
+    describe('run to locations', () => {
+        const mainPath = s`${rootDir}/source/main.brs`;
+
+        beforeEach(() => {
+            fsExtra.outputFileSync(mainPath, [
+                'sub main()',
+                '    print "main"',
+                '    doWork()',
+                'end sub',
+                'sub doWork()',
+                '    print "working"',
+                'end sub'
+            ].join('\n'));
+            projectManager.mainProject.fileMappings = [{
+                src: mainPath,
+                dest: s`${projectManager.mainProject.stagingFolderPath}/source/main.brs`
+            }];
+        });
+
+        it('adds the one-shot breakpoints and removes them once cleared', async () => {
+            bpManager.setRunToLocations([{ srcPath: mainPath, line: 3 }]);
+            const diff = await bpManager.getDiff([projectManager.mainProject]);
+            expect(diff.added.map(x => x.line)).to.eql([3]);
+            bpManager.setBreakpointDeviceId(diff.added[0].hash, 12);
+
+            expect(bpManager.clearRunToLocations().map(x => x.line)).to.eql([3]);
+            //the device id is needed to remove the breakpoint from the device
+            expect((await bpManager.getDiff([projectManager.mainProject])).removed.map(x => [x.line, x.deviceId])).to.eql([[3, 12]]);
+        });
+
+        it('skips lines that already have a standard breakpoint', () => {
+            bpManager.setBreakpoint(mainPath, { line: 2 });
+            bpManager.setBreakpoint(mainPath, { line: 3, condition: 'true' });
+            expect(
+                bpManager.setRunToLocations([{ srcPath: mainPath, line: 2 }, { srcPath: mainPath, line: 3 }]).map(x => x.line)
+            ).to.eql([3]);
+        });
+
+        it('does not change the client breakpoints', () => {
+            bpManager.setRunToLocations([{ srcPath: mainPath, line: 2 }]);
+            expect(bpManager['getBreakpointsForFile'](mainPath)).to.eql([]);
+        });
+
+        it('finds the entry location of every function with the given name', () => {
+            expect(bpManager.getFunctionEntryLocations('DOWORK', [projectManager.mainProject])).to.eql([
+                { srcPath: mainPath, line: 6 }
+            ]);
+            expect(bpManager.getFunctionEntryLocations('notAFunction', [projectManager.mainProject])).to.eql([]);
+        });
     });
 });
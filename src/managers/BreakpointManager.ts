@@ -1,4 +1,5 @@
 import * as fsExtra from 'fs-extra';
+import * as path from 'path';
 import { orderBy } from 'natural-orderby';
 import type { CodeWithSourceMap } from 'source-map';
 import { SourceNode } from 'source-map';
@@ -8,15 +9,20 @@ import type { ComponentLibraryProject, Project } from './ProjectManager';
 import { standardizePath as s } from 'roku-deploy';
 import type { SourceMapManager } from './SourceMapManager';
 import type { LocationManager } from './LocationManager';
+import type { FileManager } from './FileManager';
 import { util } from '../util';
+import type { HitCondition } from '../interfaces';
 import { nextTick } from 'process';
 import { EventEmitter } from 'eventemitter3';
+import type { Expression, Range, Statement } from 'brighterscript';
+import { createVisitor, isAALiteralExpression, isAAMemberExpression, isCallExpression, isDottedGetExpression, isIndexedGetExpression, isLiteralExpression, isVariableExpression, Parser, ParseMode, WalkMode } from 'brighterscript';
 
 export class BreakpointManager {
 
     public constructor(
         private sourceMapManager: SourceMapManager,
-        private locationManager: LocationManager
+        private locationManager: LocationManager,
+        private fileManager: FileManager
     ) {
 
     }
@@ -25,11 +31,13 @@ export class BreakpointManager {
         sourceDirs: string[];
         rootDir: string;
         enableSourceMaps?: boolean;
+        outDir?: string;
+        persistBreakpoints?: boolean;
     };
 
     private emitter = new EventEmitter();
 
-    private emit(eventName: 'breakpoints-verified', data: { breakpoints: AugmentedSourceBreakpoint[] });
+    private emit(eventName: 'breakpoints-verified', data: { breakpoints: Array<AugmentedSourceBreakpoint | AugmentedDataBreakpoint | AugmentedFunctionBreakpoint> });
     private emit(eventName: string, data: any) {
         this.emitter.emit(eventName, data);
     }
@@ -37,7 +45,7 @@ export class BreakpointManager {
     /**
      * Subscribe to an event
      */
-    public on(eventName: 'breakpoints-verified', handler: (data: { breakpoints: AugmentedSourceBreakpoint[] }) => any);
+    public on(eventName: 'breakpoints-verified', handler: (data: { breakpoints: Array<AugmentedSourceBreakpoint | AugmentedDataBreakpoint | AugmentedFunctionBreakpoint> }) => any);
     public on(eventName: string, handler: (data: any) => any) {
         this.emitter.on(eventName, handler);
         return () => {
@@ -136,16 +144,28 @@ export class BreakpointManager {
      */
     private getBreakpointsByHashes(hashes: string[]) {
         const result = [] as AugmentedSourceBreakpoint[];
-        for (const [, breakpoints] of this.breakpointsByFilePath) {
-            for (const breakpoint of breakpoints) {
-                if (hashes.includes(breakpoint.hash)) {
-                    result.push(breakpoint);
-                }
+        for (const breakpoint of this.getAllBreakpoints()) {
+            if (hashes.includes(breakpoint.hash)) {
+                result.push(breakpoint);
             }
         }
         return result;
     }
 
+    /**
+     * Get every source breakpoint, including the ones that were derived from data breakpoints and function breakpoints
+     */
+    private getAllBreakpoints() {
+        const result = [] as AugmentedSourceBreakpoint[];
+        for (const [, breakpoints] of this.breakpointsByFilePath) {
+            result.push(...breakpoints);
+        }
+        result.push(...this.dataBreakpointLocations.values());
+        result.push(...this.functionBreakpointLocations.values());
+        result.push(...this.runToLocations);
+        return result;
+    }
+
     /**
       * Find a breakpoint by its deviceId
       * @returns the breakpoint, or undefined if not found
@@ -160,11 +180,9 @@ export class BreakpointManager {
      */
     private getBreakpointsByDeviceIds(deviceIds: number[]) {
         const result = [] as AugmentedSourceBreakpoint[];
-        for (const [, breakpoints] of this.breakpointsByFilePath) {
-            for (const breakpoint of breakpoints) {
-                if (deviceIds.includes(breakpoint.deviceId)) {
-                    result.push(breakpoint);
-                }
+        for (const breakpoint of this.getAllBreakpoints()) {
+            if (deviceIds.includes(breakpoint.deviceId)) {
+                result.push(breakpoint);
             }
         }
         return result;
@@ -178,6 +196,12 @@ export class BreakpointManager {
         if (breakpoint) {
             breakpoint.deviceId = deviceId;
         }
+        //the last diff holds copies of the breakpoints, and those are what get sent when a breakpoint is removed
+        for (const [, lastBreakpoint] of this.lastState) {
+            if (lastBreakpoint.hash === hash) {
+                lastBreakpoint.deviceId = deviceId;
+            }
+        }
     }
 
     /**
@@ -187,11 +211,49 @@ export class BreakpointManager {
         const breakpoint = this.getBreakpointByDeviceId(deviceId);
         if (breakpoint) {
             breakpoint.verified = isVerified;
-            this.queueVerifyEvent(breakpoint.hash);
+            if (isVerified) {
+                delete breakpoint.pendingComponentLibraryName;
+            }
+            //the client doesn't know about the breakpoints derived from data breakpoints or function breakpoints (or the one-shot breakpoints), so don't tell it about them
+            if (!breakpoint.dataId && !breakpoint.functionName && !breakpoint.isRunToLocation) {
+                this.queueVerifyEvent(breakpoint.hash);
+            }
         }
         //TODO handle the else case, (might be caused by timing issues?)
     }
 
+    /**
+     * Mark this breakpoint as waiting for the device to load the component library it lives in
+     * @param hash the breakpoint hash
+     * @param componentLibraryName the name of the component library
+     */
+    public setBreakpointPending(hash: string, componentLibraryName: string) {
+        const breakpoint = this.getBreakpointByHash(hash);
+        if (breakpoint) {
+            breakpoint.verified = false;
+            breakpoint.pendingComponentLibraryName = componentLibraryName;
+            if (!breakpoint.dataId && !breakpoint.functionName && !breakpoint.isRunToLocation) {
+                this.queueVerifyEvent(breakpoint.hash);
+            }
+        }
+    }
+
+    /**
+     * Forget that the breakpoints in this component library were sent to the device, so the next diff removes them and then adds them again.
+     * This is needed whenever the device downloads the library again, since the breakpoints only get verified once the fresh copy has been loaded
+     * @param componentLibraryName the name of the component library
+     */
+    public resetComponentLibraryBreakpoints(componentLibraryName: string) {
+        for (const [key, breakpoint] of [...this.lastState]) {
+            if (breakpoint.componentLibraryName === componentLibraryName) {
+                //move the entry to a key that never matches the current state, so it shows up in the diff as removed
+                this.lastState.delete(key);
+                this.lastState.set(`${key}--reset`, breakpoint);
+                this.setBreakpointPending(breakpoint.hash, componentLibraryName);
+            }
+        }
+    }
+
     /**
      * Whenever breakpoints get verified, they need to be synced back to vscode.
      * This queues up a future function that will emit a batch of all verified breakpoints.
@@ -204,13 +266,16 @@ export class BreakpointManager {
 
             process.nextTick(() => {
                 this.isVerifyEventQueued = false;
-                const breakpoints = this.getBreakpointsByHashes(
-                    this.verifiedBreakpointKeys.map(x => x)
-                );
+                const breakpoints = [
+                    ...this.getBreakpointsByHashes(this.verifiedBreakpointKeys),
+                    ...this.dataBreakpoints.filter(x => this.verifiedBreakpointKeys.includes(x.hash)),
+                    ...this.functionBreakpoints.filter(x => this.verifiedBreakpointKeys.includes(x.hash))
+                ];
                 this.verifiedBreakpointKeys = [];
                 this.emit('breakpoints-verified', {
                     breakpoints: breakpoints
                 });
+                this.saveBreakpoints();
             });
         }
     }
@@ -229,9 +294,11 @@ export class BreakpointManager {
             return `${key}-condition=${condition}`;
         }
 
-        const hitCondition = parseInt(breakpoint.hitCondition?.trim());
-        if (!isNaN(hitCondition)) {
-            return `${key}-hitCondition=${hitCondition}`;
+        const hitCondition = util.parseHitCondition(breakpoint.hitCondition);
+        if (hitCondition) {
+            //a plain number keeps its original key
+            const operator = /^\s*\d/.test(breakpoint.hitCondition) ? '' : hitCondition.operator;
+            return `${key}-hitCondition=${operator}${hitCondition.count}`;
         }
 
         if (breakpoint.logMessage) {
@@ -256,11 +323,96 @@ export class BreakpointManager {
             srcPath,
             this.getBreakpointsForFile(srcPath).filter(x => currentBreakpoints.includes(x))
         );
+        this.saveBreakpoints();
 
         //get the final list of breakpoints
         return currentBreakpoints;
     }
 
+    /**
+     * Get the path to the file where breakpoints are persisted between sessions (see `persistBreakpoints`)
+     */
+    public getBreakpointStateFilePath() {
+        return s`${this.launchConfiguration.outDir}/breakpoints.json`;
+    }
+
+    /**
+     * Write every breakpoint sent by the client (including data breakpoints and function breakpoints) to the breakpoint state file.
+     * Device ids are not written, because the device forgets them as soon as the channel exits.
+     * Does nothing unless `persistBreakpoints` is enabled
+     */
+    public saveBreakpoints() {
+        if (!this.launchConfiguration?.persistBreakpoints || !this.launchConfiguration.outDir) {
+            return;
+        }
+        const state: BreakpointState = {
+            sourceBreakpoints: {},
+            dataBreakpoints: this.dataBreakpoints.map(x => ({
+                dataId: x.dataId,
+                accessType: x.accessType,
+                condition: x.condition,
+                hitCondition: x.hitCondition
+            })),
+            functionBreakpoints: this.functionBreakpoints.map(x => ({
+                name: x.name,
+                condition: x.condition,
+                hitCondition: x.hitCondition
+            }))
+        };
+        for (const [srcPath, breakpoints] of this.breakpointsByFilePath) {
+            if (breakpoints.length > 0) {
+                state.sourceBreakpoints[srcPath] = breakpoints.map(x => ({
+                    line: x.line,
+                    column: x.column,
+                    condition: x.condition,
+                    hitCondition: x.hitCondition,
+                    logMessage: x.logMessage,
+                    verified: x.verified
+                }));
+            }
+        }
+        try {
+            fsExtra.outputJsonSync(this.getBreakpointStateFilePath(), state, { spaces: 4 });
+        } catch (e) {
+            util.log(`Unable to save breakpoints to '${this.getBreakpointStateFilePath()}': ${(e as Error).message}`);
+        }
+    }
+
+    /**
+     * Load the breakpoints saved by a previous session (see `saveBreakpoints`).
+     * Files the client has already sent breakpoints for are skipped, as are the saved data breakpoints and function breakpoints if the client already sent some.
+     * Does nothing unless `persistBreakpoints` is enabled
+     * @returns the source breakpoints that were restored
+     */
+    public async restoreBreakpoints() {
+        const result = [] as AugmentedSourceBreakpoint[];
+        if (!this.launchConfiguration?.persistBreakpoints || !this.launchConfiguration.outDir) {
+            return result;
+        }
+        //a missing or corrupt file just means there is nothing to restore
+        const state: BreakpointState = fsExtra.readJsonSync(this.getBreakpointStateFilePath(), { throws: false });
+
+        for (const srcPath in state?.sourceBreakpoints ?? {}) {
+            if (this.breakpointsByFilePath.has(this.sanitizeSourceFilePath(srcPath))) {
+                continue;
+            }
+            for (const savedBreakpoint of state.sourceBreakpoints[srcPath]) {
+                const { verified, ...sourceBreakpoint } = savedBreakpoint;
+                const breakpoint = this.setBreakpoint(srcPath, sourceBreakpoint);
+                //keep the last known state until the device verifies it again
+                breakpoint.verified ||= verified === true;
+                result.push(breakpoint);
+            }
+        }
+        if (this.dataBreakpoints.length === 0 && state?.dataBreakpoints?.length > 0) {
+            await this.replaceDataBreakpoints(state.dataBreakpoints, []);
+        }
+        if (this.functionBreakpoints.length === 0 && state?.functionBreakpoints?.length > 0) {
+            this.replaceFunctionBreakpoints(state.functionBreakpoints, []);
+        }
+        return result;
+    }
+
     /**
      * Get a list of all breakpoint tasks that should be performed.
      * This will also exclude files with breakpoints that are not in scope.
@@ -268,8 +420,22 @@ export class BreakpointManager {
     private async getBreakpointWork(project: Project) {
         let result = {} as Record<string, Array<BreakpointWorkItem>>;
 
+        const breakpointsByFilePath = new Map(this.breakpointsByFilePath);
+        //add the breakpoints derived from data breakpoints and function breakpoints
+        const derivedBreakpoints = [
+            ...await this.getDataBreakpointLocations(project),
+            ...this.getFunctionBreakpointLocations(project),
+            ...this.runToLocations
+        ];
+        for (const breakpoint of derivedBreakpoints) {
+            breakpointsByFilePath.set(breakpoint.srcPath, [
+                ...breakpointsByFilePath.get(breakpoint.srcPath) ?? [],
+                breakpoint
+            ]);
+        }
+
         //iterate over every file that contains breakpoints
-        for (let [sourceFilePath, breakpoints] of this.breakpointsByFilePath) {
+        for (let [sourceFilePath, breakpoints] of breakpointsByFilePath) {
             for (let breakpoint of breakpoints) {
                 //get the list of locations in staging that this breakpoint should be written to.
                 //if none are found, then this breakpoint is ignored
@@ -352,10 +518,26 @@ export class BreakpointManager {
 
     /**
      * Write "stop" lines into source code for each breakpoint of each file in the given project
+     * @param restagedFilePaths the staging files that were freshly copied since breakpoints were last written (i.e. during a hot reload).
+     *                          If specified, the other staging files that already have breakpoints written to them are left alone
      */
-    public async writeBreakpointsForProject(project: Project) {
+    public async writeBreakpointsForProject(project: Project, restagedFilePaths?: string[]) {
         let breakpointsByStagingFilePath = await this.getBreakpointWork(project);
 
+        if (restagedFilePaths) {
+            const lowerRestagedFilePaths = restagedFilePaths.map(x => s`${x}`.toLowerCase());
+            //the restaged files no longer contain the breakpoints that were written to their previous copies
+            for (const [key, breakpoints] of this.permanentBreakpointsBySrcPath) {
+                this.permanentBreakpointsBySrcPath.set(key, breakpoints.filter(x => !lowerRestagedFilePaths.includes(s`${x.stagingFilePath}`.toLowerCase())));
+            }
+            const lowerWrittenFilePaths = this.getPermanentBreakpointStagingFilePaths().map(x => s`${x}`.toLowerCase());
+            for (let stagingFilePath in breakpointsByStagingFilePath) {
+                if (lowerWrittenFilePaths.includes(s`${stagingFilePath}`.toLowerCase())) {
+                    delete breakpointsByStagingFilePath[stagingFilePath];
+                }
+            }
+        }
+
         let promises = [] as Promise<any>[];
         for (let stagingFilePath in breakpointsByStagingFilePath) {
             const breakpoints = breakpointsByStagingFilePath[stagingFilePath];
@@ -389,6 +571,19 @@ export class BreakpointManager {
      */
     private permanentBreakpointsBySrcPath = new Map<string, BreakpointWorkItem[]>();
 
+    /**
+     * Get the paths to every staging file that has had breakpoints written into it
+     */
+    public getPermanentBreakpointStagingFilePaths() {
+        const result = new Set<string>();
+        for (const [, breakpoints] of this.permanentBreakpointsBySrcPath) {
+            for (const breakpoint of breakpoints) {
+                result.add(breakpoint.stagingFilePath);
+            }
+        }
+        return [...result];
+    }
+
     /**
      * Write breakpoints to the specified file, and update the sourcemaps to match
      */
@@ -492,26 +687,33 @@ export class BreakpointManager {
             // add a conditional STOP statement
             lines.push(new SourceNode(breakpoint.line, 0, originalFilePath, `if ${breakpoint.condition} then : STOP : end if`));
         } else if (breakpoint.hitCondition) {
-            let hitCondition = parseInt(breakpoint.hitCondition);
+            const hitCondition = util.parseHitCondition(breakpoint.hitCondition);
 
-            if (isNaN(hitCondition) || hitCondition === 0) {
+            //`%0` never stops (and `MOD 0` would crash the channel), so there is nothing to inject
+            if (hitCondition?.operator === '%' && hitCondition.count === 0) {
+                return lines;
+            } else if (!hitCondition || this.isHitConditionAlwaysMet(hitCondition)) {
                 // add a STOP statement right before this line
                 lines.push(`STOP`);
             } else {
                 let prefix = `m.vscode_bp`;
                 let bpName = `bp${this.bpIndex++}`;
-                let checkHits = `if ${prefix}.${bpName} >= ${hitCondition} then STOP`;
-                let increment = `${prefix}.${bpName} ++`;
+                let hitCount = `${prefix}.${bpName}`;
+                let comparison = hitCondition.operator === '==' ? '=' : hitCondition.operator;
+                let checkHits = hitCondition.operator === '%'
+                    ? `if ${hitCount} MOD ${hitCondition.count} = 0 then STOP`
+                    : `if ${hitCount} ${comparison} ${hitCondition.count} then STOP`;
+                //the first hit is known ahead of time, so decide right now whether it should stop
+                let firstHit = util.isHitConditionMet(hitCondition, 1) ? ' : STOP' : '';
 
                 // Create the BrightScript code required to track the number of executions
                 let trackingExpression = `
-                    if Invalid = ${prefix} OR Invalid = ${prefix}.${bpName} then
-                        if Invalid = ${prefix} then
-                            ${prefix} = {${bpName}: 0}
-                        else
-                            ${prefix}.${bpName} = 0
+                    if Invalid = ${prefix} then
+                        ${prefix} = {${bpName}: 1}${firstHit}
+                    else if Invalid = ${hitCount} then
+                        ${hitCount} = 1${firstHit}
                     else
-                        ${increment} : ${checkHits}
+                        ${hitCount} ++ : ${checkHits}
                 `;
                 //coerce the expression into single-line
                 trackingExpression = trackingExpression.replace(/\n/gi, '').replace(/\s+/g, ' ').trim();
@@ -526,6 +728,53 @@ export class BreakpointManager {
         return lines;
     }
 
+    /**
+     * Does this hit condition stop on every single hit (i.e. `>0`, `>=1` or `%1`)
+     */
+    private isHitConditionAlwaysMet(hitCondition: HitCondition) {
+        return (hitCondition.operator === '>' && hitCondition.count === 0) ||
+            (hitCondition.operator === '>=' && hitCondition.count <= 1) ||
+            (hitCondition.operator === '%' && hitCondition.count === 1);
+    }
+
+    /**
+     * Get the number of hits the device should ignore before it stops on a breakpoint with this hit condition.
+     * The debug protocol can only express `>` and `>=` conditions (and plain numbers) this way, so undefined is returned for every other
+     * hit condition. The breakpoints with those hit conditions always stop on the device, and their hits are counted by `recordHit` instead.
+     */
+    public getDeviceIgnoreCount(hitCondition: string) {
+        const parsed = util.parseHitCondition(hitCondition);
+        if (parsed?.operator === '>') {
+            return parsed.count;
+        } else if (parsed?.operator === '>=') {
+            return Math.max(parsed.count - 1, 0);
+        }
+        return undefined;
+    }
+
+    /**
+     * Does the device need help to evaluate this breakpoint's hit condition (see `getDeviceIgnoreCount`)
+     */
+    public isHitCountedByDebugger(breakpoint: { hitCondition?: string }) {
+        return !!util.parseHitCondition(breakpoint.hitCondition) && this.getDeviceIgnoreCount(breakpoint.hitCondition) === undefined;
+    }
+
+    /**
+     * Count a hit of a breakpoint whose hit condition is evaluated by the debugger rather than the device
+     * @returns true if the breakpoint should stop on this hit
+     */
+    public recordHit(breakpoint: { hash: string; hitCondition?: string }) {
+        const hitCount = (this.hitCounts.get(breakpoint.hash) ?? 0) + 1;
+        this.hitCounts.set(breakpoint.hash, hitCount);
+        const hitCondition = util.parseHitCondition(breakpoint.hitCondition);
+        return hitCondition ? util.isHitConditionMet(hitCondition, hitCount) : true;
+    }
+
+    /**
+     * The number of times each breakpoint has been hit, keyed by the breakpoint's hash (so changing the hit condition starts the count over)
+     */
+    private hitCounts = new Map<string, number>();
+
     /**
      * Get the list of breakpoints for the specified file path, or an empty array
      */
@@ -538,6 +787,24 @@ export class BreakpointManager {
         return result;
     }
 
+    /**
+     * Get the source breakpoints at the given source location
+     * @param srcPath the path to the source file
+     * @param line the 1-based line number
+     */
+    public getBreakpointsAtSourceLocation(srcPath: string, line: number) {
+        return this.getBreakpointsForFile(srcPath).filter(x => x.line === line);
+    }
+
+    /**
+     * Get the logpoints (breakpoints with a `logMessage`) at the given source location
+     * @param srcPath the path to the source file
+     * @param line the 1-based line number
+     */
+    public getLogpointsAtSourceLocation(srcPath: string, line: number) {
+        return this.getBreakpointsAtSourceLocation(srcPath, line).filter(x => x.logMessage);
+    }
+
     /**
      * Get the permanent breakpoint with the specified hash
      * @returns the breakpoint with the matching hash, or undefined
@@ -600,6 +867,435 @@ export class BreakpointManager {
     }
 
 
+    /**
+     * The list of data breakpoints sent by the client
+     */
+    private dataBreakpoints = [] as AugmentedDataBreakpoint[];
+
+    /**
+     * The source breakpoints derived from the data breakpoints, indexed by their hash.
+     * There is one for every statement that writes to a data breakpoint's key.
+     */
+    private dataBreakpointLocations = new Map<string, AugmentedSourceBreakpoint>();
+
+    /**
+     * The statements that write to an AA key or node field, indexed by lower case file path
+     */
+    private fieldWritesCache = new Map<string, { mtime: number; writes: FieldWrite[] }>();
+
+    /**
+     * Get the key that a data breakpoint for the given expression would watch, or undefined if the expression can't be watched.
+     * Only AA keys and node fields (i.e. `m.top.someField` or `m.config["key"]`) are supported
+     * @returns the lower case key
+     */
+    public getDataBreakpointKey(expression: string) {
+        const parts = util.getVariablePath(expression);
+        if (parts?.length > 1) {
+            const key = parts[parts.length - 1];
+            //array indexes are not supported
+            if (/^\d+$/.exec(key)) {
+                return undefined;
+            }
+            return key.replace(/^"(.*)"$/, '$1').toLowerCase();
+        }
+    }
+
+    /**
+     * Get the object that a data breakpoint for the given expression would watch, if it can be identified without running the code
+     * (i.e. `m` or `m.top`). Any other object (like a local variable) could be anything at runtime
+     * @returns the lower case dotted path of the object, or undefined if it can't be identified
+     */
+    public getDataBreakpointReceiver(expression: string) {
+        const parts = util.getVariablePath(expression);
+        const receiverParts = parts?.slice(0, -1) ?? [];
+        if (receiverParts[0]?.toLowerCase() === 'm' && receiverParts.every(x => /^[a-z_]\w*$/i.exec(x))) {
+            return receiverParts.join('.').toLowerCase();
+        }
+    }
+
+    /**
+     * Set/replace/delete the full list of data breakpoints.
+     * @param projects the projects that should be scanned for statements that write to the watched keys.
+     */
+    public async replaceDataBreakpoints(dataBreakpoints: DebugProtocol.DataBreakpoint[], projects: Project[]): Promise<AugmentedDataBreakpoint[]> {
+        this.dataBreakpoints = dataBreakpoints.map(dataBreakpoint => {
+            const hash = `data:${dataBreakpoint.dataId}-condition=${dataBreakpoint.condition ?? ''}-hitCondition=${dataBreakpoint.hitCondition ?? ''}`;
+            //reuse the existing breakpoint so it keeps its id
+            const existing = this.dataBreakpoints.find(x => x.hash === hash);
+            return existing ?? {
+                ...dataBreakpoint,
+                id: this.breakpointIdSequence++,
+                hash: hash,
+                key: this.getDataBreakpointKey(dataBreakpoint.dataId),
+                receiver: this.getDataBreakpointReceiver(dataBreakpoint.dataId),
+                verified: false
+            };
+        });
+        for (const project of projects) {
+            await this.getDataBreakpointLocations(project);
+        }
+        this.saveBreakpoints();
+        return this.dataBreakpoints;
+    }
+
+    /**
+     * Get the data breakpoints whose derived breakpoints are at the given source location
+     * @param srcPath the path to the source file
+     * @param line the 1-based line number
+     */
+    public getDataBreakpointsAtSourceLocation(srcPath: string, line: number) {
+        srcPath = s`${srcPath}`.toLowerCase();
+        const ids = [...this.dataBreakpointLocations.values()]
+            .filter(x => x.srcPath.toLowerCase() === srcPath && x.line === line)
+            .map(x => x.id);
+        return this.dataBreakpoints.filter(x => ids.includes(x.id));
+    }
+
+    /**
+     * Find every statement in the project that writes to a key watched by a data breakpoint, and get (or create) a source breakpoint for each one.
+     */
+    private async getDataBreakpointLocations(project: Project) {
+        const result = [] as AugmentedSourceBreakpoint[];
+        if (!project?.fileMappings) {
+            return result;
+        }
+        //rebuild this project's locations from the current code (reusing the ones that still match), so writes that moved or were deleted are dropped
+        const projectSrcPaths = new Set(project.fileMappings.map(x => s`${x.src}`.toLowerCase()));
+        const previousLocations = new Map<string, AugmentedSourceBreakpoint>();
+        for (const [hash, breakpoint] of this.dataBreakpointLocations) {
+            if (projectSrcPaths.has(breakpoint.srcPath.toLowerCase())) {
+                previousLocations.set(hash, breakpoint);
+                this.dataBreakpointLocations.delete(hash);
+            }
+        }
+        for (const fileMapping of project.fileMappings) {
+            if (!/\.b[rs]s$/i.exec(fileMapping.src)) {
+                continue;
+            }
+            const srcPath = s`${fileMapping.src}`;
+            const writes = await this.getFieldWrites(srcPath);
+            for (const dataBreakpoint of this.dataBreakpoints) {
+                //when both objects are known they have to match, otherwise every write to the key could be the one being watched
+                const matchingWrites = writes.filter(x => x.key === dataBreakpoint.key && (!x.receiver || !dataBreakpoint.receiver || x.receiver === dataBreakpoint.receiver));
+                for (const write of matchingWrites) {
+                    const hash = `${this.getBreakpointKey(srcPath, { line: write.line, condition: dataBreakpoint.condition, hitCondition: dataBreakpoint.hitCondition })}-${dataBreakpoint.hash}`;
+                    let breakpoint = previousLocations.get(hash) ?? this.dataBreakpointLocations.get(hash);
+                    if (!breakpoint) {
+                        breakpoint = {
+                            srcPath: srcPath,
+                            line: write.line,
+                            column: 0,
+                            condition: dataBreakpoint.condition,
+                            hitCondition: dataBreakpoint.hitCondition,
+                            id: dataBreakpoint.id,
+                            hash: hash,
+                            dataId: dataBreakpoint.dataId,
+                            verified: false
+                        };
+                    }
+                    this.dataBreakpointLocations.set(hash, breakpoint);
+                    result.push(breakpoint);
+
+                    if (!dataBreakpoint.verified) {
+                        dataBreakpoint.verified = true;
+                        this.queueVerifyEvent(dataBreakpoint.hash);
+                    }
+                }
+            }
+        }
+        //throw out the derived breakpoints for data breakpoints that no longer exist
+        for (const [hash, breakpoint] of this.dataBreakpointLocations) {
+            if (!this.dataBreakpoints.find(x => x.id === breakpoint.id)) {
+                this.dataBreakpointLocations.delete(hash);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Find every statement in a file that writes to an AA key or node field. Supports:
+     *  - `obj.key = value` (and compound assignments like `obj.key += value`)
+     *  - `obj["key"] = value`
+     *  - `obj.key++`
+     *  - `obj.setField("key", value)` and `obj.addReplace("key", value)`
+     *  - `obj.setFields({ key: value })` and `obj.update({ key: value })`
+     */
+    private async getFieldWrites(srcPath: string) {
+        const cacheKey = srcPath.toLowerCase();
+        let mtime: number;
+        try {
+            mtime = (await fsExtra.stat(srcPath)).mtimeMs;
+        } catch (e) {
+            return [];
+        }
+        if (this.fieldWritesCache.get(cacheKey)?.mtime === mtime) {
+            return this.fieldWritesCache.get(cacheKey).writes;
+        }
+
+        const writes = [] as FieldWrite[];
+        //get the dotted path of an object rooted at `m` (i.e. `m.top`), or undefined for anything else
+        const getReceiver = (expression: Expression): string => {
+            if (isVariableExpression(expression) && expression.name.text.toLowerCase() === 'm') {
+                return 'm';
+            } else if (isDottedGetExpression(expression)) {
+                const parent = getReceiver(expression.obj);
+                return parent ? `${parent}.${expression.name.text.toLowerCase()}` : undefined;
+            }
+        };
+        const addWrite = (key: string, range: Range, receiver: Expression) => {
+            writes.push({
+                key: key.replace(/^"(.*)"$/, '$1').toLowerCase(),
+                receiver: getReceiver(receiver),
+                //ranges are 0-based, but breakpoint lines are 1-based
+                line: range.start.line + 1
+            });
+        };
+        const visitCall = (expression: Expression, statement: Statement) => {
+            if (isCallExpression(expression) && isDottedGetExpression(expression.callee)) {
+                const methodName = expression.callee.name.text.toLowerCase();
+                const firstArg = expression.args[0];
+                if ((methodName === 'setfield' || methodName === 'addreplace') && isLiteralExpression(firstArg)) {
+                    addWrite(firstArg.token.text, statement.range, expression.callee.obj);
+                } else if ((methodName === 'setfields' || methodName === 'update') && isAALiteralExpression(firstArg)) {
+                    for (const element of firstArg.elements) {
+                        if (isAAMemberExpression(element)) {
+                            addWrite(element.keyToken.text, statement.range, expression.callee.obj);
+                        }
+                    }
+                }
+            }
+        };
+
+        const fileContents = (await fsExtra.readFile(srcPath)).toString();
+        const parser = Parser.parse(fileContents, { mode: ParseMode.BrighterScript });
+        parser.ast.walk(createVisitor({
+            DottedSetStatement: (statement) => {
+                addWrite(statement.name.text, statement.range, statement.obj);
+            },
+            IndexedSetStatement: (statement) => {
+                if (isLiteralExpression(statement.index)) {
+                    addWrite(statement.index.token.text, statement.range, statement.obj);
+                }
+            },
+            IncrementStatement: (statement) => {
+                if (isDottedGetExpression(statement.value)) {
+                    addWrite(statement.value.name.text, statement.range, statement.value.obj);
+                } else if (isIndexedGetExpression(statement.value) && isLiteralExpression(statement.value.index)) {
+                    addWrite(statement.value.index.token.text, statement.range, statement.value.obj);
+                }
+            },
+            ExpressionStatement: (statement) => {
+                visitCall(statement.expression, statement);
+            },
+            AssignmentStatement: (statement) => {
+                visitCall(statement.value, statement);
+            }
+        }), {
+            walkMode: WalkMode.visitAllRecursive
+        });
+
+        this.fieldWritesCache.set(cacheKey, { mtime: mtime, writes: writes });
+        return writes;
+    }
+
+    /**
+     * The list of function breakpoints sent by the client
+     */
+    private functionBreakpoints = [] as AugmentedFunctionBreakpoint[];
+
+    /**
+     * The source breakpoints derived from the function breakpoints, indexed by their hash.
+     * There is one for every function declaration that matches a function breakpoint's name.
+     */
+    private functionBreakpointLocations = new Map<string, AugmentedSourceBreakpoint>();
+
+    /**
+     * Set/replace/delete the full list of function breakpoints.
+     * @param projects the projects that should be scanned for matching function declarations.
+     */
+    public replaceFunctionBreakpoints(functionBreakpoints: DebugProtocol.FunctionBreakpoint[], projects: Project[]): AugmentedFunctionBreakpoint[] {
+        this.functionBreakpoints = functionBreakpoints.map(functionBreakpoint => {
+            const name = functionBreakpoint.name.trim();
+            const hash = `function:${name.toLowerCase()}-condition=${functionBreakpoint.condition ?? ''}-hitCondition=${functionBreakpoint.hitCondition ?? ''}`;
+            //reuse the existing breakpoint so it keeps its id
+            const existing = this.functionBreakpoints.find(x => x.hash === hash);
+            return existing ?? {
+                ...functionBreakpoint,
+                name: name,
+                id: this.breakpointIdSequence++,
+                hash: hash,
+                verified: false
+            };
+        });
+        for (const project of projects) {
+            this.getFunctionBreakpointLocations(project);
+        }
+        this.saveBreakpoints();
+        return this.functionBreakpoints;
+    }
+
+    /**
+     * Get the function breakpoints whose derived breakpoints are at the given source location
+     * @param srcPath the path to the source file
+     * @param line the 1-based line number
+     */
+    public getFunctionBreakpointsAtSourceLocation(srcPath: string, line: number) {
+        srcPath = s`${srcPath}`.toLowerCase();
+        const ids = [...this.functionBreakpointLocations.values()]
+            .filter(x => x.srcPath.toLowerCase() === srcPath && x.line === line)
+            .map(x => x.id);
+        return this.functionBreakpoints.filter(x => ids.includes(x.id));
+    }
+
+    /**
+     * Find every function declaration in the project that matches a function breakpoint, and get (or create) a source breakpoint for each one.
+     * Function breakpoint names are either a plain function name (i.e. `onKeyEvent`), or are qualified by the component or file name (i.e. `MyComponent.init`)
+     */
+    private getFunctionBreakpointLocations(project: Project) {
+        const result = [] as AugmentedSourceBreakpoint[];
+        if (!project?.fileMappings) {
+            return result;
+        }
+        //rebuild this project's locations from the current code, so the locations of functions that moved (or were deleted) are dropped.
+        //the existing locations are reused where they still match, so they keep their state
+        const projectSrcPaths = new Set(project.fileMappings.map(x => s`${x.src}`.toLowerCase()));
+        const previousLocations = new Map<string, AugmentedSourceBreakpoint>();
+        for (const [hash, breakpoint] of this.functionBreakpointLocations) {
+            if (projectSrcPaths.has(breakpoint.srcPath.toLowerCase())) {
+                previousLocations.set(hash, breakpoint);
+                this.functionBreakpointLocations.delete(hash);
+            }
+        }
+        for (const fileMapping of project.fileMappings) {
+            if (!/\.b[rs]s$/i.exec(fileMapping.src)) {
+                continue;
+            }
+            const srcPath = s`${fileMapping.src}`;
+            for (const functionBreakpoint of this.functionBreakpoints) {
+                const nameParts = functionBreakpoint.name.split('.');
+                const functionName = nameParts.pop();
+                const qualifier = nameParts.join('.').toLowerCase();
+                if (qualifier && !this.getFileQualifiers(srcPath).includes(qualifier)) {
+                    continue;
+                }
+                for (const func of this.fileManager.findFunctions(srcPath, functionName)) {
+                    //breakpoints can't be set on the declaration itself, so use the first line of the function body
+                    const line = func.bodyLineIndex + 1;
+                    const hash = `${this.getBreakpointKey(srcPath, { line: line, condition: functionBreakpoint.condition, hitCondition: functionBreakpoint.hitCondition })}-${functionBreakpoint.hash}`;
+                    let breakpoint = previousLocations.get(hash) ?? this.functionBreakpointLocations.get(hash);
+                    if (!breakpoint) {
+                        breakpoint = {
+                            srcPath: srcPath,
+                            line: line,
+                            column: 0,
+                            condition: functionBreakpoint.condition,
+                            hitCondition: functionBreakpoint.hitCondition,
+                            id: functionBreakpoint.id,
+                            hash: hash,
+                            functionName: functionBreakpoint.name,
+                            verified: false
+                        };
+                    }
+                    this.functionBreakpointLocations.set(hash, breakpoint);
+                    result.push(breakpoint);
+
+                    if (!functionBreakpoint.verified) {
+                        functionBreakpoint.verified = true;
+                        this.queueVerifyEvent(functionBreakpoint.hash);
+                    }
+                }
+            }
+        }
+        //throw out the derived breakpoints for function breakpoints that no longer exist
+        for (const [hash, breakpoint] of this.functionBreakpointLocations) {
+            if (!this.functionBreakpoints.find(x => x.id === breakpoint.id)) {
+                this.functionBreakpointLocations.delete(hash);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * The one-shot breakpoints used for stepping into a specific call
+     */
+    private runToLocations = [] as AugmentedSourceBreakpoint[];
+
+    /**
+     * Replace the one-shot breakpoints. These are removed by `clearRunToLocations` the next time the debugger suspends.
+     * Locations that already have a standard breakpoint are skipped, since the debugger will stop there anyway
+     * @param locations the source locations to stop at (lines are 1-based)
+     */
+    public setRunToLocations(locations: Array<{ srcPath: string; line: number }>) {
+        this.runToLocations = [];
+        for (const location of locations) {
+            const srcPath = this.sanitizeSourceFilePath(location.srcPath);
+            const hasStandardBreakpoint = this.getBreakpointsForFile(srcPath).some(x => {
+                return x.line === location.line && !x.condition && !x.hitCondition && !x.logMessage;
+            });
+            if (!hasStandardBreakpoint) {
+                this.runToLocations.push({
+                    srcPath: srcPath,
+                    line: location.line,
+                    column: 0,
+                    id: this.breakpointIdSequence++,
+                    hash: `${this.getBreakpointKey(srcPath, { line: location.line })}-runTo`,
+                    isRunToLocation: true,
+                    verified: false
+                });
+            }
+        }
+        return this.runToLocations;
+    }
+
+    /**
+     * Remove all of the one-shot breakpoints. They are removed from the device the next time the breakpoints are synced
+     * @returns the breakpoints that were removed
+     */
+    public clearRunToLocations() {
+        const result = this.runToLocations;
+        this.runToLocations = [];
+        return result;
+    }
+
+    /**
+     * Find the first line of the body of every function with this name, so the debugger can stop as soon as one of them is called
+     * @param functionName the name of the function (without any qualifier)
+     * @param projects the projects that should be scanned for matching function declarations
+     */
+    public getFunctionEntryLocations(functionName: string, projects: Project[]) {
+        const result = [] as Array<{ srcPath: string; line: number }>;
+        for (const project of projects) {
+            for (const fileMapping of project?.fileMappings ?? []) {
+                if (!/\.b[rs]s$/i.exec(fileMapping.src)) {
+                    continue;
+                }
+                const srcPath = s`${fileMapping.src}`;
+                for (const func of this.fileManager.findFunctions(srcPath, functionName)) {
+                    result.push({
+                        srcPath: srcPath,
+                        line: func.bodyLineIndex + 1
+                    });
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Get the lower case names that can be used to qualify a function in this file. This is the file name (without extension),
+     * and the name of the component from the xml file with the same name in the same directory (if there is one)
+     */
+    private getFileQualifiers(srcPath: string) {
+        const parsed = path.parse(srcPath);
+        const result = [parsed.name.toLowerCase()];
+        const xmlLines = this.fileManager.getCodeFile(s`${parsed.dir}/${parsed.name}.xml`)?.lines ?? [];
+        const match = /<component\s[^>]*?\bname\s*=\s*"([^"]+)"/i.exec(xmlLines.join('\n'));
+        if (match) {
+            result.push(match[1].toLowerCase());
+        }
+        return result;
+    }
+
     /**
      * Get a diff of all breakpoints that have changed since the last time the diff was retrieved.
      * Sets the new baseline to the current state, so the next diff will be based on this new baseline.
@@ -672,6 +1368,20 @@ export class BreakpointManager {
             this.isGetDiffRunning = false;
         }
     }
+
+    /**
+     * Forget which breakpoints were sent to the device (i.e. because the channel was republished),
+     * so the next diff will include every breakpoint as newly added. The hit counts start over too, since the channel does
+     */
+    public clearLastState() {
+        this.lastState.clear();
+        this.hitCounts.clear();
+        //the device hands out new ids once the breakpoints are sent again, so the old ones must not be matched against
+        for (const breakpoint of this.getAllBreakpoints()) {
+            delete breakpoint.deviceId;
+        }
+    }
+
     /**
      * Flag indicating whether a `getDiff` function is currently running
      */
@@ -685,6 +1395,18 @@ export interface Diff {
     unchanged: BreakpointWorkItem[];
 }
 
+/**
+ * The contents of the file where breakpoints are persisted between sessions
+ */
+export interface BreakpointState {
+    /**
+     * The source breakpoints, indexed by the path to the file they were set in
+     */
+    sourceBreakpoints: Record<string, Array<DebugProtocol.SourceBreakpoint & { verified?: boolean }>>;
+    dataBreakpoints: DebugProtocol.DataBreakpoint[];
+    functionBreakpoints: DebugProtocol.FunctionBreakpoint[];
+}
+
 export interface AugmentedSourceBreakpoint extends DebugProtocol.SourceBreakpoint {
     /**
      * The path to the source file where this breakpoint was originally set
@@ -706,6 +1428,75 @@ export interface AugmentedSourceBreakpoint extends DebugProtocol.SourceBreakpoin
      * This breakpoint has been verified (i.e. we were able to set it at the given location)
      */
     verified: boolean;
+    /**
+     * If this breakpoint was derived from a data breakpoint, the dataId of that data breakpoint
+     */
+    dataId?: string;
+    /**
+     * If this breakpoint was derived from a function breakpoint, the name of that function breakpoint
+     */
+    functionName?: string;
+    /**
+     * If true, this is a one-shot breakpoint (from stepping into a specific call) that gets removed the next time the debugger suspends
+     */
+    isRunToLocation?: boolean;
+    /**
+     * The name of the component library this breakpoint is waiting on. The device only verifies component library breakpoints once it has loaded that library
+     */
+    pendingComponentLibraryName?: string;
+}
+
+export interface AugmentedDataBreakpoint extends DebugProtocol.DataBreakpoint {
+    /**
+     * A unique ID the debug adapter generates to help send updates to the client about this breakpoint
+     */
+    id: number;
+    /**
+     * A unique hash generated for the data breakpoint based on its dataId, condition and hitCondition
+     */
+    hash: string;
+    /**
+     * The lower case AA key or node field name being watched
+     */
+    key: string;
+    /**
+     * The lower case path of the object being watched (i.e. `m.top`), or undefined if it can't be identified without running the code
+     */
+    receiver?: string;
+    /**
+     * This breakpoint has been verified (i.e. at least one statement was found that writes to the watched key)
+     */
+    verified: boolean;
+}
+
+export interface AugmentedFunctionBreakpoint extends DebugProtocol.FunctionBreakpoint {
+    /**
+     * A unique ID the debug adapter generates to help send updates to the client about this breakpoint
+     */
+    id: number;
+    /**
+     * A unique hash generated for the function breakpoint based on its name, condition and hitCondition
+     */
+    hash: string;
+    /**
+     * This breakpoint has been verified (i.e. at least one matching function declaration was found)
+     */
+    verified: boolean;
+}
+
+interface FieldWrite {
+    /**
+     * The lower case AA key or node field name
+     */
+    key: string;
+    /**
+     * The lower case path of the object being written to (i.e. `m.top`), or undefined if it can't be identified without running the code
+     */
+    receiver?: string;
+    /**
+     * The 1-based line number of the statement
+     */
+    line: number;
 }
 
 export interface BreakpointWorkItem {
@@ -218,6 +218,28 @@ describe('FileManager', () => {
         });
     });
 
+    describe('findFunctions', () => {
+        it('finds nested functions and skips blank lines and comments', () => {
+            sinon.stub(fsExtra, 'readFileSync').returns([
+                'sub main()',
+                '',
+                '    \' comment',
+                '    rem comment',
+                '    doSomething = function()',
+                '    end function',
+                'end sub',
+                'function doSomething()',
+                'end function'
+            ].join('\n'));
+            expect(
+                fileManager.findFunctions('source/main.brs', 'DOSOMETHING').map(x => x.bodyLineIndex)
+            ).to.eql([5, 8]);
+            expect(
+                fileManager.findFunctions('source/main.brs', 'main').map(x => x.bodyLineIndex)
+            ).to.eql([4]);
+        });
+    });
+
     describe('getCorrectFunctionNameCase', () => {
         it('loads file from filesystem', () => {
             sinon.stub(fsExtra, 'readFileSync').returns(`
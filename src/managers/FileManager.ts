@@ -17,10 +17,15 @@ export class FileManager {
 
     public getCodeFile(filePath: string) {
         let lowerFilePath = filePath?.toLowerCase();
+        //reload the file if it has changed since it was cached
+        if (lowerFilePath && this.cache[lowerFilePath] && this.cache[lowerFilePath].mtime !== this.getModifiedTime(filePath)) {
+            delete this.cache[lowerFilePath];
+        }
         if (lowerFilePath && !this.cache[lowerFilePath]) {
             let fileInfo = {
                 lines: [],
-                functionNameMap: {}
+                functionNameMap: {},
+                mtime: this.getModifiedTime(filePath)
             } as CodeFile;
 
             try {
@@ -36,6 +41,17 @@ export class FileManager {
         return this.cache[lowerFilePath];
     }
 
+    /**
+     * Get the last modified time of the file, or undefined if the file could not be found
+     */
+    private getModifiedTime(filePath: string) {
+        try {
+            return fsExtra.statSync(filePath).mtimeMs;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
     private getFunctionInfo(lines: string[]) {
         let result = [];
 
@@ -146,6 +162,46 @@ export class FileManager {
         }
     }
 
+    /**
+     * Find every named function in the file (including nested functions) whose name matches the given name (case insensitive)
+     * @param sourceFilePath the path to the source file
+     * @param functionName the name of the function to find
+     * @returns the function info for every match, along with the zero-indexed line of the first statement in the function body
+     */
+    public findFunctions(sourceFilePath: string, functionName: string) {
+        let fileInfo = this.getCodeFile(sourceFilePath);
+        let lowerFunctionName = functionName?.toLowerCase();
+        let result = [] as Array<FunctionInfo & { bodyLineIndex: number }>;
+
+        let walk = (functionInfos: FunctionInfo[]) => {
+            for (let info of functionInfos ?? []) {
+                if (info.name?.toLowerCase() === lowerFunctionName) {
+                    result.push({
+                        ...info,
+                        bodyLineIndex: this.getFunctionBodyLineIndex(fileInfo.lines, info)
+                    });
+                }
+                walk(info.children);
+            }
+        };
+        walk(fileInfo?.functionInfo);
+        return result;
+    }
+
+    /**
+     * Find the first line of the function body that isn't blank or a comment.
+     * Empty functions will use the `end function` line, since that is still a valid place to stop.
+     */
+    private getFunctionBodyLineIndex(lines: string[], functionInfo: FunctionInfo) {
+        for (let lineIndex = functionInfo.range.start.line + 1; lineIndex < functionInfo.range.end.line; lineIndex++) {
+            let line = lines[lineIndex]?.trim() ?? '';
+            if (line !== '' && !/^(?:'|rem\b)/i.exec(line)) {
+                return lineIndex;
+            }
+        }
+        return functionInfo.range.end.line;
+    }
+
     /**
      * Anonymous functions have obscure names. In most cases, we can derive a slightly better name
      * from the source code.
@@ -172,6 +228,10 @@ export interface CodeFile {
      * An array of function information from this file
      */
     functionInfo: FunctionInfo[];
+    /**
+     * The last modified time of the file when it was loaded. Used to reload the file when it changes
+     */
+    mtime: number;
 }
 
 interface FunctionInfo {
@@ -8,6 +8,7 @@ import { fileUtils, standardizePath as s } from '../FileUtils';
 import type { ComponentLibraryConstructorParams } from './ProjectManager';
 import { Project, ComponentLibraryProject, ProjectManager } from './ProjectManager';
 import { BreakpointManager } from './BreakpointManager';
+import { FileManager } from './FileManager';
 import { SourceMapManager } from './SourceMapManager';
 import { LocationManager } from './LocationManager';
 
@@ -38,7 +39,7 @@ describe('ProjectManager', () => {
         sinon.stub(console, 'log').callsFake((...args) => { });
         let sourceMapManager = new SourceMapManager();
         let locationManager = new LocationManager(sourceMapManager);
-        let breakpointManager = new BreakpointManager(sourceMapManager, locationManager);
+        let breakpointManager = new BreakpointManager(sourceMapManager, locationManager, new FileManager());
 
         manager = new ProjectManager(breakpointManager, locationManager);
 
@@ -215,6 +216,32 @@ describe('ProjectManager', () => {
         });
     });
 
+    describe('isTaskScript', () => {
+        beforeEach(() => {
+            fsExtra.outputFileSync(s`${stagingFolderPath}/components/tasks/LoaderTask.xml`, `
+                <component name="LoaderTask" extends="Task">
+                    <script type="text/brightscript" uri="LoaderTask.brs" />
+                    <script type="text/brightscript" uri="pkg:/source/shared.brs" />
+                </component>
+            `);
+            fsExtra.outputFileSync(s`${stagingFolderPath}/components/MainScene.xml`, `
+                <component name="MainScene" extends="Scene">
+                    <script type="text/brightscript" uri="MainScene.brs" />
+                </component>
+            `);
+        });
+
+        it('finds scripts referenced by Task components', async () => {
+            expect(await manager.isTaskScript('pkg:/components/tasks/LoaderTask.brs')).to.be.true;
+            expect(await manager.isTaskScript('pkg:/source/shared.brs')).to.be.true;
+        });
+
+        it('ignores scripts from other components', async () => {
+            expect(await manager.isTaskScript('pkg:/components/MainScene.brs')).to.be.false;
+            expect(await manager.isTaskScript('pkg:/source/main.brs')).to.be.false;
+        });
+    });
+
     describe('getSourceLocation', () => {
         it(`does not crash when file is missing`, async () => {
             manager.mainProject.fileMappings = [];
@@ -341,6 +368,64 @@ describe('Project', () => {
         });
     });
 
+    describe('restageFiles', () => {
+        beforeEach(async () => {
+            project.raleTrackerTaskFileLocation = undefined;
+            project.rootDir = rootDir;
+            project.files = ['manifest', 'source/**/*'];
+            fsExtra.outputFileSync(s`${rootDir}/manifest`, 'bs_const=b=false');
+            fsExtra.outputFileSync(s`${rootDir}/source/main.brs`, 'sub main()\nend sub');
+            fsExtra.outputFileSync(s`${rootDir}/source/lib.brs`, 'sub lib()\nend sub');
+            await project.stage();
+        });
+
+        it('copies only the changed files into the existing staging folder', async () => {
+            fsExtra.outputFileSync(s`${rootDir}/source/main.brs`, 'sub main()\n    print "changed"\nend sub');
+            fsExtra.outputFileSync(s`${rootDir}/source/lib.brs`, 'sub lib()\n    print "changed"\nend sub');
+            //mark the staged lib.brs so we can tell it was left alone
+            fsExtra.outputFileSync(s`${stagingFolderPath}/source/lib.brs`, 'untouched');
+
+            expect(
+                await project.restageFiles([s`${rootDir}/source/main.brs`])
+            ).to.eql([s`${stagingFolderPath}/source/main.brs`]);
+
+            expect(fsExtra.readFileSync(s`${stagingFolderPath}/source/main.brs`).toString()).to.include('changed');
+            expect(fsExtra.readFileSync(s`${stagingFolderPath}/source/lib.brs`).toString()).to.equal('untouched');
+            //the bs_const transform from the initial stage is still there
+            expect(fsExtra.readFileSync(s`${stagingFolderPath}/manifest`).toString()).to.equal('bs_const=b=true');
+        });
+
+        it('adds new files and removes deleted files', async () => {
+            fsExtra.outputFileSync(s`${rootDir}/source/new.brs`, 'sub new()\nend sub');
+            fsExtra.removeSync(s`${rootDir}/source/lib.brs`);
+
+            expect(
+                (await project.restageFiles([s`${rootDir}/source/new.brs`, s`${rootDir}/source/lib.brs`])).sort()
+            ).to.eql([
+                s`${stagingFolderPath}/source/lib.brs`,
+                s`${stagingFolderPath}/source/new.brs`
+            ]);
+            expect(fsExtra.pathExistsSync(s`${stagingFolderPath}/source/new.brs`)).to.be.true;
+            expect(fsExtra.pathExistsSync(s`${stagingFolderPath}/source/lib.brs`)).to.be.false;
+            expect(project.fileMappings.map(x => x.dest)).not.to.include(s`${stagingFolderPath}/source/lib.brs`);
+        });
+
+        it('accepts staging paths and removes source maps generated in staging', async () => {
+            fsExtra.outputFileSync(s`${stagingFolderPath}/source/main.brs`, 'sub main()\n    stop\nend sub');
+            fsExtra.outputFileSync(s`${stagingFolderPath}/source/main.brs.map`, '{}');
+
+            await project.restageFiles([s`${stagingFolderPath}/source/main.brs`]);
+            expect(fsExtra.readFileSync(s`${stagingFolderPath}/source/main.brs`).toString()).to.equal('sub main()\nend sub');
+            expect(fsExtra.pathExistsSync(s`${stagingFolderPath}/source/main.brs.map`)).to.be.false;
+        });
+
+        it('re-applies the bs_const transform when the manifest changes', async () => {
+            fsExtra.outputFileSync(s`${rootDir}/manifest`, 'title=changed\nbs_const=b=false');
+            await project.restageFiles([s`${rootDir}/manifest`]);
+            expect(fsExtra.readFileSync(s`${stagingFolderPath}/manifest`).toString()).to.equal('title=changed\nbs_const=b=true');
+        });
+    });
+
     describe('updateManifestBsConsts', () => {
         let constsLine: string;
         let startingFileContents: string;
@@ -142,6 +142,38 @@ export class ProjectManager {
         }
     }
 
+    /**
+     * Determine if the given file is a script of a Task component (i.e. the component's xml extends `Task`)
+     * @param debuggerPath the path to the file which was provided by the debugger
+     */
+    public async isTaskScript(debuggerPath: string) {
+        let stagingFileInfo = await this.getStagingFileInfo(debuggerPath);
+        if (!stagingFileInfo) {
+            return false;
+        }
+        let stagingFolderPath = stagingFileInfo.project.stagingFolderPath;
+        let lowerRelativePath = stagingFileInfo.relativePath.toLowerCase();
+
+        let xmlPaths = await globAsync('**/*.xml', { cwd: stagingFolderPath, nocase: true });
+        for (let xmlPath of xmlPaths) {
+            let fileContents = (await fsExtra.readFile(s`${stagingFolderPath}/${xmlPath}`)).toString();
+            if (!/<component\s[^>]*?\bextends\s*=\s*"Task"/i.exec(fileContents)) {
+                continue;
+            }
+            let scriptRegex = /<script\s[^>]*?\buri\s*=\s*"([^"]+)"/gi;
+            let match: RegExpExecArray;
+            while ((match = scriptRegex.exec(fileContents))) {
+                let uri = match[1];
+                //script uris are either absolute (pkg:/) or relative to the xml file
+                let scriptPath = util.getFileScheme(uri) ? util.removeFileScheme(uri) : path.join(path.dirname(xmlPath), uri);
+                if (fileUtils.removeLeadingSlash(s`${scriptPath}`).toLowerCase() === lowerRelativePath) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
     /**
      *
      * @param stagingFolderPath - the path to
@@ -295,6 +327,66 @@ export class Project {
         await this.copyAndTransformRDB();
     }
 
+    /**
+     * Copy only the given files into the existing staging folder (i.e. when they were changed during a debug session),
+     * rather than clearing and re-staging the whole project. The file mappings are recomputed first, so new files are picked up
+     * and files that no longer match the `files` array are removed from staging.
+     * @param filePaths the paths to the changed files. Either the source path or the staging path of a file may be used
+     * @returns the staging paths of every file that was re-staged or removed
+     */
+    public async restageFiles(filePaths: string[]) {
+        const lowerFilePaths = new Set(filePaths.map(x => s`${x}`.toLowerCase()));
+        const previousFileMappings = this.fileMappings ?? [];
+        const fileMappings = await this.getFileMappings();
+        const lowerDestPaths = new Set(fileMappings.map(x => x.dest.toLowerCase()));
+
+        const changedFileMappings = fileMappings.filter(x => lowerFilePaths.has(x.src.toLowerCase()) || lowerFilePaths.has(x.dest.toLowerCase()));
+        const removedFileMappings = previousFileMappings.filter(x => !lowerDestPaths.has(x.dest.toLowerCase()));
+        this.fileMappings = fileMappings;
+
+        await Promise.all([
+            ...changedFileMappings.map(x => fsExtra.copy(x.src, x.dest, {
+                //copy the actual files that symlinks point to, not the symlinks themselves
+                dereference: true
+            })),
+            ...removedFileMappings.map(x => fsExtra.remove(x.dest))
+        ]);
+
+        const restagedPaths = [...changedFileMappings, ...removedFileMappings].map(x => x.dest);
+        //a source map generated in staging (i.e. by breakpoint injection) no longer matches the fresh copy of its file
+        await Promise.all(
+            restagedPaths
+                .filter(x => !lowerDestPaths.has(`${x}.map`.toLowerCase()))
+                .map(x => fsExtra.remove(`${x}.map`))
+        );
+
+        await this.resolveFileMappingsForSourceDirs();
+
+        if (changedFileMappings.length > 0) {
+            if (changedFileMappings.some(x => x.dest.toLowerCase() === s`${this.stagingFolderPath}/manifest`.toLowerCase())) {
+                await this.transformManifestWithBsConst();
+            }
+            //the injection points may live in any of the changed files
+            await this.copyAndTransformRaleTrackerTask();
+            await this.copyAndTransformRDB();
+        }
+        return restagedPaths;
+    }
+
+    /**
+     * Load the file mappings for a project that was already staged by a previous debug session (i.e. when attaching to a running channel).
+     * Nothing is copied or transformed, so the staging folder must still exist from that previous session
+     */
+    public async loadStagedFileMappings() {
+        if (!this.fileMappings) {
+            this.fileMappings = await this.getFileMappings();
+        }
+        if (!await fsExtra.pathExists(this.stagingFolderPath)) {
+            throw new Error(`Cannot find staging folder at '${this.stagingFolderPath}'. Attaching requires the staging folder from the session that sideloaded the channel (see 'retainStagingFolder')`);
+        }
+        await this.resolveFileMappingsForSourceDirs();
+    }
+
     /**
      * If the project uses sourceDirs, replace every `fileMapping.src` with its original location in sourceDirs
      */
@@ -536,6 +628,19 @@ export class ComponentLibraryProject extends Project {
     }
 
     public async stage() {
+        await this.computeStagingFolderPath();
+        return super.stage();
+    }
+
+    public async loadStagedFileMappings() {
+        await this.computeStagingFolderPath();
+        return super.loadStagedFileMappings();
+    }
+
+    /**
+     * Compute the file mappings and the final staging folder path (which is derived from the outFile name found in the manifest)
+     */
+    private async computeStagingFolderPath() {
         /*
          Compute the file mappings now (i.e. don't let the parent class compute them).
          This must be done BEFORE finding the manifest file location.
@@ -566,8 +671,6 @@ export class ComponentLibraryProject extends Project {
         for (let fileMapping of this.fileMappings) {
             fileMapping.dest = fileUtils.replaceCaseInsensitive(fileMapping.dest, defaultStagingFolderPath, this.stagingFolderPath);
         }
-
-        return super.stage();
     }
 
     /**
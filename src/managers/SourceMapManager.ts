@@ -77,6 +77,13 @@ export class SourceMapManager {
         }
     }
 
+    /**
+     * Remove a source map from the in-memory cache (i.e. because the file it was generated for has been replaced)
+     */
+    public remove(sourceMapPath: string) {
+        delete this.cache[s`${sourceMapPath.toLowerCase()}`];
+    }
+
     /**
      * Get the source location of a position using a source map. If no source map is found, undefined is returned
      * @param filePath - the absolute path to the file
@@ -247,6 +247,76 @@ describe('Util', () => {
         });
     });
 
+    describe('parseHitCondition', () => {
+        it('parses every operator', () => {
+            expect(util.parseHitCondition('>5')).to.eql({ operator: '>', count: 5 });
+            expect(util.parseHitCondition(' >= 5 ')).to.eql({ operator: '>=', count: 5 });
+            expect(util.parseHitCondition('<5')).to.eql({ operator: '<', count: 5 });
+            expect(util.parseHitCondition('<=5')).to.eql({ operator: '<=', count: 5 });
+            expect(util.parseHitCondition('==10')).to.eql({ operator: '==', count: 10 });
+            expect(util.parseHitCondition('=10')).to.eql({ operator: '==', count: 10 });
+            expect(util.parseHitCondition('%100')).to.eql({ operator: '%', count: 100 });
+        });
+
+        it('treats a plain number as the number of hits to skip', () => {
+            expect(util.parseHitCondition('3')).to.eql({ operator: '>', count: 3 });
+        });
+
+        it('rejects invalid hit conditions', () => {
+            expect(util.parseHitCondition(undefined)).to.be.undefined;
+            expect(util.parseHitCondition('')).to.be.undefined;
+            expect(util.parseHitCondition('!=3')).to.be.undefined;
+            expect(util.parseHitCondition('>x')).to.be.undefined;
+        });
+    });
+
+    describe('isHitConditionMet', () => {
+        function getMetHits(hitCondition: string) {
+            return [1, 2, 3, 4, 5, 6].filter(x => util.isHitConditionMet(util.parseHitCondition(hitCondition), x));
+        }
+
+        it('compares the hit count', () => {
+            expect(getMetHits('>4')).to.eql([5, 6]);
+            expect(getMetHits('>=4')).to.eql([4, 5, 6]);
+            expect(getMetHits('<3')).to.eql([1, 2]);
+            expect(getMetHits('<=3')).to.eql([1, 2, 3]);
+            expect(getMetHits('==3')).to.eql([3]);
+            expect(getMetHits('%2')).to.eql([2, 4, 6]);
+            expect(getMetHits('%0')).to.eql([]);
+        });
+    });
+
+    describe('getFunctionCalls', () => {
+        function getCalls(line: string) {
+            return util.getFunctionCalls(line).map(x => [x.label, x.name, x.column]);
+        }
+
+        it('lists the calls in the order they run', () => {
+            expect(getCalls('a(b(c()))')).to.eql([
+                ['c', 'c', 4],
+                ['b', 'b', 2],
+                ['a', 'a', 0]
+            ]);
+            expect(getCalls('x = m.foo(1).bar()')).to.eql([
+                ['m.foo', 'foo', 4],
+                ['m.foo(1).bar', 'bar', 4]
+            ]);
+        });
+
+        it('finds calls on lines that open or continue a block', () => {
+            expect(getCalls('if isValid(x) then')).to.eql([['isValid', 'isValid', 3]]);
+            expect(getCalls('else if m.top.getChild(0) <> invalid')).to.eql([['m.top.getChild', 'getChild', 8]]);
+            expect(getCalls('while check()')).to.eql([['check', 'check', 6]]);
+            expect(getCalls('for each item in getItems()')).to.eql([['getItems', 'getItems', 17]]);
+        });
+
+        it('returns an empty list when there are no calls', () => {
+            expect(getCalls('end if')).to.eql([]);
+            expect(getCalls('a = b + 1')).to.eql([]);
+            expect(getCalls('not valid code (')).to.eql([]);
+        });
+    });
+
     describe('trimDebugPrompt', () => {
         it('correctly handles both types of line endings', () => {
             expect(util.trimDebugPrompt(
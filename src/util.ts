@@ -6,10 +6,10 @@ import type { SmartBuffer } from 'smart-buffer';
 import type { BrightScriptDebugSession } from './debugSession/BrightScriptDebugSession';
 import { LogOutputEvent } from './debugSession/Events';
 import type { AssignmentStatement, Position, Range } from 'brighterscript';
-import { DiagnosticSeverity, isDottedGetExpression, isIndexedGetExpression, isLiteralExpression, isVariableExpression, Parser } from 'brighterscript';
+import { createVisitor, DiagnosticSeverity, isDottedGetExpression, isIndexedGetExpression, isLiteralExpression, isVariableExpression, Parser, WalkMode } from 'brighterscript';
 import { serializeError } from 'serialize-error';
 import * as dns from 'dns';
-import type { AdapterOptions } from './interfaces';
+import type { AdapterOptions, HitCondition } from './interfaces';
 
 class Util {
     /**
@@ -305,6 +305,99 @@ class Util {
         }
     }
 
+    /**
+     * Find the function calls on a single line of code, in the order they will run (i.e. `c`, `b`, then `a` for `a(b(c()))`)
+     * @returns the text of each callee, the name of the function being called, and the zero-based column where the callee starts
+     */
+    public getFunctionCalls(line: string) {
+        const result = [] as Array<{ label: string; name: string; column: number; endColumn: number }>;
+        //lines that open (or continue) a block don't parse on their own, so try them with the rest of the block around them
+        const wrappers = [
+            { prefix: '', suffix: '' },
+            { prefix: '', suffix: '\nend if' },
+            { prefix: 'if true then\n', suffix: '\nend if' },
+            { prefix: '', suffix: '\nend while' },
+            { prefix: '', suffix: '\nend for' }
+        ];
+        for (const wrapper of wrappers) {
+            const parser = Parser.parse(`${wrapper.prefix}${line}${wrapper.suffix}`);
+            if (parser.diagnostics.find(x => x.severity === DiagnosticSeverity.Error)) {
+                continue;
+            }
+            //the line we care about comes after the prefix
+            const lineIndex = wrapper.prefix ? 1 : 0;
+            parser.ast.walk(createVisitor({
+                CallExpression: (call) => {
+                    if (call.range.start.line !== lineIndex) {
+                        return;
+                    }
+                    let name: string;
+                    if (isVariableExpression(call.callee)) {
+                        name = call.callee.name.text;
+                    } else if (isDottedGetExpression(call.callee)) {
+                        name = call.callee.name.text;
+                    } else {
+                        return;
+                    }
+                    result.push({
+                        label: line.substring(call.callee.range.start.character, call.callee.range.end.character),
+                        name: name,
+                        column: call.callee.range.start.character,
+                        endColumn: call.range.end.character
+                    });
+                }
+            }), {
+                walkMode: WalkMode.visitAllRecursive
+            });
+            break;
+        }
+        //inner calls (i.e. arguments) finish first, so they run first
+        return result.sort((a, b) => a.endColumn - b.endColumn);
+    }
+
+    /**
+     * Parse a breakpoint hit condition such as `>5`, `>=5`, `==10` or `%3`.
+     * A plain number (i.e. `5`) skips that many hits, so it is the same as `>5`
+     * @returns the parsed hit condition, or undefined if the text is not a valid hit condition
+     */
+    public parseHitCondition(hitCondition: string): HitCondition | undefined {
+        const match = /^\s*(>=|<=|==|=|>|<|%)?\s*(\d+)\s*$/.exec(hitCondition ?? '');
+        if (!match) {
+            return undefined;
+        }
+        let operator = (match[1] ?? '>') as HitCondition['operator'] | '=';
+        if (operator === '=') {
+            operator = '==';
+        }
+        return {
+            operator: operator,
+            count: parseInt(match[2])
+        };
+    }
+
+    /**
+     * Determine whether a breakpoint should stop on the given hit
+     * @param hitCount the 1-based number of times the breakpoint has been hit (including this hit)
+     */
+    public isHitConditionMet(hitCondition: HitCondition, hitCount: number) {
+        switch (hitCondition.operator) {
+            case '>':
+                return hitCount > hitCondition.count;
+            case '>=':
+                return hitCount >= hitCondition.count;
+            case '<':
+                return hitCount < hitCondition.count;
+            case '<=':
+                return hitCount <= hitCondition.count;
+            case '==':
+                return hitCount === hitCondition.count;
+            case '%':
+                return hitCondition.count > 0 && hitCount % hitCondition.count === 0;
+            default:
+                return true;
+        }
+    }
+
     /**
      * Given a full URL, convert any dns name into its IP address and then return the full URL with the name replaced
      */